@@ -0,0 +1,214 @@
+/**
+ * mock-feed — local Pyth-like WebSocket price server for the simulator
+ *
+ * Usage:
+ *   mock-feed [--port 8787] [--csv ticks.csv [--speed 1] [--loop]]
+ *   mock-feed [--port 8787] [--start 100] [--sigma 0.5] [--interval 1] [--seed 1]
+ *
+ * With --csv the file's tick series is replayed keeping the gaps between
+ * ticks (divided by --speed); otherwise a geometric random walk is streamed.
+ * Every update is stamped with the current time, so pausing the CSV (long
+ * gaps) or stopping the server lets the simulator's staleness check fire.
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  createRng,
+  encodePriceUpdate,
+  normalizeFeedId,
+  parsePriceTicks,
+  PriceTick,
+  PythSubscribeMessage,
+  SECONDS_PER_YEAR,
+} from '../src/index';
+
+const USAGE = `Usage: mock-feed [options]
+
+  --port <n>        WebSocket port (default: 8787)
+  --feed-id <hex>   Feed id served to clients that subscribe without ids
+  --conf-bps <n>    Confidence interval in bps of price (default: 5)
+
+CSV replay:
+  --csv <file>      Tick series "timestamp,price" to replay
+  --speed <n>       Replay speed multiplier (default: 1)
+  --loop            Restart from the first tick at the end
+
+Random walk (when --csv is omitted):
+  --start <n>       Initial price (default: 100)
+  --sigma <n>       Annualized volatility (default: 0.5)
+  --interval <n>    Seconds between updates (default: 1)
+  --seed <n>        RNG seed (default: current time)
+  -h, --help        Show this help`;
+
+// 未指定时使用的示例 feed id（32 字节）
+const DEFAULT_FEED_ID = 'e62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43';
+
+class UsageError extends Error {}
+
+function requireNumber(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number, got "${value}"`);
+  return parsed;
+}
+
+// ============================================================================
+// PRICE SOURCES
+// ============================================================================
+
+/**
+ * Emits prices via callback until the returned stop function is called
+ */
+type PriceSource = (emit: (price: number) => void) => () => void;
+
+function csvSource(ticks: PriceTick[], speed: number, loop: boolean): PriceSource {
+  return (emit) => {
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const step = () => {
+      emit(ticks[index].price);
+      const next = index + 1;
+      if (next >= ticks.length && !loop) {
+        console.log('mock-feed: end of CSV reached (use --loop to repeat)');
+        return;
+      }
+      const gapSecs = next < ticks.length ? ticks[next].ts - ticks[index].ts : 1;
+      index = next % ticks.length;
+      timer = setTimeout(step, (gapSecs * 1000) / speed);
+    };
+
+    step();
+    return () => {
+      if (timer !== null) clearTimeout(timer);
+    };
+  };
+}
+
+function randomWalkSource(start: number, sigma: number, intervalSecs: number, seed: number): PriceSource {
+  return (emit) => {
+    const rng = createRng(seed);
+    const stepStd = sigma * Math.sqrt(intervalSecs / SECONDS_PER_YEAR);
+    let price = start;
+
+    emit(price);
+    const timer = setInterval(() => {
+      price *= Math.exp(stepStd * rng.normal() - 0.5 * stepStd * stepStd);
+      emit(price);
+    }, intervalSecs * 1000);
+    return () => clearInterval(timer);
+  };
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+function main(argv: string[]): void {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string', default: '8787' },
+      'feed-id': { type: 'string', default: DEFAULT_FEED_ID },
+      'conf-bps': { type: 'string', default: '5' },
+      csv: { type: 'string' },
+      speed: { type: 'string', default: '1' },
+      loop: { type: 'boolean', default: false },
+      start: { type: 'string', default: '100' },
+      sigma: { type: 'string', default: '0.5' },
+      interval: { type: 'string', default: '1' },
+      seed: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const port = requireNumber(values.port, 'port');
+  const defaultFeedId = normalizeFeedId(values['feed-id']);
+  const confBps = requireNumber(values['conf-bps'], 'conf-bps');
+
+  let source: PriceSource;
+  if (values.csv !== undefined) {
+    const ticks = parsePriceTicks(readFileSync(values.csv, 'utf8'));
+    if (ticks.length === 0) throw new UsageError(`no ticks found in ${values.csv}`);
+    const speed = requireNumber(values.speed, 'speed');
+    if (!(speed > 0)) throw new UsageError('--speed must be > 0');
+    source = csvSource(ticks, speed, values.loop);
+    console.log(`mock-feed: replaying ${ticks.length} ticks from ${values.csv} at ${speed}x`);
+  } else {
+    const interval = requireNumber(values.interval, 'interval');
+    if (!(interval > 0)) throw new UsageError('--interval must be > 0');
+    const seed = values.seed !== undefined ? requireNumber(values.seed, 'seed') : Date.now();
+    source = randomWalkSource(
+      requireNumber(values.start, 'start'),
+      requireNumber(values.sigma, 'sigma'),
+      interval,
+      seed
+    );
+    console.log(`mock-feed: random walk every ${interval}s (seed ${seed})`);
+  }
+
+  // 每个客户端订阅的 feed id（空订阅使用默认 id）
+  const subscriptions = new Map<WebSocket, string[]>();
+  const server = new WebSocketServer({ port });
+
+  server.on('connection', (socket) => {
+    subscriptions.set(socket, []);
+    socket.on('message', (raw) => {
+      try {
+        const message = JSON.parse(raw.toString()) as Partial<PythSubscribeMessage>;
+        const ids = Array.isArray(message.ids) ? message.ids.map(String).map(normalizeFeedId) : [];
+        const current = subscriptions.get(socket) ?? [];
+        if (message.type === 'subscribe') {
+          subscriptions.set(socket, [...new Set([...current, ...ids])]);
+        } else if (message.type === 'unsubscribe') {
+          subscriptions.set(socket, current.filter((id) => !ids.includes(id)));
+        } else {
+          throw new Error(`unknown message type "${String(message.type)}"`);
+        }
+        socket.send(JSON.stringify({ type: 'response', status: 'success' }));
+      } catch (err) {
+        socket.send(
+          JSON.stringify({ type: 'response', status: 'error', error: err instanceof Error ? err.message : String(err) })
+        );
+      }
+    });
+    socket.on('close', () => subscriptions.delete(socket));
+  });
+
+  const stop = source((price) => {
+    const publishTime = Math.floor(Date.now() / 1000);
+    const conf = (price * confBps) / 10_000;
+    for (const [socket, ids] of subscriptions) {
+      if (socket.readyState !== WebSocket.OPEN) continue;
+      for (const feedId of ids.length > 0 ? ids : [defaultFeedId]) {
+        socket.send(JSON.stringify(encodePriceUpdate({ feedId, price, conf, publishTime })));
+      }
+    }
+  });
+
+  server.on('listening', () => console.log(`mock-feed: listening on ws://localhost:${port}`));
+  server.on('error', (err) => {
+    console.error(`mock-feed: cannot listen on port ${port}: ${err.message}`);
+    stop();
+    process.exit(1);
+  });
+  process.on('SIGINT', () => {
+    stop();
+    server.close();
+    process.exit(0);
+  });
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (err) {
+  console.error(`mock-feed: ${err instanceof Error ? err.message : String(err)}`);
+  if (err instanceof UsageError) console.error(`\n${USAGE}`);
+  process.exitCode = err instanceof UsageError ? 2 : 1;
+}
@@ -0,0 +1,304 @@
+/**
+ * premium-sim — command-line front end for the headless pricing library
+ *
+ * Usage:
+ *   premium-sim quote      --spot 100 --barrier 101 --side long [--stake 100]
+ *   premium-sim solve-odds --spot 100 --odds 10 --side short [--net]
+ *   premium-sim ladder     --spot 100 --odds 1.5,2,5,10 [--side long|short|both] [--net]
+ *
+ * Common options:
+ *   --market <file>    MarketAccount JSON (missing fields use the defaults)
+ *   --format table|json|csv
+ *   --cdf hastings|erfc
+ *   --model spread|closedForm
+ *   --rate <r> --carry <q>
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  buildOddsLadder,
+  calcQuote,
+  parseMarketConfig,
+  removeFee,
+  solveForBarrier,
+  validateQuote,
+  DEFAULT_MARKET_CONFIG,
+  MarketAccount,
+  PricingOptions,
+  QuoteRejection,
+  Side,
+} from '../src/index';
+
+const USAGE = `Usage: premium-sim <quote|solve-odds|ladder> [options]
+
+  quote       --spot <n> --barrier <n> --side <long|short> [--stake <n>]
+  solve-odds  --spot <n> --odds <n> --side <long|short> [--net]
+  ladder      --spot <n> --odds <n,n,...> [--side <long|short|both>] [--net]
+
+Options:
+  --market <file>       MarketAccount JSON file (defaults for missing fields)
+  --format <table|json|csv>
+                        Output format (default: table)
+  --cdf <hastings|erfc> Normal CDF used for pricing (default: hastings)
+  --model <spread|closedForm>
+                        Digital pricer (default: spread)
+  --rate <n>            Risk-free rate, annualized (default: 0)
+  --carry <n>           Carry / funding rate, annualized (default: 0)
+  --net                 Treat odds as net of feeBps
+  -h, --help            Show this help`;
+
+type Row = Record<string, string | number | boolean>;
+
+type Options = Record<string, string | boolean | undefined>;
+
+class UsageError extends Error {}
+
+// ============================================================================
+// ARGUMENT HELPERS
+// ============================================================================
+
+function requireNumber(value: string | undefined, name: string): number {
+  if (value === undefined) throw new UsageError(`missing --${name}`);
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number, got "${value}"`);
+  return parsed;
+}
+
+function requireOdds(value: string | undefined): number {
+  const odds = requireNumber(value, 'odds');
+  if (!(odds > 1)) throw new UsageError(`--odds must be > 1, got ${odds}`);
+  return odds;
+}
+
+function parseSides(value: string | undefined, allowBoth: boolean): Side[] {
+  switch ((value ?? (allowBoth ? 'both' : '')).toLowerCase()) {
+    case 'long':
+      return [Side.Long];
+    case 'short':
+      return [Side.Short];
+    case 'both':
+      if (allowBoth) return [Side.Long, Side.Short];
+      break;
+  }
+  throw new UsageError(`--side must be long${allowBoth ? ', short or both' : ' or short'}`);
+}
+
+function loadMarket(path: string | undefined): MarketAccount {
+  if (path === undefined) return DEFAULT_MARKET_CONFIG;
+  return parseMarketConfig(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+function parsePricingOptions(options: Options): PricingOptions {
+  const { cdf, model } = options;
+  if (cdf !== 'hastings' && cdf !== 'erfc') {
+    throw new UsageError('--cdf must be hastings or erfc');
+  }
+  if (model !== 'spread' && model !== 'closedForm') {
+    throw new UsageError('--model must be spread or closedForm');
+  }
+  return {
+    cdfMethod: cdf,
+    model,
+    rate: requireNumber(options.rate as string | undefined, 'rate'),
+    carry: requireNumber(options.carry as string | undefined, 'carry'),
+  };
+}
+
+function sideName(side: Side): string {
+  return side === Side.Long ? 'long' : 'short';
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function formatCell(value: string | number | boolean): string {
+  if (typeof value !== 'number') return String(value);
+  if (Number.isInteger(value)) return String(value);
+  return Math.abs(value) >= 1e-4 || value === 0 ? value.toFixed(6) : value.toExponential(4);
+}
+
+function printTable(rows: Row[]): void {
+  if (rows.length === 0) return;
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((c) => formatCell(row[c])));
+  const widths = columns.map((c, i) => Math.max(c.length, ...cells.map((r) => r[i].length)));
+
+  const line = (values: string[]) => values.map((v, i) => v.padStart(widths[i])).join('  ');
+  console.log(line(columns));
+  console.log(widths.map((w) => '-'.repeat(w)).join('  '));
+  for (const row of cells) console.log(line(row));
+}
+
+function printCsv(rows: Row[]): void {
+  if (rows.length === 0) return;
+  const columns = Object.keys(rows[0]);
+  console.log(columns.join(','));
+  for (const row of rows) console.log(columns.map((c) => String(row[c])).join(','));
+}
+
+function output(rows: Row[], format: string): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(rows.length === 1 ? rows[0] : rows, null, 2));
+  } else if (format === 'csv') {
+    printCsv(rows);
+  } else {
+    printTable(rows);
+  }
+}
+
+function reportRejections(rejections: QuoteRejection[]): void {
+  for (const r of rejections) {
+    console.error(`rejected: ${r.reason}: ${r.message}`);
+  }
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+type Command = (options: Options, market: MarketAccount, pricing: PricingOptions) => Row[] | null;
+
+function runQuote(options: Options, market: MarketAccount, pricing: PricingOptions): Row[] | null {
+  const spot = requireNumber(options.spot as string | undefined, 'spot');
+  const barrier = requireNumber(options.barrier as string | undefined, 'barrier');
+  const [side] = parseSides(options.side as string | undefined, false);
+  const stake =
+    options.stake !== undefined ? requireNumber(options.stake as string, 'stake') : undefined;
+
+  const rejections = validateQuote(market, { spot, barrier, side, stake });
+  if (rejections.length > 0) {
+    reportRejections(rejections);
+    return null;
+  }
+
+  const quote = calcQuote(spot, barrier, side, market, pricing);
+  return [
+    {
+      side: sideName(side),
+      spot,
+      barrier,
+      fairProbability: quote.fairProbability,
+      premium: quote.premium,
+      netOdds: quote.netOdds,
+      houseEdgeBps: quote.houseEdgeBps,
+      ...(stake !== undefined ? { stake, cost: stake * quote.premium } : {}),
+    },
+  ];
+}
+
+function runSolveOdds(options: Options, market: MarketAccount, pricing: PricingOptions): Row[] | null {
+  const spot = requireNumber(options.spot as string | undefined, 'spot');
+  const odds = requireOdds(options.odds as string | undefined);
+  const [side] = parseSides(options.side as string | undefined, false);
+
+  const rejections = validateQuote(market, { spot, side });
+  if (rejections.length > 0) {
+    reportRejections(rejections);
+    return null;
+  }
+
+  const target = options.net ? removeFee(1 / odds, market.feeBps) : 1 / odds;
+  const result = solveForBarrier(target, spot, side, market, pricing);
+  return [
+    {
+      side: sideName(side),
+      spot,
+      odds,
+      targetPremium: target,
+      status: result.status,
+      barrier: result.barrier,
+      movePct: (result.barrier / spot - 1) * 100,
+      premium: result.premium,
+      residual: result.residual,
+      iterations: result.iterations,
+      minOdds: result.range.minOdds,
+      maxOdds: result.range.maxOdds,
+    },
+  ];
+}
+
+function runLadder(options: Options, market: MarketAccount, pricing: PricingOptions): Row[] | null {
+  const spot = requireNumber(options.spot as string | undefined, 'spot');
+  const sides = parseSides(options.side as string | undefined, true);
+  const oddsText = options.odds as string | undefined;
+  if (oddsText === undefined) throw new UsageError('missing --odds');
+  const oddsList = oddsText.split(',').map((v) => requireOdds(v.trim()));
+
+  const rejections = validateQuote(market, { spot });
+  if (rejections.length > 0) {
+    reportRejections(rejections);
+    return null;
+  }
+
+  const ladder = buildOddsLadder(spot, oddsList, sides, market, {
+    ...pricing,
+    netOfFee: Boolean(options.net),
+  });
+  return ladder.map((row) => ({
+    odds: row.odds,
+    side: sideName(row.side),
+    barrier: row.barrier,
+    movePct: row.movePct,
+    premium: row.premium,
+    feeLoadedPremium: row.feeLoadedPremium,
+    status: row.status,
+  }));
+}
+
+const COMMANDS: Record<string, Command> = {
+  quote: runQuote,
+  'solve-odds': runSolveOdds,
+  ladder: runLadder,
+};
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      spot: { type: 'string' },
+      barrier: { type: 'string' },
+      side: { type: 'string' },
+      stake: { type: 'string' },
+      odds: { type: 'string' },
+      market: { type: 'string' },
+      format: { type: 'string', default: 'table' },
+      cdf: { type: 'string', default: 'hastings' },
+      model: { type: 'string', default: 'spread' },
+      rate: { type: 'string', default: '0' },
+      carry: { type: 'string', default: '0' },
+      net: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const command = COMMANDS[positionals[0] ?? ''];
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  if (values.format !== 'table' && values.format !== 'json' && values.format !== 'csv') {
+    throw new UsageError('--format must be table, json or csv');
+  }
+
+  const rows = command(values, loadMarket(values.market), parsePricingOptions(values));
+  if (rows === null) return 1;
+
+  output(rows, values.format);
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  console.error(`premium-sim: ${err instanceof Error ? err.message : String(err)}`);
+  if (err instanceof UsageError) console.error(`\n${USAGE}`);
+  process.exitCode = err instanceof UsageError ? 2 : 1;
+}
@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import {
+  importMarketAccount,
+  encodeMarketAccount,
+  toBase64,
+  toHex,
+  AccountDataEncoding,
+  MARKET_ACCOUNT_SIZE,
+} from './account-codec';
+import { MarketAccount } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+  tableCellStyle,
+} from './styles';
+
+interface AccountImportPanelProps {
+  marketConfig: MarketAccount;
+  onApply: (market: MarketAccount) => void;
+}
+
+// 预览表中显示的字段值（feedId 以 hex 显示，空值显示为未设置）
+function formatField(value: unknown): string {
+  if (Array.isArray(value)) return value.length ? toHex(Uint8Array.from(value)) : '(未设置)';
+  if (value === '') return '(未设置)';
+  return String(value);
+}
+
+// 链上 MarketAccount 数据导入：粘贴 base64 / hex 解码为市场配置，或导出当前配置的账户字节
+export const AccountImportPanel: React.FC<AccountImportPanelProps> = ({ marketConfig, onApply }) => {
+  const [text, setText] = useState<string>('');
+  const [encoding, setEncoding] = useState<AccountDataEncoding>('auto');
+  const [exportEncoding, setExportEncoding] = useState<'base64' | 'hex'>('base64');
+  const [copied, setCopied] = useState<boolean>(false);
+
+  // 解码粘贴内容（失败时显示错误信息）
+  const decoded = useMemo(() => {
+    if (!text.trim()) return null;
+    try {
+      return { market: importMarketAccount(text, encoding), error: null };
+    } catch (err) {
+      return { market: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [text, encoding]);
+
+  // 当前配置编码为账户字节（字段超出链上类型范围时无法编码）
+  const exported = useMemo(() => {
+    try {
+      const bytes = encodeMarketAccount(marketConfig);
+      return { data: exportEncoding === 'hex' ? toHex(bytes) : toBase64(bytes), error: null };
+    } catch (err) {
+      return { data: '', error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [marketConfig, exportEncoding]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(exported.data).then(
+      () => setCopied(true),
+      () => setCopied(false)
+    );
+  };
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>⛓️ 链上账户数据</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px' }}>
+        <div>
+          <label style={labelStyle}>粘贴 MarketAccount 账户数据</label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'base64 / hex，或 getAccountInfo 返回的 ["<data>", "base64"]'}
+            rows={6}
+            style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical', wordBreak: 'break-all' }}
+          />
+          <div style={{ display: 'flex', gap: '10px', marginTop: '10px', alignItems: 'center' }}>
+            <select
+              value={encoding}
+              onChange={(e) => setEncoding(e.target.value as AccountDataEncoding)}
+              style={{ ...inputStyle, width: '160px' }}
+            >
+              <option value="auto">自动识别</option>
+              <option value="base64">base64</option>
+              <option value="hex">hex</option>
+            </select>
+            <button
+              style={actionButtonStyle}
+              onClick={() => decoded?.market && onApply(decoded.market)}
+              disabled={!decoded?.market}
+            >
+              应用到市场配置
+            </button>
+          </div>
+          <small style={{ display: 'block', color: '#666', marginTop: '10px' }}>
+            校验 Anchor discriminator，按小端布局解码（{MARKET_ACCOUNT_SIZE} 字节）；应用时保留当前波动率微笑
+          </small>
+          {decoded?.error && (
+            <div style={{ marginTop: '10px', fontSize: '13px', color: '#c92a2a' }}>⚠️ {decoded.error}</div>
+          )}
+        </div>
+
+        <div>
+          <label style={labelStyle}>导出当前配置</label>
+          <textarea
+            value={exported.error ?? exported.data}
+            readOnly
+            rows={6}
+            style={{
+              ...inputStyle,
+              fontFamily: 'monospace',
+              resize: 'vertical',
+              wordBreak: 'break-all',
+              color: exported.error ? '#c92a2a' : undefined,
+            }}
+          />
+          <div style={{ display: 'flex', gap: '10px', marginTop: '10px', alignItems: 'center' }}>
+            <select
+              value={exportEncoding}
+              onChange={(e) => {
+                setExportEncoding(e.target.value as 'base64' | 'hex');
+                setCopied(false);
+              }}
+              style={{ ...inputStyle, width: '160px' }}
+            >
+              <option value="base64">base64</option>
+              <option value="hex">hex</option>
+            </select>
+            <button style={actionButtonStyle} onClick={handleCopy} disabled={!!exported.error}>
+              {copied ? '✅ 已复制' : '📋 复制'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {decoded?.market && (
+        <div style={{ overflowX: 'auto', marginTop: '15px' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                {['字段', '解码值', '当前值'].map((h) => (
+                  <th key={h} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(decoded.market) as (keyof MarketAccount)[]).map((field) => {
+                const next = formatField(decoded.market[field]);
+                const current = formatField(marketConfig[field]);
+                return (
+                  <tr key={field} style={{ backgroundColor: next !== current ? '#fff9db' : undefined }}>
+                    <td style={{ ...tableCellStyle, textAlign: 'left' }}>{field}</td>
+                    <td style={{ ...tableCellStyle, fontFamily: 'monospace', wordBreak: 'break-all' }}>{next}</td>
+                    <td style={{ ...tableCellStyle, fontFamily: 'monospace', wordBreak: 'break-all' }}>{current}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
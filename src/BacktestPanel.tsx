@@ -0,0 +1,236 @@
+import React, { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import {
+  runBacktest,
+  DEFAULT_BACKTEST_CONFIG,
+  BacktestConfig,
+  BacktestStrategy,
+} from './backtest';
+import { isWholeSettleDelay } from './market-config';
+import { parsePriceTicks } from './price-ticks';
+import { PricingOptions } from './pricing';
+import { MarketAccount, PayoutMethod, Side } from './types';
+import { StatCard } from './StatCard';
+import { TickSeriesInput } from './TickSeriesInput';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  tableCellStyle,
+} from './styles';
+
+interface BacktestPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+}
+
+// 表格最多显示的周期行数
+const MAX_TABLE_ROWS = 200;
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({ marketConfig, pricingOptions }) => {
+  const [tickText, setTickText] = useState<string>('');
+  const [config, setConfig] = useState<BacktestConfig>(DEFAULT_BACKTEST_CONFIG);
+
+  const updateConfig = <K extends keyof BacktestConfig>(key: K, value: BacktestConfig[K]) => {
+    setConfig((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const toggleSide = (side: Side, enabled: boolean) => {
+    setConfig((prev) => ({
+      ...prev,
+      sides: enabled
+        ? [...prev.sides.filter((s) => s !== side), side].sort()
+        : prev.sides.filter((s) => s !== side),
+    }));
+  };
+
+  // 解析数据并运行回测
+  const result = useMemo(() => {
+    const ticks = parsePriceTicks(tickText);
+    if (ticks.length < 2 || !isWholeSettleDelay(marketConfig)) return null;
+    return runBacktest(ticks, marketConfig, config, pricingOptions);
+  }, [tickText, marketConfig, pricingOptions, config]);
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>📜 历史回测</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px' }}>
+        <TickSeriesInput
+          value={tickText}
+          onChange={setTickText}
+          sampleSigma={Math.sqrt(marketConfig.sigma2)}
+          sampleCount={3000}
+        />
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px', alignContent: 'start' }}>
+          <div>
+            <label style={labelStyle}>策略</label>
+            <select
+              value={config.strategy}
+              onChange={(e) => updateConfig('strategy', e.target.value as BacktestStrategy)}
+              style={inputStyle}
+            >
+              <option value="fixedOdds">固定赔率 (solveForBarrier)</option>
+              <option value="barrierOffset">固定障碍价偏移</option>
+            </select>
+          </div>
+
+          {config.strategy === 'fixedOdds' ? (
+            <div>
+              <label style={labelStyle}>赔率 (Odds)</label>
+              <input
+                type="number"
+                step="0.1"
+                min="1.01"
+                value={config.odds}
+                onChange={(e) => updateConfig('odds', Number(e.target.value))}
+                style={inputStyle}
+              />
+            </div>
+          ) : (
+            <div>
+              <label style={labelStyle}>障碍价偏移 (%)</label>
+              <input
+                type="number"
+                step="0.05"
+                value={config.offsetPct}
+                onChange={(e) => updateConfig('offsetPct', Number(e.target.value))}
+                style={inputStyle}
+              />
+            </div>
+          )}
+
+          <div>
+            <label style={labelStyle}>下注额</label>
+            <input
+              type="number"
+              value={config.stake}
+              onChange={(e) => updateConfig('stake', Number(e.target.value))}
+              style={inputStyle}
+            />
+          </div>
+
+          <div>
+            <label style={labelStyle}>赔付方式</label>
+            <select
+              value={config.payoutMethod}
+              onChange={(e) => updateConfig('payoutMethod', Number(e.target.value) as PayoutMethod)}
+              style={inputStyle}
+            >
+              <option value={PayoutMethod.CashOrNothing}>Cash-or-Nothing</option>
+              <option value={PayoutMethod.OddsBased}>Odds-Based</option>
+            </select>
+          </div>
+
+          <div style={{ gridColumn: 'span 2', display: 'flex', gap: '20px', fontSize: '14px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={config.sides.includes(Side.Long)}
+                onChange={(e) => toggleSide(Side.Long, e.target.checked)}
+              />
+              Long (看涨)
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={config.sides.includes(Side.Short)}
+                onChange={(e) => toggleSide(Side.Short, e.target.checked)}
+              />
+              Short (看跌)
+            </label>
+          </div>
+
+          <small style={{ gridColumn: 'span 2', color: '#666' }}>
+            周期时长 {marketConfig.epochDurationSecs} 秒，结算延迟 {marketConfig.settleDelayEpochs} 个周期
+          </small>
+        </div>
+      </div>
+
+      {!isWholeSettleDelay(marketConfig) && (
+        <div style={{ marginTop: '20px', padding: '12px', backgroundColor: '#fff4e6', color: '#d9480f', borderRadius: '6px' }}>
+          结算延迟 {marketConfig.settleDelayEpochs} 不是 ≥ 1 的整数个周期，无法按周期边界回测
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '15px', marginTop: '20px' }}>
+            <StatCard label="回测周期数" value={String(result.summary.epochs)} />
+            <StatCard label="仓位数" value={String(result.summary.positions)} />
+            <StatCard label="实际胜率" value={`${(result.summary.winRate * 100).toFixed(2)}%`} />
+            <StatCard label="平均报价权利金" value={result.summary.averagePremium.toFixed(4)} />
+            <StatCard label="胜率 − 权利金" value={`${(result.summary.calibrationGap * 100).toFixed(2)}%`} />
+            <StatCard label="资金池 P&L" value={result.summary.poolPnl.toFixed(2)} />
+            <StatCard label="交易者 P&L" value={result.summary.traderPnl.toFixed(2)} />
+            <StatCard label="总赔付 / 总收入" value={`${result.summary.totalPayout.toFixed(0)} / ${result.summary.totalCost.toFixed(0)}`} />
+          </div>
+
+          <h3 style={{ fontSize: '15px', color: '#555', margin: '20px 0 10px' }}>累计 P&L</h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={result.epochs} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis
+                dataKey="openTs"
+                tickFormatter={(value) => new Date(Number(value) * 1000).toLocaleTimeString()}
+              />
+              <YAxis tickFormatter={(value) => Number(value).toFixed(0)} />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(2)}
+                labelFormatter={(label) => new Date(Number(label) * 1000).toLocaleString()}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="#333" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="cumulativePoolPnl" stroke="#4dabf7" strokeWidth={2} name="资金池" dot={false} />
+              <Line type="monotone" dataKey="cumulativeTraderPnl" stroke="#f59f00" strokeWidth={2} name="交易者" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+
+          <h3 style={{ fontSize: '15px', color: '#555', margin: '20px 0 10px' }}>
+            周期明细{result.epochs.length > MAX_TABLE_ROWS ? `（前 ${MAX_TABLE_ROWS} 行）` : ''}
+          </h3>
+          <div style={{ maxHeight: '320px', overflowY: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  {['开仓时间', '开仓价', '结算价', '仓位', '资金池 P&L', '累计资金池', '累计交易者'].map((h) => (
+                    <th key={h} style={{ ...tableCellStyle, position: 'sticky', top: 0, backgroundColor: '#f8f9fa' }}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.epochs.slice(0, MAX_TABLE_ROWS).map((e) => (
+                  <tr key={e.epoch}>
+                    <td style={tableCellStyle}>{new Date(e.openTs * 1000).toLocaleString()}</td>
+                    <td style={tableCellStyle}>{e.spot.toFixed(4)}</td>
+                    <td style={tableCellStyle}>{e.settlePrice.toFixed(4)}</td>
+                    <td style={tableCellStyle}>
+                      {e.positions
+                        .map((p) => `${p.side === Side.Long ? 'L' : 'S'}@${p.barrier.toFixed(2)} ${p.won ? '✓' : '✗'}`)
+                        .join('  ')}
+                    </td>
+                    <td style={tableCellStyle}>{e.poolPnl.toFixed(2)}</td>
+                    <td style={tableCellStyle}>{e.cumulativePoolPnl.toFixed(2)}</td>
+                    <td style={tableCellStyle}>{e.cumulativeTraderPnl.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
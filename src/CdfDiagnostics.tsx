@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { normalCDF, normalCDFErfc, inverseNormalCDF } from './black-scholes';
+import { calcPremium, PricingOptions } from './pricing';
+import { MarketAccount, Side } from './types';
+import { StatCard } from './StatCard';
+import { panelStyle, panelTitleStyle, tableCellStyle } from './styles';
+
+interface CdfDiagnosticsProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  barrierPrice: number;
+  rangePercent: number;
+  dataPoints: number;
+}
+
+// 尾部对照表使用的 x 值
+const TAIL_POINTS = [-1, -2, -3, -4, -5, -6, -8];
+
+// erfc 与 Hastings 两种 CDF 的权利金差异（当前定价模型，与主图表使用相同的现货范围）
+export const CdfDiagnostics: React.FC<CdfDiagnosticsProps> = ({
+  marketConfig,
+  pricingOptions,
+  barrierPrice,
+  rangePercent,
+  dataPoints,
+}) => {
+  const data = useMemo(() => {
+    if (!(barrierPrice > 0) || dataPoints < 2) return [];
+
+    const minSpot = barrierPrice * (1 - rangePercent / 100);
+    const maxSpot = barrierPrice * (1 + rangePercent / 100);
+    const step = (maxSpot - minSpot) / (dataPoints - 1);
+
+    return Array.from({ length: dataPoints }, (_, i) => {
+      const spot = minSpot + step * i;
+      const hastings: PricingOptions = { ...pricingOptions, cdfMethod: 'hastings' };
+      const erfc: PricingOptions = { ...pricingOptions, cdfMethod: 'erfc' };
+      const longHastings = calcPremium(spot, barrierPrice, Side.Long, marketConfig, hastings);
+      const longErfc = calcPremium(spot, barrierPrice, Side.Long, marketConfig, erfc);
+      const shortHastings = calcPremium(spot, barrierPrice, Side.Short, marketConfig, hastings);
+      const shortErfc = calcPremium(spot, barrierPrice, Side.Short, marketConfig, erfc);
+
+      return {
+        spotPrice: spot,
+        longDiff: longErfc - longHastings,
+        shortDiff: shortErfc - shortHastings,
+        // 相对差异 (bps)，以 erfc 结果为基准；基准为 0 时不绘制
+        longDiffBps: longErfc > 0 ? ((longErfc - longHastings) / longErfc) * 1e4 : null,
+        shortDiffBps: shortErfc > 0 ? ((shortErfc - shortHastings) / shortErfc) * 1e4 : null,
+      };
+    });
+  }, [marketConfig, pricingOptions, barrierPrice, rangePercent, dataPoints]);
+
+  const maxAbsDiff = data.reduce(
+    (max, d) => Math.max(max, Math.abs(d.longDiff), Math.abs(d.shortDiff)),
+    0
+  );
+  const maxAbsBps = data.reduce(
+    (max, d) => Math.max(max, Math.abs(d.longDiffBps ?? 0), Math.abs(d.shortDiffBps ?? 0)),
+    0
+  );
+
+  // 尾部 Φ(x) 对照与逆函数回代
+  const tailRows = useMemo(
+    () =>
+      TAIL_POINTS.map((x) => {
+        const hastings = normalCDF(x);
+        const erfc = normalCDFErfc(x);
+        return {
+          x,
+          hastings,
+          erfc,
+          relError: (hastings - erfc) / erfc,
+          roundTrip: inverseNormalCDF(erfc),
+        };
+      }),
+    []
+  );
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🔬 CDF 精度诊断 (erfc − Hastings)</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '15px', marginBottom: '20px' }}>
+        <StatCard label="最大绝对差异" value={maxAbsDiff.toExponential(3)} />
+        <StatCard label="最大相对差异 (bps)" value={maxAbsBps.toFixed(2)} />
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px' }}>
+        <div>
+          <h3 style={{ fontSize: '15px', color: '#555', margin: '0 0 10px' }}>绝对差异</h3>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={data} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="spotPrice" tickFormatter={(value) => Number(value).toFixed(2)} />
+              <YAxis tickFormatter={(value) => Number(value).toExponential(1)} width={70} />
+              <Tooltip
+                formatter={(value: number) => value.toExponential(4)}
+                labelFormatter={(label) => `现货价格: $${Number(label).toFixed(2)}`}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="#333" strokeDasharray="3 3" />
+              <ReferenceLine x={barrierPrice} stroke="#e74c3c" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="longDiff" stroke="#2ecc71" strokeWidth={2} name="Long" dot={false} />
+              <Line type="monotone" dataKey="shortDiff" stroke="#e74c3c" strokeWidth={2} name="Short" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h3 style={{ fontSize: '15px', color: '#555', margin: '0 0 10px' }}>相对差异 (bps)</h3>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={data} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="spotPrice" tickFormatter={(value) => Number(value).toFixed(2)} />
+              <YAxis tickFormatter={(value) => Number(value).toFixed(1)} />
+              <Tooltip
+                formatter={(value: number) => `${value.toFixed(3)} bps`}
+                labelFormatter={(label) => `现货价格: $${Number(label).toFixed(2)}`}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="#333" strokeDasharray="3 3" />
+              <ReferenceLine x={barrierPrice} stroke="#e74c3c" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="longDiffBps" stroke="#2ecc71" strokeWidth={2} name="Long" dot={false} connectNulls={false} />
+              <Line type="monotone" dataKey="shortDiffBps" stroke="#e74c3c" strokeWidth={2} name="Short" dot={false} connectNulls={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* 尾部对照表 */}
+      <h3 style={{ fontSize: '15px', color: '#555', margin: '20px 0 10px' }}>尾部 Φ(x) 对照</h3>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            {['x', 'Hastings Φ(x)', 'erfc Φ(x)', 'Hastings 相对误差', 'Φ⁻¹(erfc Φ(x))'].map((h) => (
+              <th key={h} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {tailRows.map((row) => (
+            <tr key={row.x}>
+              <td style={tableCellStyle}>{row.x}</td>
+              <td style={tableCellStyle}>{row.hastings.toExponential(6)}</td>
+              <td style={tableCellStyle}>{row.erfc.toExponential(6)}</td>
+              <td style={tableCellStyle}>{row.relError.toExponential(2)}</td>
+              <td style={tableCellStyle}>{row.roundTrip.toFixed(12)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
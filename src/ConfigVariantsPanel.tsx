@@ -0,0 +1,260 @@
+import React, { useMemo, useRef } from 'react';
+import {
+  compareVariants,
+  ConfigVariant,
+  VariantField,
+  VariantSideResult,
+  VARIANT_FIELDS,
+  MAX_CONFIG_VARIANTS,
+  CURRENT_CONFIG_ID,
+} from './config-variants';
+import { PricingOptions } from './pricing';
+import { MarketAccount } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+  tableCellStyle,
+} from './styles';
+
+interface ConfigVariantsPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+  barrierPrice: number;
+  odds: number;
+  netOfFee: boolean;
+  variants: ConfigVariant[];
+  onChange: (variants: ConfigVariant[]) => void;
+  baselineId: string;
+  onBaselineChange: (id: string) => void;
+}
+
+// 变体曲线颜色（按变体顺序，图表与表格共用）
+export const VARIANT_COLORS = ['#7950f2', '#f08c00', '#1098ad', '#d6336c'];
+
+// 可覆盖字段的显示名称
+const FIELD_LABELS: Record<VariantField, string> = {
+  callLambda: 'Call Lambda',
+  putLambda: 'Put Lambda',
+  vegaBuffer: 'Vega Buffer',
+  sigma2: '波动率² (Sigma²)',
+  feeBps: '手续费 (bps)',
+  epochDurationSecs: '周期时长 (秒)',
+  settleDelayEpochs: '结算延迟周期',
+};
+
+// 差值格式化（带符号）
+function formatDiff(value: number | null, digits: number): string {
+  if (value === null) return '—';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+// 多组市场配置对比：变体曲线叠加到主图表，表格显示相对基准的差异
+export const ConfigVariantsPanel: React.FC<ConfigVariantsPanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+  barrierPrice,
+  odds,
+  netOfFee,
+  variants,
+  onChange,
+  baselineId,
+  onBaselineChange,
+}) => {
+  const nextId = useRef(1);
+
+  const rows = useMemo(
+    () =>
+      compareVariants(spotPrice, barrierPrice, odds, marketConfig, variants, baselineId, {
+        ...pricingOptions,
+        netOfFee,
+      }),
+    [spotPrice, barrierPrice, odds, marketConfig, variants, baselineId, pricingOptions, netOfFee]
+  );
+
+  const updateVariant = (id: string, update: (v: ConfigVariant) => ConfigVariant) => {
+    onChange(variants.map((v) => (v.id === id ? update(v) : v)));
+  };
+
+  const addVariant = () => {
+    // id 在页面会话内唯一，避免删除后复用
+    let id = `v${nextId.current++}`;
+    while (variants.some((v) => v.id === id)) id = `v${nextId.current++}`;
+    onChange([...variants, { id, name: `变体 ${id.slice(1)}`, overrides: { callLambda: marketConfig.callLambda } }]);
+  };
+
+  const removeVariant = (id: string) => {
+    onChange(variants.filter((v) => v.id !== id));
+    if (baselineId === id) onBaselineChange(CURRENT_CONFIG_ID);
+  };
+
+  const setOverride = (id: string, field: VariantField, value: number) => {
+    updateVariant(id, (v) => ({ ...v, overrides: { ...v.overrides, [field]: value } }));
+  };
+
+  const removeOverride = (id: string, field: VariantField) => {
+    updateVariant(id, (v) => {
+      const overrides = { ...v.overrides };
+      delete overrides[field];
+      return { ...v, overrides };
+    });
+  };
+
+  const addOverride = (id: string, field: VariantField) => {
+    setOverride(id, field, marketConfig[field]);
+  };
+
+  const renderSide = (result: VariantSideResult | null) =>
+    result ? (
+      <>
+        <td style={tableCellStyle}>{result.premium.toFixed(6)}</td>
+        <td style={tableCellStyle}>{formatDiff(result.premiumDiff, 6)}</td>
+        <td style={tableCellStyle}>
+          ${result.barrier.toFixed(4)}
+          {result.status !== 'converged' && <span style={{ color: '#c92a2a' }}> ⚠️</span>}
+        </td>
+        <td style={tableCellStyle}>{formatDiff(result.barrierDiff, 4)}</td>
+      </>
+    ) : (
+      <td colSpan={4} style={{ ...tableCellStyle, color: '#c92a2a', textAlign: 'center' }}>—</td>
+    );
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🧪 多配置对比</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: `repeat(${Math.max(variants.length, 1)}, 1fr)`, gap: '15px' }}>
+        {variants.map((variant, i) => {
+          const unused = VARIANT_FIELDS.filter((f) => !(f in variant.overrides));
+          return (
+            <div
+              key={variant.id}
+              style={{ border: `2px solid ${VARIANT_COLORS[i % VARIANT_COLORS.length]}`, borderRadius: '6px', padding: '12px' }}
+            >
+              <div style={{ display: 'flex', gap: '8px', marginBottom: '10px' }}>
+                <input
+                  type="text"
+                  value={variant.name}
+                  onChange={(e) => updateVariant(variant.id, (v) => ({ ...v, name: e.target.value }))}
+                  style={inputStyle}
+                />
+                <button
+                  style={{ ...actionButtonStyle, backgroundColor: '#fa5252', padding: '4px 10px' }}
+                  onClick={() => removeVariant(variant.id)}
+                >
+                  删除
+                </button>
+              </div>
+
+              {(Object.keys(variant.overrides) as VariantField[]).map((field) => (
+                <div key={field} style={{ marginBottom: '8px' }}>
+                  <small style={{ color: '#666' }}>
+                    {FIELD_LABELS[field]}（当前 {marketConfig[field]}）
+                  </small>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <input
+                      type="number"
+                      step="any"
+                      value={variant.overrides[field]}
+                      onChange={(e) => setOverride(variant.id, field, Number(e.target.value))}
+                      style={inputStyle}
+                    />
+                    <button
+                      style={{ ...actionButtonStyle, backgroundColor: '#adb5bd', padding: '4px 8px' }}
+                      onClick={() => removeOverride(variant.id, field)}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {unused.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => addOverride(variant.id, e.target.value as VariantField)}
+                  style={inputStyle}
+                >
+                  <option value="">➕ 覆盖字段…</option>
+                  {unused.map((f) => (
+                    <option key={f} value={f}>{FIELD_LABELS[f]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+        {variants.length === 0 && (
+          <small style={{ color: '#666' }}>添加变体后，其 Long / Short 曲线以虚线叠加到主图表</small>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '15px', alignItems: 'end', margin: '15px 0' }}>
+        <button
+          style={actionButtonStyle}
+          onClick={addVariant}
+          disabled={variants.length >= MAX_CONFIG_VARIANTS}
+        >
+          ➕ 添加变体 ({variants.length}/{MAX_CONFIG_VARIANTS})
+        </button>
+        <div style={{ width: '240px' }}>
+          <label style={labelStyle}>对比基准</label>
+          <select value={baselineId} onChange={(e) => onBaselineChange(e.target.value)} style={inputStyle}>
+            <option value={CURRENT_CONFIG_ID}>当前配置</option>
+            {variants.map((v) => (
+              <option key={v.id} value={v.id}>{v.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th rowSpan={2} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>配置</th>
+              <th colSpan={4} style={{ ...tableCellStyle, backgroundColor: '#e8f5e9', textAlign: 'center' }}>Long (看涨)</th>
+              <th colSpan={4} style={{ ...tableCellStyle, backgroundColor: '#ffebee', textAlign: 'center' }}>Short (看跌)</th>
+            </tr>
+            <tr>
+              {[0, 1].flatMap((s) =>
+                [`权利金 @ $${barrierPrice.toFixed(2)}`, 'Δ 权利金', `障碍价 @ ${odds}X`, 'Δ 障碍价'].map((h) => (
+                  <th key={`${s}-${h}`} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>{h}</th>
+                ))
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const index = variants.findIndex((v) => v.id === row.id);
+              return (
+                <tr key={row.id} style={{ fontWeight: row.id === baselineId ? 600 : 400 }}>
+                  <td style={{ ...tableCellStyle, textAlign: 'left' }}>
+                    <span style={{ color: index >= 0 ? VARIANT_COLORS[index % VARIANT_COLORS.length] : '#333' }}>
+                      {row.id === CURRENT_CONFIG_ID ? '当前配置' : row.name}
+                    </span>
+                    {row.id === baselineId && ' (基准)'}
+                    {row.rejections.length > 0 && (
+                      <div style={{ color: '#c92a2a', fontSize: '12px', fontWeight: 400 }}>
+                        {row.rejections.map((r) => r.message).join('；')}
+                      </div>
+                    )}
+                  </td>
+                  {renderSide(row.long)}
+                  {renderSide(row.short)}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <small style={{ display: 'block', marginTop: '10px', color: '#666' }}>
+        障碍价按当前赔率{netOfFee ? '（净赔率）' : ''}求解；⚠️ 表示该赔率在此配置下不可达
+      </small>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import {
+  compareFixedPremium,
+  isFixedFeeBps,
+  positionCostFixed,
+  positionPayoutFixed,
+  FIXED_DECIMALS,
+  FixedFloatComparison,
+  FixedPricingOptions,
+} from './fixed-point';
+import { PricingOptions, positionCost, positionPayout } from './pricing';
+import { MarketAccount, PayoutMethod, Side } from './types';
+import { StatCard } from './StatCard';
+import { inputStyle, labelStyle, panelStyle, panelTitleStyle, tableCellStyle } from './styles';
+
+interface FixedPointPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+  barrierPrice: number;
+  side: Side;
+  stake: number;
+  rangePercent: number;
+  dataPoints: number;
+}
+
+const PAYOUT_METHODS = [
+  { method: PayoutMethod.CashOrNothing, label: 'Cash-or-Nothing' },
+  { method: PayoutMethod.OddsBased, label: 'Odds-Based' },
+];
+
+// 整数定价所需的最少最小单位数：更少时截断误差可达 0.1% 以上，为零时直接除零
+const MIN_UNITS = 1000;
+
+// 链上整数定价 (定点数) 与浮点定价的对比；整数金额按与定价相同的小数位换算为最小单位
+export const FixedPointPanel: React.FC<FixedPointPanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+  barrierPrice,
+  side,
+  stake,
+  rangePercent,
+  dataPoints,
+}) => {
+  const [decimals, setDecimals] = useState<number>(9);
+
+  const options: FixedPricingOptions = useMemo(
+    () => ({ ...pricingOptions, decimals }),
+    [pricingOptions, decimals]
+  );
+  const scale = 10 ** decimals;
+
+  const notice = useMemo(
+    () => representabilityNotice(spotPrice, barrierPrice, marketConfig, options.model, decimals),
+    [spotPrice, barrierPrice, marketConfig, options.model, decimals]
+  );
+
+  const current = useMemo(
+    () => (notice ? null : compareFixedPremium(spotPrice, barrierPrice, side, marketConfig, options)),
+    [notice, spotPrice, barrierPrice, side, marketConfig, options]
+  );
+
+  // 两种赔付方式下的浮点金额与整数金额
+  const payoutRows = useMemo(() => {
+    if (!current) return [];
+    const stakeUnits = BigInt(Number.isFinite(stake) ? Math.max(Math.round(stake * scale), 0) : 0);
+    return PAYOUT_METHODS.map(({ method, label }) => {
+      const costUnits = positionCostFixed(stakeUnits, current.fixedRaw, method, marketConfig.feeBps, decimals);
+      const payoutUnits = positionPayoutFixed(stakeUnits, current.fixedRaw, method, marketConfig.feeBps, true, decimals);
+      return {
+        label,
+        floatCost: positionCost(stake, current.float, method, marketConfig.feeBps),
+        floatPayout: positionPayout(stake, current.float, method, marketConfig.feeBps, true),
+        costUnits,
+        payoutUnits,
+      };
+    });
+  }, [current, stake, scale, marketConfig.feeBps, decimals]);
+
+  const data = useMemo(() => {
+    if (notice || dataPoints < 2) return [];
+
+    const minSpot = barrierPrice * (1 - rangePercent / 100);
+    const maxSpot = barrierPrice * (1 + rangePercent / 100);
+    const step = (maxSpot - minSpot) / (dataPoints - 1);
+
+    return Array.from({ length: dataPoints }, (_, i) => {
+      const spot = minSpot + step * i;
+      if (!(spot * scale >= MIN_UNITS)) return { spotPrice: spot, longDiffBps: null, shortDiffBps: null };
+      return {
+        spotPrice: spot,
+        longDiffBps: chartBps(compareFixedPremium(spot, barrierPrice, Side.Long, marketConfig, options), scale),
+        shortDiffBps: chartBps(compareFixedPremium(spot, barrierPrice, Side.Short, marketConfig, options), scale),
+      };
+    });
+  }, [notice, marketConfig, options, scale, barrierPrice, rangePercent, dataPoints]);
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🧮 定点数定价对比 (链上整数 vs 浮点)</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '20px', marginBottom: '15px' }}>
+        <div>
+          <label style={labelStyle}>定点精度</label>
+          <select value={decimals} onChange={(e) => setDecimals(Number(e.target.value))} style={inputStyle}>
+            {FIXED_DECIMALS.map((d) => (
+              <option key={d} value={d}>
+                1e{d}
+              </option>
+            ))}
+          </select>
+        </div>
+        <small style={{ color: '#666', alignSelf: 'end' }}>
+          整数 ln / exp / sqrt 与 Hastings Φ，所有运算向零截断；浮点基准使用 Hastings CDF 且不含波动率微笑
+          {marketConfig.volSmile && (
+            <span style={{ color: '#c92a2a' }}>（已启用波动率微笑：对比中忽略）</span>
+          )}
+        </small>
+      </div>
+
+      {notice || !current ? (
+        <div style={{ padding: '12px', backgroundColor: '#fff4e6', color: '#d9480f', borderRadius: '6px' }}>{notice}</div>
+      ) : (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '15px', marginBottom: '20px' }}>
+            <StatCard label={`浮点权利金 (${side === Side.Long ? 'Long' : 'Short'})`} value={current.float.toFixed(decimals)} />
+            <StatCard label={`定点权利金 (原始整数 ${current.fixedRaw.toString()})`} value={current.fixed.toFixed(decimals)} />
+            <StatCard label="绝对差异 (定点 − 浮点)" value={current.absDiff.toExponential(3)} />
+            <StatCard
+              label="相对差异 (bps)"
+              value={current.bpsDiff === null ? '—' : current.bpsDiff.toFixed(4)}
+            />
+          </div>
+
+          {/* 整数成本与赔付 */}
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '20px' }}>
+            <thead>
+              <tr>
+                {['赔付方式', '浮点成本', '整数成本 (最小单位)', '浮点赔付', '整数赔付 (最小单位)'].map((h) => (
+                  <th key={h} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {payoutRows.map((row) => (
+                <tr key={row.label}>
+                  <td style={tableCellStyle}>{row.label}</td>
+                  <td style={tableCellStyle}>{row.floatCost.toFixed(decimals)}</td>
+                  <td style={tableCellStyle}>{row.costUnits.toString()}</td>
+                  <td style={tableCellStyle}>{row.floatPayout.toFixed(decimals)}</td>
+                  <td style={tableCellStyle}>{row.payoutUnits.toString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 style={{ fontSize: '15px', color: '#555', margin: '0 0 10px' }}>相对差异 (bps) vs 现货价格（尾部不足 100 个最小单位的点不绘制）</h3>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={data} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="spotPrice" tickFormatter={(value) => Number(value).toFixed(2)} />
+              <YAxis tickFormatter={(value) => Number(value).toFixed(2)} />
+              <Tooltip
+                formatter={(value: number) => `${value.toFixed(4)} bps`}
+                labelFormatter={(label) => `现货价格: $${Number(label).toFixed(2)}`}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="#333" strokeDasharray="3 3" />
+              <ReferenceLine x={barrierPrice} stroke="#e74c3c" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="longDiffBps" stroke="#2ecc71" strokeWidth={2} name="Long" dot={false} connectNulls={false} />
+              <Line type="monotone" dataKey="shortDiffBps" stroke="#e74c3c" strokeWidth={2} name="Short" dot={false} connectNulls={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+};
+
+// 手续费不是 u16 整数，或现货、障碍价、λ 行权价与障碍价的间距在当前精度下不足 MIN_UNITS 个最小单位时返回提示
+function representabilityNotice(
+  spot: number,
+  barrier: number,
+  market: MarketAccount,
+  model: FixedPricingOptions['model'],
+  decimals: number
+): string | null {
+  if (!isFixedFeeBps(market.feeBps)) {
+    return `手续费 ${market.feeBps} bps 不是链上 u16 整数 (0 ~ 65535)，定点数定价无法表示`;
+  }
+
+  const scale = 10 ** decimals;
+  const quantities: [string, number][] = [
+    ['现货价格', spot],
+    ['障碍价', barrier],
+  ];
+  if (model !== 'closedForm') {
+    quantities.push(['障碍价 − 障碍价·λc', barrier * (1 - market.callLambda)]);
+    quantities.push(['障碍价·λp − 障碍价', barrier * (market.putLambda - 1)]);
+  }
+
+  const small = quantities.filter(([, value]) => !(value * scale >= MIN_UNITS)).map(([label]) => label);
+  if (small.length === 0) return null;
+  return `${small.join('、')} 在 1e${decimals} 精度下不足 ${MIN_UNITS} 个最小单位，定点数定价无法表示，请提高精度或调整价格`;
+}
+
+// 浮点权利金不足 100 个最小单位时相对差异只反映截断噪声，不绘制
+function chartBps(comparison: FixedFloatComparison, scale: number): number | null {
+  return comparison.float * scale >= 100 ? comparison.bpsDiff : null;
+}
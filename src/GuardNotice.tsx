@@ -0,0 +1,36 @@
+import React from 'react';
+import { QuoteRejection, QuoteRejectionReason } from './types';
+
+// 拒绝原因显示名称
+const REJECTION_LABELS: Record<QuoteRejectionReason, string> = {
+  [QuoteRejectionReason.MarketPaused]: '市场已暂停',
+  [QuoteRejectionReason.StalePrice]: '价格已过期',
+  [QuoteRejectionReason.StakeBelowMin]: '下注额低于最小值',
+  [QuoteRejectionReason.StakeAboveMax]: '下注额高于最大值',
+  [QuoteRejectionReason.InvalidCallLambda]: 'Call Lambda 无效',
+  [QuoteRejectionReason.InvalidPutLambda]: 'Put Lambda 无效',
+  [QuoteRejectionReason.NonPositiveSpot]: '现货价格必须为正',
+  [QuoteRejectionReason.NonPositiveBarrier]: '障碍价格必须为正',
+  [QuoteRejectionReason.InvertedRange]: '区间下沿必须低于上沿',
+};
+
+// 报价被拒绝时的提示
+export const GuardNotice: React.FC<{ rejections: QuoteRejection[] }> = ({ rejections }) => (
+  <div style={{
+    backgroundColor: '#fff5f5',
+    border: '1px solid #ffa8a8',
+    padding: '20px',
+    borderRadius: '8px',
+    marginBottom: '20px',
+    boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+  }}>
+    <h2 style={{ marginTop: 0, fontSize: '18px', color: '#c92a2a' }}>⛔ 无法报价</h2>
+    <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '14px', color: '#862e2e' }}>
+      {rejections.map((r) => (
+        <li key={r.reason} style={{ margin: '5px 0' }}>
+          <strong>{REJECTION_LABELS[r.reason]}</strong>: {r.message}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
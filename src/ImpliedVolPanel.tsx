@@ -0,0 +1,226 @@
+import React, { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { SECONDS_PER_YEAR } from './black-scholes';
+import { ImpliedVolStatus } from './barrier-solver';
+import { parseVolObservations, solveImpliedSmile, impliedSmileTable } from './implied-vol';
+import { calcPremium, timeRemainingSecs, PricingOptions } from './pricing';
+import { smileVolatility } from './vol-smile';
+import { MarketAccount, Side, SmileTable } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+  tableCellStyle,
+} from './styles';
+
+interface ImpliedVolPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+  onApplySigma2: (sigma2: number) => void;
+  onApplySmile: (smile: SmileTable) => void;
+}
+
+// 求解状态显示
+const STATUS_LABELS: Record<ImpliedVolStatus, string> = {
+  converged: '✅ 收敛',
+  premiumTooLow: '⚠️ 权利金过低',
+  premiumTooHigh: '⚠️ 权利金过高',
+};
+
+// 示例报价：以当前 σ 为中心、带偏斜的"对手"微笑，在 ±2.5 个标准差内取障碍价
+function generateSampleObservations(
+  market: MarketAccount,
+  spot: number,
+  pricing: PricingOptions
+): string {
+  const sigma = Math.sqrt(Math.max(market.sigma2, 0));
+  const stdDev = sigma * Math.sqrt(timeRemainingSecs(market, pricing.entryOffsetSecs) / SECONDS_PER_YEAR);
+  const lines = ['barrier,premium,side'];
+
+  for (const z of [-2.5, -2, -1.5, -1, 1, 1.5, 2, 2.5]) {
+    const barrier = spot * Math.exp(z * stdDev);
+    const iv = sigma * (1 + 0.06 * z * z - 0.05 * z);
+    const side = z >= 0 ? Side.Long : Side.Short;
+    const premium = calcPremium(
+      spot,
+      barrier,
+      side,
+      { ...market, sigma2: iv * iv, volSmile: undefined },
+      pricing
+    );
+    lines.push(`${barrier.toFixed(4)},${premium.toFixed(6)},${side === Side.Long ? 'long' : 'short'}`);
+  }
+
+  return lines.join('\n');
+}
+
+// 隐含波动率：由多组 (障碍价, 权利金) 报价反推 σ，绘制隐含微笑
+export const ImpliedVolPanel: React.FC<ImpliedVolPanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+  onApplySigma2,
+  onApplySmile,
+}) => {
+  const [text, setText] = useState<string>('');
+  const [feeLoaded, setFeeLoaded] = useState<boolean>(false);
+
+  const points = useMemo(
+    () =>
+      solveImpliedSmile(parseVolObservations(text, spotPrice), spotPrice, marketConfig, {
+        ...pricingOptions,
+        feeLoaded,
+      }),
+    [text, spotPrice, marketConfig, pricingOptions, feeLoaded]
+  );
+
+  const smile = useMemo(() => impliedSmileTable(points), [points]);
+  const flatIv = Math.sqrt(Math.max(marketConfig.sigma2, 0));
+
+  // 图表：收敛点的隐含 IV，叠加当前平坦 σ 与当前微笑
+  const chartData = useMemo(
+    () =>
+      points
+        .filter((p) => p.result.status === 'converged')
+        .map((p) => ({
+          strike: p.barrier,
+          impliedIv: p.result.volatility * 100,
+          flatIv: flatIv * 100,
+          marketIv: marketConfig.volSmile
+            ? smileVolatility(marketConfig.volSmile, p.barrier, spotPrice) * 100
+            : undefined,
+        })),
+    [points, flatIv, marketConfig.volSmile, spotPrice]
+  );
+
+  const meanSigma2 = smile
+    ? smile.points.reduce((sum, p) => sum + p.iv * p.iv, 0) / smile.points.length
+    : null;
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🔍 隐含波动率</h2>
+
+      <label style={labelStyle}>观测报价（每行：障碍价, 权利金[, long|short]）</label>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'barrier,premium,side\n100.25,0.12,long\n99.75,0.11,short\n...'}
+        rows={8}
+        style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }}
+      />
+      <div style={{ display: 'flex', gap: '15px', marginTop: '10px', alignItems: 'center', flexWrap: 'wrap' }}>
+        <button
+          style={{ ...actionButtonStyle, backgroundColor: '#868e96' }}
+          onClick={() => setText(generateSampleObservations(marketConfig, spotPrice, pricingOptions))}
+        >
+          示例数据
+        </button>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px' }}>
+          <input type="checkbox" checked={feeLoaded} onChange={(e) => setFeeLoaded(e.target.checked)} />
+          报价含手续费（按 {marketConfig.feeBps} bps 扣除后求解）
+        </label>
+      </div>
+      <small style={{ display: 'block', color: '#666', marginTop: '8px' }}>
+        未指定方向时按虚值方向推断（障碍价 ≥ 现货为 Long）；沿用当前 lambda、Vega Buffer 与定价模型，忽略已设置的微笑
+      </small>
+
+      {points.length > 0 && (
+        <div style={{ overflowX: 'auto', marginTop: '15px' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                {['障碍价', 'K/S', '方向', '权利金', '隐含 σ', 'sigma²', '状态'].map((h) => (
+                  <th key={h} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {points.map((p, i) => {
+                const converged = p.result.status === 'converged';
+                return (
+                  <tr key={i}>
+                    <td style={tableCellStyle}>${p.barrier.toFixed(4)}</td>
+                    <td style={tableCellStyle}>{p.moneyness.toFixed(5)}</td>
+                    <td style={tableCellStyle}>{p.side === Side.Long ? 'Long' : 'Short'}</td>
+                    <td style={tableCellStyle}>{p.fairPremium.toFixed(6)}</td>
+                    <td style={tableCellStyle}>{converged ? `${(p.result.volatility * 100).toFixed(2)}%` : '—'}</td>
+                    <td style={tableCellStyle}>{converged ? p.result.sigma2.toFixed(6) : '—'}</td>
+                    <td
+                      style={{ ...tableCellStyle, color: converged ? '#2b8a3e' : '#c92a2a' }}
+                      title={`可达权利金 ${p.result.range.minPremium.toFixed(6)} ~ ${p.result.range.maxPremium.toFixed(6)}`}
+                    >
+                      {STATUS_LABELS[p.result.status]}
+                      {!converged && (
+                        <div style={{ fontSize: '12px' }}>
+                          可达 {p.result.range.minPremium.toFixed(6)} ~ {p.result.range.maxPremium.toFixed(6)}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {chartData.length > 0 && (
+        <div style={{ marginTop: '20px' }}>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis
+                dataKey="strike"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                label={{ value: '障碍价 (Barrier)', position: 'insideBottom', offset: -5 }}
+                tickFormatter={(value) => Number(value).toFixed(2)}
+              />
+              <YAxis
+                label={{ value: 'IV (%)', angle: -90, position: 'insideLeft' }}
+                tickFormatter={(value) => Number(value).toFixed(1)}
+                domain={['auto', 'auto']}
+              />
+              <Tooltip
+                formatter={(value: number) => `${value.toFixed(2)}%`}
+                labelFormatter={(label) => `障碍价: $${Number(label).toFixed(4)}`}
+              />
+              <Legend />
+              <ReferenceLine x={spotPrice} stroke="#4dabf7" strokeDasharray="3 3" label={{ value: '现货', position: 'top', fill: '#4dabf7' }} />
+              <Line type="monotone" dataKey="impliedIv" stroke="#e8590c" strokeWidth={2} name="隐含 IV" />
+              <Line type="monotone" dataKey="flatIv" stroke="#adb5bd" strokeWidth={1.5} strokeDasharray="6 3" name="当前 σ" dot={false} />
+              {marketConfig.volSmile && (
+                <Line type="monotone" dataKey="marketIv" stroke="#7950f2" strokeWidth={1.5} name="当前微笑 IV" dot={false} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {smile && meanSigma2 !== null && (
+        <div style={{ display: 'flex', gap: '10px', marginTop: '15px', flexWrap: 'wrap' }}>
+          <button style={actionButtonStyle} onClick={() => onApplySmile(smile)}>
+            应用为波动率微笑 ({smile.points.length} 点)
+          </button>
+          <button style={{ ...actionButtonStyle, backgroundColor: '#7950f2' }} onClick={() => onApplySigma2(meanSigma2)}>
+            应用平均方差 sigma² = {meanSigma2.toFixed(6)}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
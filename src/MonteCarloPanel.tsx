@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import {
+  runMonteCarlo,
+  DEFAULT_MONTE_CARLO_CONFIG,
+  MonteCarloConfig,
+  MonteCarloResult,
+} from './monte-carlo';
+import { isWholeSettleDelay } from './market-config';
+import { PricingOptions } from './pricing';
+import { HistogramBin } from './stats';
+import { StatCard } from './StatCard';
+import { MarketAccount, PayoutMethod } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+} from './styles';
+
+interface MonteCarloPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+}
+
+// 数值输入字段
+const NUMBER_FIELDS: { key: keyof MonteCarloConfig; label: string; step?: string }[] = [
+  { key: 'seed', label: '随机种子 (Seed)' },
+  { key: 'runs', label: '模拟次数' },
+  { key: 'epochs', label: '每次模拟周期数' },
+  { key: 'positionsPerEpoch', label: '每周期开仓数' },
+  { key: 'initialPoolBalance', label: '资金池初始余额' },
+  { key: 'stakeMin', label: '最小下注额' },
+  { key: 'stakeMax', label: '最大下注额' },
+  { key: 'longProbability', label: 'Long 概率', step: '0.05' },
+];
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+}) => {
+  const [config, setConfig] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO_CONFIG);
+  const [offsetsText, setOffsetsText] = useState<string>(
+    DEFAULT_MONTE_CARLO_CONFIG.barrierOffsetsPct.join(', ')
+  );
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const delayValid = isWholeSettleDelay(marketConfig);
+
+  const updateConfig = (key: keyof MonteCarloConfig, value: number) => {
+    setConfig((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // 运行模拟（同步执行，按钮触发）
+  const handleRun = () => {
+    const barrierOffsetsPct = offsetsText
+      .split(/[,\s]+/)
+      .map(Number)
+      .filter((value) => Number.isFinite(value) && value !== 0);
+
+    setResult(
+      runMonteCarlo(
+        { ...config, barrierOffsetsPct, initialSpot: spotPrice },
+        marketConfig,
+        pricingOptions
+      )
+    );
+  };
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🎰 蒙特卡洛结算模拟</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '15px' }}>
+        {NUMBER_FIELDS.map((field) => (
+          <div key={field.key}>
+            <label style={labelStyle}>{field.label}</label>
+            <input
+              type="number"
+              step={field.step}
+              value={config[field.key] as number}
+              onChange={(e) => updateConfig(field.key, Number(e.target.value))}
+              style={inputStyle}
+            />
+          </div>
+        ))}
+
+        <div style={{ gridColumn: 'span 2' }}>
+          <label style={labelStyle}>障碍价偏移 (%，逗号分隔)</label>
+          <input
+            type="text"
+            value={offsetsText}
+            onChange={(e) => setOffsetsText(e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+
+        <div>
+          <label style={labelStyle}>赔付方式</label>
+          <select
+            value={config.payoutMethod}
+            onChange={(e) => updateConfig('payoutMethod', Number(e.target.value))}
+            style={inputStyle}
+          >
+            <option value={PayoutMethod.CashOrNothing}>Cash-or-Nothing</option>
+            <option value={PayoutMethod.OddsBased}>Odds-Based</option>
+          </select>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'flex-end' }}>
+          <button
+            style={{ ...actionButtonStyle, width: '100%', padding: '10px' }}
+            onClick={handleRun}
+            disabled={!delayValid}
+          >
+            ▶ 运行模拟
+          </button>
+        </div>
+      </div>
+
+      <small style={{ display: 'block', marginTop: '10px', color: '#666' }}>
+        初始价格取当前现货 ${spotPrice.toFixed(2)}；下注额限制在 [{marketConfig.minStake}, {marketConfig.maxStake}]；
+        结算延迟 {marketConfig.settleDelayEpochs} 个周期
+      </small>
+
+      {!delayValid && (
+        <div style={{ marginTop: '20px', padding: '12px', backgroundColor: '#fff4e6', color: '#d9480f', borderRadius: '6px' }}>
+          结算延迟 {marketConfig.settleDelayEpochs} 不是 ≥ 1 的整数个周期，无法按周期边界模拟结算
+        </div>
+      )}
+
+      {result && delayValid && (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '15px', marginTop: '20px' }}>
+            <StatCard label="平均 P&L" value={result.meanPnl.toFixed(2)} />
+            <StatCard label="P&L 标准差" value={result.stdPnl.toFixed(2)} />
+            <StatCard label="P&L P5 / P50 / P95" value={`${result.pnlP5.toFixed(0)} / ${result.pnlP50.toFixed(0)} / ${result.pnlP95.toFixed(0)}`} />
+            <StatCard label="破产概率" value={`${(result.ruinProbability * 100).toFixed(2)}%`} />
+            <StatCard label="平均最大回撤" value={result.meanMaxDrawdown.toFixed(2)} />
+            <StatCard label="最差最大回撤" value={result.worstMaxDrawdown.toFixed(2)} />
+            <StatCard label="用户胜率" value={`${(result.userWinRate * 100).toFixed(2)}%`} />
+            <StatCard label="模拟次数" value={String(result.runs.length)} />
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px', marginTop: '20px' }}>
+            <HistogramChart title="资金池 P&L 分布" bins={result.pnlHistogram} color="#4dabf7" showZero />
+            <HistogramChart title="最大回撤分布" bins={result.drawdownHistogram} color="#e74c3c" />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// 直方图
+const HistogramChart: React.FC<{
+  title: string;
+  bins: HistogramBin[];
+  color: string;
+  showZero?: boolean;
+}> = ({ title, bins, color, showZero }) => (
+  <div>
+    <h3 style={{ fontSize: '15px', color: '#555', margin: '0 0 10px' }}>{title}</h3>
+    <ResponsiveContainer width="100%" height={260}>
+      <BarChart data={bins} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+        <XAxis dataKey="mid" tickFormatter={(value) => Number(value).toFixed(0)} />
+        <YAxis allowDecimals={false} />
+        <Tooltip
+          formatter={(value: number) => [value, '次数']}
+          labelFormatter={(_, payload) => {
+            const bin = payload?.[0]?.payload as HistogramBin | undefined;
+            return bin ? `[${bin.start.toFixed(2)}, ${bin.end.toFixed(2)})` : '';
+          }}
+        />
+        {showZero && <ReferenceLine x={closestMid(bins, 0)} stroke="#333" strokeDasharray="3 3" />}
+        <Bar dataKey="count" fill={color} />
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+// 找到最接近目标值的分箱中点（用于类目轴上的参考线）
+function closestMid(bins: HistogramBin[], target: number): number | undefined {
+  let best: number | undefined;
+  for (const bin of bins) {
+    if (best === undefined || Math.abs(bin.mid - target) < Math.abs(best - target)) {
+      best = bin.mid;
+    }
+  }
+  return best;
+}
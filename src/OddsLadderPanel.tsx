@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import {
+  buildOddsLadder,
+  oddsLadderToCsv,
+  oddsLadderToJson,
+  DEFAULT_LADDER_ODDS,
+} from './odds-ladder';
+import { PricingOptions } from './pricing';
+import { MarketAccount, Side } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+  tableCellStyle,
+} from './styles';
+
+interface OddsLadderPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+  netOfFee: boolean;
+}
+
+// 未收敛行的提示文字
+const STATUS_LABELS = {
+  converged: '',
+  oddsTooLow: '赔率过低',
+  oddsTooHigh: '赔率过高',
+};
+
+// 触发浏览器下载
+function downloadText(text: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// 赔率阶梯：按赔率列表同时求解 Long 与 Short 的障碍价格
+export const OddsLadderPanel: React.FC<OddsLadderPanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+  netOfFee,
+}) => {
+  const [oddsText, setOddsText] = useState<string>(DEFAULT_LADDER_ODDS.join(', '));
+
+  const oddsList = useMemo(
+    () =>
+      oddsText
+        .split(/[,\s]+/)
+        .map(Number)
+        .filter((value) => Number.isFinite(value) && value > 1),
+    [oddsText]
+  );
+
+  const rows = useMemo(
+    () =>
+      buildOddsLadder(spotPrice, oddsList, [Side.Long, Side.Short], marketConfig, {
+        ...pricingOptions,
+        netOfFee,
+      }),
+    [spotPrice, oddsList, marketConfig, pricingOptions, netOfFee]
+  );
+
+  // 每个赔率一行，Long / Short 并列
+  const ladder = useMemo(
+    () =>
+      oddsList.map((odds, i) => ({
+        odds,
+        long: rows[2 * i],
+        short: rows[2 * i + 1],
+      })),
+    [oddsList, rows]
+  );
+
+  const handleExportCsv = () => {
+    downloadText(oddsLadderToCsv(rows), 'odds-ladder.csv', 'text/csv');
+  };
+
+  const handleExportJson = () => {
+    downloadText(
+      oddsLadderToJson(rows, spotPrice, marketConfig, netOfFee),
+      'odds-ladder.json',
+      'application/json'
+    );
+  };
+
+  const renderCells = (row: (typeof rows)[number]) => (
+    <>
+      <td style={tableCellStyle}>
+        ${row.barrier.toFixed(4)}
+        {row.status !== 'converged' && (
+          <span style={{ color: '#c92a2a', marginLeft: '6px' }}>⚠️ {STATUS_LABELS[row.status]}</span>
+        )}
+      </td>
+      <td style={tableCellStyle}>{row.movePct.toFixed(3)}%</td>
+      <td style={tableCellStyle}>{row.premium.toFixed(6)}</td>
+      <td style={tableCellStyle}>{row.feeLoadedPremium.toFixed(6)}</td>
+    </>
+  );
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🪜 赔率阶梯</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '15px', alignItems: 'end', marginBottom: '15px' }}>
+        <div>
+          <label style={labelStyle}>赔率列表（逗号分隔，&gt; 1）</label>
+          <input
+            type="text"
+            value={oddsText}
+            onChange={(e) => setOddsText(e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button style={actionButtonStyle} onClick={handleExportCsv} disabled={rows.length === 0}>
+            ⬇️ 导出 CSV
+          </button>
+          <button style={actionButtonStyle} onClick={handleExportJson} disabled={rows.length === 0}>
+            ⬇️ 导出 JSON
+          </button>
+        </div>
+      </div>
+
+      <small style={{ display: 'block', color: '#666', marginBottom: '10px' }}>
+        现货 ${spotPrice.toFixed(2)}，{netOfFee ? '按净赔率（扣除手续费后）求解' : '按公平赔率求解'}
+      </small>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th rowSpan={2} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>赔率</th>
+              <th colSpan={4} style={{ ...tableCellStyle, backgroundColor: '#e8f5e9', textAlign: 'center' }}>Long (看涨)</th>
+              <th colSpan={4} style={{ ...tableCellStyle, backgroundColor: '#ffebee', textAlign: 'center' }}>Short (看跌)</th>
+            </tr>
+            <tr>
+              {['障碍价格', '涨跌幅', '权利金', '含费权利金', '障碍价格', '涨跌幅', '权利金', '含费权利金'].map((h, i) => (
+                <th key={i} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ladder.map((entry, i) => (
+              <tr key={i}>
+                <td style={tableCellStyle}>{entry.odds}X</td>
+                {renderCells(entry.long)}
+                {renderCells(entry.short)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import {
+  openPosition,
+  removePosition,
+  liabilityCurve,
+  worstCaseSettlement,
+  exposureByBarrierBucket,
+  settleBookAt,
+  totalPremium,
+  PositionOrder,
+} from './order-book';
+import { MarketAccount, OrderBook, PayoutMethod, Side } from './types';
+import { StatCard } from './StatCard';
+import { GuardNotice } from './GuardNotice';
+import { validateQuote } from './market-guards';
+import { PricingOptions } from './pricing';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+  tableCellStyle,
+} from './styles';
+
+interface OrderBookPanelProps {
+  book: OrderBook;
+  onChange: (book: OrderBook) => void;
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+  nowTs: number;
+}
+
+export const OrderBookPanel: React.FC<OrderBookPanelProps> = ({
+  book,
+  onChange,
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+  nowTs,
+}) => {
+  // 新仓位输入
+  const [order, setOrder] = useState<PositionOrder>({
+    side: Side.Long,
+    barrier: spotPrice,
+    stake: 100,
+    payoutMethod: PayoutMethod.CashOrNothing,
+  });
+
+  // 图表与分桶设置
+  const [rangePercent, setRangePercent] = useState<number>(5);
+  const [bucketWidth, setBucketWidth] = useState<number>(1);
+
+  const updateOrder = <K extends keyof PositionOrder>(key: K, value: PositionOrder[K]) => {
+    setOrder((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // 开仓前的市场校验
+  const rejections = useMemo(
+    () => validateQuote(marketConfig, { ...order, spot: spotPrice, nowTs }),
+    [marketConfig, order, spotPrice, nowTs]
+  );
+
+  // 负债曲线（结算价 → 净负债）
+  const curve = useMemo(() => {
+    const minPrice = spotPrice * (1 - rangePercent / 100);
+    const maxPrice = spotPrice * (1 + rangePercent / 100);
+    return liabilityCurve(book, minPrice, maxPrice, 200);
+  }, [book, spotPrice, rangePercent]);
+
+  const worstCase = useMemo(() => worstCaseSettlement(book), [book]);
+  const atSpot = useMemo(() => settleBookAt(book, spotPrice), [book, spotPrice]);
+  const buckets = useMemo(() => exposureByBarrierBucket(book, bucketWidth), [book, bucketWidth]);
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>📒 持仓簿与风险敞口</h2>
+
+      {/* 开仓表单 */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '15px', alignItems: 'end' }}>
+        <div>
+          <label style={labelStyle}>方向</label>
+          <select
+            value={order.side}
+            onChange={(e) => updateOrder('side', Number(e.target.value) as Side)}
+            style={inputStyle}
+          >
+            <option value={Side.Long}>Long (看涨)</option>
+            <option value={Side.Short}>Short (看跌)</option>
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>障碍价格</label>
+          <input
+            type="number"
+            value={order.barrier}
+            onChange={(e) => updateOrder('barrier', Number(e.target.value))}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>下注额</label>
+          <input
+            type="number"
+            value={order.stake}
+            onChange={(e) => updateOrder('stake', Number(e.target.value))}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>赔付方式</label>
+          <select
+            value={order.payoutMethod}
+            onChange={(e) => updateOrder('payoutMethod', Number(e.target.value) as PayoutMethod)}
+            style={inputStyle}
+          >
+            <option value={PayoutMethod.CashOrNothing}>Cash-or-Nothing</option>
+            <option value={PayoutMethod.OddsBased}>Odds-Based</option>
+          </select>
+        </div>
+        <button
+          style={{ ...actionButtonStyle, padding: '10px', opacity: rejections.length === 0 ? 1 : 0.5 }}
+          disabled={rejections.length > 0}
+          onClick={() => onChange(openPosition(book, marketConfig, spotPrice, order, pricingOptions))}
+        >
+          ➕ 开仓
+        </button>
+      </div>
+      <small style={{ display: 'block', margin: '8px 0', color: '#666' }}>
+        按当前现货 ${spotPrice.toFixed(2)} 报价；下注额需在 [{marketConfig.minStake}, {marketConfig.maxStake}] 内
+      </small>
+      {rejections.length > 0 && <GuardNotice rejections={rejections} />}
+
+      {/* 持仓列表 */}
+      <div style={{ maxHeight: '260px', overflowY: 'auto', marginTop: '20px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              {['ID', '方向', '障碍价', '下注额', '已付权利金', '获胜赔付', '开仓周期', '结算周期', ''].map((h) => (
+                <th key={h} style={{ ...tableCellStyle, position: 'sticky', top: 0, backgroundColor: '#f8f9fa' }}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {book.positions.map((p) => (
+              <tr key={p.id}>
+                <td style={tableCellStyle}>{p.id}</td>
+                <td style={tableCellStyle}>{p.side === Side.Long ? 'Long' : 'Short'}</td>
+                <td style={tableCellStyle}>{p.barrier.toFixed(2)}</td>
+                <td style={tableCellStyle}>{p.stake.toFixed(2)}</td>
+                <td style={tableCellStyle}>{p.premiumPaid.toFixed(4)}</td>
+                <td style={tableCellStyle}>{p.payoutIfWon.toFixed(4)}</td>
+                <td style={tableCellStyle}>{p.openEpoch}</td>
+                <td style={tableCellStyle}>{p.settleEpoch}</td>
+                <td style={tableCellStyle}>
+                  <button
+                    style={{ ...actionButtonStyle, backgroundColor: '#fa5252', padding: '4px 10px' }}
+                    onClick={() => onChange(removePosition(book, p.id))}
+                  >
+                    删除
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {book.positions.length === 0 && (
+              <tr>
+                <td colSpan={9} style={{ ...tableCellStyle, textAlign: 'center', color: '#999' }}>暂无持仓</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 风险汇总 */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '15px', marginTop: '20px' }}>
+        <StatCard label="已收权利金" value={totalPremium(book).toFixed(2)} />
+        <StatCard label="当前现货净负债" value={atSpot.netLiability.toFixed(2)} />
+        <StatCard label="最坏情况赔付" value={worstCase ? worstCase.grossPayout.toFixed(2) : '-'} />
+        <StatCard label="最坏情况净负债" value={worstCase ? worstCase.netLiability.toFixed(2) : '-'} />
+      </div>
+
+      {/* 负债曲线 */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '20px 0 10px' }}>
+        <h3 style={{ fontSize: '15px', color: '#555', margin: 0 }}>📉 净负债 vs 结算价格</h3>
+        <label style={{ fontSize: '13px', color: '#555' }}>
+          价格范围 (±%){' '}
+          <input
+            type="number"
+            value={rangePercent}
+            onChange={(e) => setRangePercent(Number(e.target.value))}
+            style={{ ...inputStyle, width: '80px' }}
+          />
+        </label>
+      </div>
+      <ResponsiveContainer width="100%" height={360}>
+        <LineChart data={curve} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis
+            dataKey="settlePrice"
+            label={{ value: '结算价格 (Settlement Price)', position: 'insideBottom', offset: -5 }}
+            tickFormatter={(value) => value.toFixed(2)}
+          />
+          <YAxis
+            label={{ value: '金额', angle: -90, position: 'insideLeft' }}
+            tickFormatter={(value) => value.toFixed(0)}
+          />
+          <Tooltip
+            formatter={(value: number) => value.toFixed(4)}
+            labelFormatter={(label) => `结算价格: $${Number(label).toFixed(2)}`}
+          />
+          <Legend />
+          <ReferenceLine y={0} stroke="#333" strokeDasharray="3 3" />
+          <ReferenceLine
+            x={spotPrice}
+            stroke="#4dabf7"
+            strokeDasharray="3 3"
+            label={{ value: '当前现货', position: 'top', fill: '#4dabf7' }}
+          />
+          <Line
+            type="stepAfter"
+            dataKey="netLiability"
+            stroke="#e74c3c"
+            strokeWidth={2}
+            name="净负债"
+            dot={false}
+            activeDot={{ r: 6 }}
+          />
+          <Line
+            type="stepAfter"
+            dataKey="grossPayout"
+            stroke="#f59f00"
+            strokeWidth={2}
+            name="总赔付"
+            dot={false}
+            activeDot={{ r: 6 }}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+
+      {/* 障碍价分桶敞口 */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '20px 0 10px' }}>
+        <h3 style={{ fontSize: '15px', color: '#555', margin: 0 }}>🪣 按障碍价分桶敞口</h3>
+        <label style={{ fontSize: '13px', color: '#555' }}>
+          分桶宽度{' '}
+          <input
+            type="number"
+            step="0.1"
+            value={bucketWidth}
+            onChange={(e) => setBucketWidth(Number(e.target.value))}
+            style={{ ...inputStyle, width: '80px' }}
+          />
+        </label>
+      </div>
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={buckets} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis
+            dataKey="bucketStart"
+            tickFormatter={(value) => Number(value).toFixed(2)}
+          />
+          <YAxis tickFormatter={(value) => Number(value).toFixed(0)} />
+          <Tooltip
+            formatter={(value: number) => value.toFixed(2)}
+            labelFormatter={(label) => `障碍价 ≥ ${Number(label).toFixed(2)}`}
+          />
+          <Legend />
+          <Bar dataKey="longPayout" stackId="payout" fill="#2ecc71" name="Long 赔付" />
+          <Bar dataKey="shortPayout" stackId="payout" fill="#e74c3c" name="Short 赔付" />
+          <Bar dataKey="premium" fill="#adb5bd" name="已收权利金" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
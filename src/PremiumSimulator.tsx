@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   LineChart,
   Line,
@@ -10,100 +10,413 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from 'recharts';
+import { CdfMethod, FeeQuote, applyFee, removeFee, quoteWithFee } from './black-scholes';
 import {
-  digitalCallPrice,
-  digitalPutPrice,
-  SECONDS_PER_YEAR,
-} from './black-scholes';
-import { MarketAccount, Side, ChartDataPoint } from './types';
-
-// 默认市场配置
-const DEFAULT_MARKET_CONFIG: MarketAccount = {
-  bump: 0,
-  epochDurationSecs: 300, // 5 分钟
-  settleDelayEpochs: 1,
-  feeBps: 100, // 1%
-  minStake: 1,
-  maxStake: 10000,
-  callLambda: 0.999, // < 1.0
-  putLambda: 1.001, // > 1.0
-  vegaBuffer: 0.05,
-  feedId: [],
-  stalenessMaxSec: 60,
-  lastPrice: 100,
-  lastTs: Date.now(),
-  sigma2: 0.25, // IV ≈ 50%
-  halfLifeSecs: 43200, // 12 小时
-  vault: '',
-  pool: '',
-  treasury: '',
-  paused: false,
-  positionCounter: 0,
+  calcPremium,
+  calcQuote,
+  calcGreeks,
+  calcSpreadMarkup,
+  timeRemainingSecs,
+  PricingModel,
+  PricingOptions,
+} from './pricing';
+import {
+  solveForBarrier,
+  solveRangeWidth,
+  solveTouchBarrier,
+  BarrierSolveResult,
+  BarrierSolveStatus,
+  RangeWidthSolveResult,
+} from './barrier-solver';
+import { calcProductPremium } from './products';
+import { validateQuote, validateLambdas, validateStaleness } from './market-guards';
+import { applyPriceUpdate, PriceUpdate } from './price-feed';
+import { smileVolatility } from './vol-smile';
+import { DEFAULT_MARKET_CONFIG } from './market-config';
+import { Scenario } from './scenario';
+import { applyVariant, ConfigVariant, CURRENT_CONFIG_ID } from './config-variants';
+import {
+  MarketAccount,
+  Side,
+  ProductType,
+  ProductSpec,
+  ChartDataPoint,
+  GreekKey,
+  OrderBook,
+  SimulatorMode,
+} from './types';
+import { inputStyle, tabButtonStyle } from './styles';
+import { VolatilityEstimator } from './VolatilityEstimator';
+import { VolSmileEditor } from './VolSmileEditor';
+import { MonteCarloPanel } from './MonteCarloPanel';
+import { ImpliedVolPanel } from './ImpliedVolPanel';
+import { OddsLadderPanel } from './OddsLadderPanel';
+import { PremiumSurfacePanel } from './PremiumSurfacePanel';
+import { TimeDecayPanel } from './TimeDecayPanel';
+import { ScenarioPanel } from './ScenarioPanel';
+import { AccountImportPanel } from './AccountImportPanel';
+import { PriceFeedPanel } from './PriceFeedPanel';
+import { ConfigVariantsPanel, VARIANT_COLORS } from './ConfigVariantsPanel';
+import { BacktestPanel } from './BacktestPanel';
+import { OrderBookPanel } from './OrderBookPanel';
+import { StrategyBuilderPanel } from './StrategyBuilderPanel';
+import { CdfDiagnostics } from './CdfDiagnostics';
+import { FixedPointPanel } from './FixedPointPanel';
+import { GuardNotice } from './GuardNotice';
+import { createOrderBook } from './order-book';
+
+// Tab 列表
+const SIMULATOR_TABS: { mode: SimulatorMode; label: string }[] = [
+  { mode: 'premium', label: '💰 Premium 模式' },
+  { mode: 'odds', label: '🎲 Odds 模式' },
+  { mode: 'impliedVol', label: '🔍 Implied Vol' },
+  { mode: 'montecarlo', label: '🎰 蒙特卡洛' },
+  { mode: 'backtest', label: '📜 历史回测' },
+  { mode: 'book', label: '📒 持仓簿' },
+  { mode: 'strategy', label: '🧩 策略组合' },
+];
+
+// 定价模型显示名称
+const MODEL_LABELS: Record<PricingModel, string> = {
+  spread: '价差近似 (Spread)',
+  closedForm: '闭式解 Φ(±d₂)',
+};
+
+// 产品类型显示名称
+const PRODUCT_LABELS: Record<ProductType, string> = {
+  [ProductType.Digital]: '数字期权 (Digital)',
+  [ProductType.Range]: '区间 (Range)',
+  [ProductType.OneTouch]: '一触即付 (One-Touch)',
+  [ProductType.NoTouch]: '永不触碰 (No-Touch)',
+};
+
+// Greeks 显示名称
+const GREEK_LABELS: Record<GreekKey, string> = {
+  delta: 'Delta',
+  gamma: 'Gamma',
+  vega: 'Vega (每 1 波动率点)',
+  thetaPerSecond: 'Theta (每秒)',
+  thetaPerEpoch: 'Theta (每周期)',
 };
 
 export const PremiumSimulator: React.FC = () => {
   // 模式切换
-  const [mode, setMode] = useState<'premium' | 'odds'>('premium');
+  const [mode, setMode] = useState<SimulatorMode>('premium');
 
   // 基础交易参数
   const [spotPrice, setSpotPrice] = useState<number>(100);
   const [barrierPrice, setBarrierPrice] = useState<number>(100);
   const [side, setSide] = useState<Side>(Side.Long);
 
+  // 产品类型（区间 / 触碰产品仅用于 Premium 与 Odds 模式）
+  const [product, setProduct] = useState<ProductType>(ProductType.Digital);
+  const [rangeLower, setRangeLower] = useState<number>(99.5);
+  const [rangeUpper, setRangeUpper] = useState<number>(100.5);
+  const productActive = (mode === 'premium' || mode === 'odds') && product !== ProductType.Digital;
+
   // Odds 模式参数
   const [odds, setOdds] = useState<number>(10);
+  const [solveNetOdds, setSolveNetOdds] = useState<boolean>(false); // 按扣费后的净赔率求解
+
+  // 下注额与价格时效（用于市场校验）
+  const [stake, setStake] = useState<number>(100);
+  const [priceAgeSecs, setPriceAgeSecs] = useState<number>(0); // 距 lastTs 的秒数
 
   // 市场配置参数
   const [marketConfig, setMarketConfig] = useState<MarketAccount>(
     DEFAULT_MARKET_CONFIG
   );
 
-  // 当切换到 Odds 模式时，自动设置时间为 30 秒
-  React.useEffect(() => {
-    if (mode === 'odds') {
-      setMarketConfig((prev) => ({
-        ...prev,
-        epochDurationSecs: 30, // Odds 模式使用 30 秒
-      }));
-    } else {
-      // 切回 Premium 模式时恢复默认值
-      setMarketConfig((prev) => ({
-        ...prev,
-        epochDurationSecs: 300, // Premium 模式使用 5 分钟
-      }));
-    }
-  }, [mode]);
+  // 定价选项（不属于链上 MarketAccount）
+  const [cdfMethod, setCdfMethod] = useState<CdfMethod>('hastings');
+  const [pricingModel, setPricingModel] = useState<PricingModel>('spread');
+  const [rate, setRate] = useState<number>(0); // 无风险利率 r（年化）
+  const [carry, setCarry] = useState<number>(0); // 持有成本 / 资金费率 q（年化）
+  const pricingOptions = useMemo<PricingOptions>(
+    () => ({ cdfMethod, model: pricingModel, rate, carry }),
+    [cdfMethod, pricingModel, rate, carry]
+  );
+  // 入场偏移：当前周期内已过去的秒数（报价、图表与 Odds 求解使用剩余期限）
+  const [entryOffsetSecs, setEntryOffsetSecs] = useState<number>(0);
+  const quotePricingOptions = useMemo<PricingOptions>(
+    () => ({
+      ...pricingOptions,
+      entryOffsetSecs: Math.min(Math.max(entryOffsetSecs, 0), marketConfig.epochDurationSecs),
+    }),
+    [pricingOptions, entryOffsetSecs, marketConfig.epochDurationSecs]
+  );
+  // 另一种模型（用于图表叠加）
+  const altModel: PricingModel = pricingModel === 'spread' ? 'closedForm' : 'spread';
+
+  // 持仓簿
+  const [orderBook, setOrderBook] = useState<OrderBook>(() =>
+    createOrderBook(DEFAULT_MARKET_CONFIG)
+  );
+
+  // 切换模式：Odds 模式使用 30 秒周期，其他模式恢复 5 分钟
+  // （在切换时设置而非 effect 中，避免载入场景时覆盖其中的周期时长）
+  const changeMode = (next: SimulatorMode) => {
+    if (next === mode) return;
+    setMode(next);
+    setMarketConfig((prev) => ({
+      ...prev,
+      epochDurationSecs: next === 'odds' ? 30 : 300,
+    }));
+  };
 
   // 图表范围设置
   const [rangePercent, setRangePercent] = useState<number>(30); // ±30%
   const [dataPoints, setDataPoints] = useState<number>(50); // 50个数据点
+  const [chartGreek, setChartGreek] = useState<GreekKey | 'none'>('none');
+  const [compareModels, setCompareModels] = useState<boolean>(false); // 叠加两种模型与加成
+
+  // 当前场景（保存 / 导出 / 分享）
+  const currentScenario = useMemo<Scenario>(
+    () => ({
+      name: '',
+      mode,
+      spotPrice,
+      barrierPrice,
+      side,
+      product,
+      rangeLower,
+      rangeUpper,
+      odds,
+      solveNetOdds,
+      stake,
+      priceAgeSecs,
+      entryOffsetSecs,
+      market: marketConfig,
+      pricing: { cdfMethod, model: pricingModel, rate, carry },
+      chart: { rangePercent, dataPoints, chartGreek, compareModels },
+    }),
+    [mode, spotPrice, barrierPrice, side, product, rangeLower, rangeUpper, odds, solveNetOdds, stake, priceAgeSecs, entryOffsetSecs,
+      marketConfig, cdfMethod, pricingModel, rate, carry, rangePercent, dataPoints, chartGreek, compareModels]
+  );
+
+  // 载入场景：恢复全部输入
+  const applyScenario = (scenario: Scenario) => {
+    setMode(scenario.mode);
+    setSpotPrice(scenario.spotPrice);
+    setBarrierPrice(scenario.barrierPrice);
+    setSide(scenario.side);
+    setProduct(scenario.product);
+    setRangeLower(scenario.rangeLower);
+    setRangeUpper(scenario.rangeUpper);
+    setOdds(scenario.odds);
+    setSolveNetOdds(scenario.solveNetOdds);
+    setStake(scenario.stake);
+    setPriceAgeSecs(scenario.priceAgeSecs);
+    setEntryOffsetSecs(scenario.entryOffsetSecs);
+    setMarketConfig(scenario.market);
+    setCdfMethod(scenario.pricing.cdfMethod);
+    setPricingModel(scenario.pricing.model);
+    setRate(scenario.pricing.rate);
+    setCarry(scenario.pricing.carry);
+    setRangePercent(scenario.chart.rangePercent);
+    setDataPoints(scenario.chart.dataPoints);
+    setChartGreek(scenario.chart.chartGreek);
+    setCompareModels(scenario.chart.compareModels);
+  };
+
+  // 实时价格源：现货价格与 lastPrice / lastTs 跟随推送，价格时效按真实时钟计算
+  const [feedLive, setFeedLive] = useState<boolean>(false);
+  const handlePriceUpdate = (update: PriceUpdate) => {
+    setSpotPrice(update.price);
+    setMarketConfig((prev) => applyPriceUpdate(prev, update));
+  };
+  useEffect(() => {
+    if (!feedLive) return;
+    const refreshAge = () =>
+      setPriceAgeSecs(Math.max(0, Math.floor(Date.now() / 1000) - marketConfig.lastTs));
+    refreshAge();
+    const timer = setInterval(refreshAge, 1000);
+    return () => clearInterval(timer);
+  }, [feedLive, marketConfig.lastTs]);
+  const priceStale = validateStaleness(marketConfig, marketConfig.lastTs + priceAgeSecs).length > 0;
+
+  // 报价前的市场校验（暂停、价格时效、下注额、lambda、价格为正）
+  const quoteRejections = useMemo(() => {
+    return validateQuote(marketConfig, {
+      spot: spotPrice,
+      barrier:
+        mode !== 'premium' ? undefined
+        : productActive && product === ProductType.Range ? rangeLower
+        : barrierPrice,
+      upperBarrier: mode === 'premium' && productActive && product === ProductType.Range ? rangeUpper : undefined,
+      // 区间与触碰产品由两侧数字期权组合，校验两侧 lambda
+      side: productActive ? undefined : side,
+      stake,
+      nowTs: marketConfig.lastTs + priceAgeSecs,
+    });
+  }, [mode, spotPrice, barrierPrice, side, productActive, product, rangeLower, rangeUpper, stake, priceAgeSecs, marketConfig]);
+
+  // 定价参数校验（图表和模拟面板只依赖 lambda）
+  const pricingRejections = useMemo(() => validateLambdas(marketConfig), [marketConfig]);
+
+  // 计算当前 Premium、含手续费报价明细与 Greeks
+  const current = useMemo(() => {
+    if (quoteRejections.length > 0 || productActive) return null;
+    return {
+      premium: calcPremium(spotPrice, barrierPrice, side, marketConfig, quotePricingOptions),
+      quote: calcQuote(spotPrice, barrierPrice, side, marketConfig, quotePricingOptions),
+      greeks: calcGreeks(spotPrice, barrierPrice, side, marketConfig, quotePricingOptions),
+      markup: calcSpreadMarkup(spotPrice, barrierPrice, side, marketConfig, quotePricingOptions),
+    };
+  }, [quoteRejections, productActive, spotPrice, barrierPrice, side, marketConfig, quotePricingOptions]);
+
+  // 按输入构造的产品（Odds 模式下障碍由求解得出）
+  const inputProductSpec = useMemo<ProductSpec>(() => {
+    if (product === ProductType.Digital) return { type: product, side, barrier: barrierPrice };
+    if (product === ProductType.Range) return { type: product, lower: rangeLower, upper: rangeUpper };
+    return { type: product, barrier: barrierPrice };
+  }, [product, side, barrierPrice, rangeLower, rangeUpper]);
+
+  // 区间 / 触碰产品：Premium 模式直接定价，Odds 模式反推对称区间宽度或触碰障碍
+  const productResult = useMemo<ProductResult | null>(() => {
+    if (product === ProductType.Digital || (mode !== 'premium' && mode !== 'odds')) return null;
+    if (quoteRejections.length > 0) return null;
+
+    if (mode === 'premium') {
+      const premium = calcProductPremium(spotPrice, inputProductSpec, marketConfig, quotePricingOptions);
+      return {
+        spec: inputProductSpec,
+        premium,
+        quote: quoteWithFee(premium, marketConfig.feeBps),
+        solve: null,
+      };
+    }
+
+    const targetPremium = 1.0 / odds;
+    const fairTarget = solveNetOdds
+      ? removeFee(targetPremium, marketConfig.feeBps)
+      : targetPremium;
+    const displayOdds = (fairPremium: number) => {
+      const premium = solveNetOdds ? applyFee(fairPremium, marketConfig.feeBps) : fairPremium;
+      return premium > 0 ? 1 / premium : Infinity;
+    };
+
+    let spec: ProductSpec;
+    let solved: RangeWidthSolveResult | BarrierSolveResult;
+    if (product === ProductType.Range) {
+      const width = solveRangeWidth(fairTarget, spotPrice, marketConfig, quotePricingOptions);
+      spec = { type: product, lower: width.lower, upper: width.upper };
+      solved = width;
+    } else {
+      // 触碰产品：方向选择障碍在现货上方 (Long) 或下方 (Short)
+      const touch = solveTouchBarrier(fairTarget, spotPrice, side, product, marketConfig, quotePricingOptions);
+      spec = { type: product, barrier: touch.barrier };
+      solved = touch;
+    }
+
+    return {
+      spec,
+      premium: solved.premium,
+      quote: quoteWithFee(solved.premium, marketConfig.feeBps),
+      solve: {
+        targetPremium,
+        status: solved.status,
+        iterations: solved.iterations,
+        residual: solved.residual,
+        minOdds: displayOdds(solved.range.maxPremium),
+        maxOdds: displayOdds(solved.range.minPremium),
+      },
+    };
+  }, [quoteRejections, mode, product, side, inputProductSpec, odds, solveNetOdds,
+    spotPrice, marketConfig, quotePricingOptions]);
+
+  // 配置变体（曲线叠加到主图表；lambda 无效的变体不绘制）
+  const [variants, setVariants] = useState<ConfigVariant[]>([]);
+  const [baselineId, setBaselineId] = useState<string>(CURRENT_CONFIG_ID);
+  const activeVariants = useMemo(
+    () =>
+      variants
+        .map((v, index) => ({ id: v.id, name: v.name, index, market: applyVariant(marketConfig, v) }))
+        .filter((v) => validateLambdas(v.market).length === 0),
+    [variants, marketConfig]
+  );
 
-  // 计算当前 Premium
-  const currentPremium = useMemo(() => {
-    return calcPremium(spotPrice, barrierPrice, side, marketConfig);
-  }, [spotPrice, barrierPrice, side, marketConfig]);
+  // 图表中的产品：区间 / 触碰产品使用当前结果（Odds 模式为求解结果），无结果时按输入
+  const chartSpec: ProductSpec | null = productActive ? productResult?.spec ?? inputProductSpec : null;
+  // 组成腿的障碍：区间为下沿 / 上沿，触碰产品与数字期权为障碍价
+  const [legLower, legUpper] =
+    chartSpec?.type === ProductType.Range ? [chartSpec.lower, chartSpec.upper]
+    : chartSpec ? [chartSpec.barrier, chartSpec.barrier]
+    : [barrierPrice, barrierPrice];
 
   // 生成图表数据
   const chartData = useMemo(() => {
     const data: ChartDataPoint[] = [];
-    const minSpot = barrierPrice * (1 - rangePercent / 100);
-    const maxSpot = barrierPrice * (1 + rangePercent / 100);
+    if (pricingRejections.length > 0 || !(legLower > 0) || !(legUpper > 0)) return data;
+
+    // 以障碍价（区间为中点）为中心
+    const center = (legLower + legUpper) / 2;
+    const minSpot = center * (1 - rangePercent / 100);
+    const maxSpot = center * (1 + rangePercent / 100);
     const step = (maxSpot - minSpot) / (dataPoints - 1);
 
     for (let i = 0; i < dataPoints; i++) {
       const spot = minSpot + step * i;
-      const longPremium = calcPremium(spot, barrierPrice, Side.Long, marketConfig);
-      const shortPremium = calcPremium(spot, barrierPrice, Side.Short, marketConfig);
+      const longPremium = calcPremium(spot, legLower, Side.Long, marketConfig, quotePricingOptions);
+      const shortPremium = calcPremium(spot, legUpper, Side.Short, marketConfig, quotePricingOptions);
 
-      data.push({
+      const point: ChartDataPoint = {
         spotPrice: spot,
         longPremium,
         shortPremium,
-      });
+      };
+
+      if (chartSpec) {
+        point.productPremium = calcProductPremium(spot, chartSpec, marketConfig, quotePricingOptions);
+        // 互补产品：区间外 = Short(下沿) + Long(上沿)，触碰产品取相反类型
+        point.complementPremium =
+          chartSpec.type === ProductType.Range
+            ? calcPremium(spot, legLower, Side.Short, marketConfig, quotePricingOptions) +
+              calcPremium(spot, legUpper, Side.Long, marketConfig, quotePricingOptions)
+            : calcProductPremium(
+                spot,
+                {
+                  type: chartSpec.type === ProductType.OneTouch ? ProductType.NoTouch : ProductType.OneTouch,
+                  barrier: legLower,
+                },
+                marketConfig,
+                quotePricingOptions
+              );
+        data.push(point);
+        continue;
+      }
+
+      if (chartGreek !== 'none') {
+        point.longGreek = calcGreeks(spot, barrierPrice, Side.Long, marketConfig, quotePricingOptions)[chartGreek];
+        point.shortGreek = calcGreeks(spot, barrierPrice, Side.Short, marketConfig, quotePricingOptions)[chartGreek];
+      }
+
+      if (activeVariants.length > 0) {
+        point.variantPremiums = Object.fromEntries(
+          activeVariants.map((v) => [
+            v.id,
+            {
+              long: calcPremium(spot, barrierPrice, Side.Long, v.market, quotePricingOptions),
+              short: calcPremium(spot, barrierPrice, Side.Short, v.market, quotePricingOptions),
+            },
+          ])
+        );
+      }
+
+      if (compareModels) {
+        const longMarkup = calcSpreadMarkup(spot, barrierPrice, Side.Long, marketConfig, quotePricingOptions);
+        const shortMarkup = calcSpreadMarkup(spot, barrierPrice, Side.Short, marketConfig, quotePricingOptions);
+        point.longAltPremium = altModel === 'spread' ? longMarkup.spreadPremium : longMarkup.closedFormPremium;
+        point.shortAltPremium = altModel === 'spread' ? shortMarkup.spreadPremium : shortMarkup.closedFormPremium;
+        point.longMarkupBps = longMarkup.markupBps;
+        point.shortMarkupBps = shortMarkup.markupBps;
+      }
+
+      data.push(point);
     }
 
     return data;
-  }, [barrierPrice, marketConfig, rangePercent, dataPoints]);
+  }, [pricingRejections, chartSpec, legLower, legUpper, marketConfig, quotePricingOptions, altModel, rangePercent, dataPoints, chartGreek, compareModels, activeVariants]);
 
   // 更新市场配置的辅助函数
   const updateMarketConfig = (key: keyof MarketAccount, value: any) => {
@@ -112,18 +425,32 @@ export const PremiumSimulator: React.FC = () => {
 
   // Odds 模式：计算结果
   const oddsResult = useMemo(() => {
-    if (mode !== 'odds') return null;
+    if (mode !== 'odds' || quoteRejections.length > 0 || productActive) return null;
     
     const targetPremium = 1.0 / odds;
-    const solvedBarrier = solveForBarrier(targetPremium, spotPrice, side, marketConfig);
-    const percentChange = ((solvedBarrier / spotPrice) - 1) * 100;
+    // 净赔率模式：用户看到的是含费价格，需先扣除手续费得到公平价格
+    const fairTarget = solveNetOdds
+      ? removeFee(targetPremium, marketConfig.feeBps)
+      : targetPremium;
+    const solved = solveForBarrier(fairTarget, spotPrice, side, marketConfig, quotePricingOptions);
+    const percentChange = ((solved.barrier / spotPrice) - 1) * 100;
+
+    // 可达赔率范围：净赔率模式下换算为含费赔率，与输入口径一致
+    const displayOdds = (fairPremium: number) => {
+      const premium = solveNetOdds ? applyFee(fairPremium, marketConfig.feeBps) : fairPremium;
+      return premium > 0 ? 1 / premium : Infinity;
+    };
     
     return {
       premium: targetPremium,
-      barrier: solvedBarrier,
+      barrier: solved.barrier,
       percentChange,
+      quote: calcQuote(spotPrice, solved.barrier, side, marketConfig, quotePricingOptions),
+      solve: solved,
+      minOdds: displayOdds(solved.range.maxPremium),
+      maxOdds: displayOdds(solved.range.minPremium),
     };
-  }, [mode, odds, spotPrice, side, marketConfig]);
+  }, [mode, quoteRejections, productActive, odds, solveNetOdds, spotPrice, side, marketConfig, quotePricingOptions]);
 
   return (
     <div style={{ 
@@ -140,31 +467,40 @@ export const PremiumSimulator: React.FC = () => {
       <div style={{ 
         display: 'flex', 
         justifyContent: 'center', 
+        flexWrap: 'wrap',
         gap: '10px',
         marginBottom: '30px'
       }}>
-        <button
-          onClick={() => setMode('premium')}
-          style={{
-            ...tabButtonStyle,
-            backgroundColor: mode === 'premium' ? '#4dabf7' : '#f1f3f5',
-            color: mode === 'premium' ? '#fff' : '#495057',
-            fontWeight: mode === 'premium' ? 600 : 400,
-          }}
-        >
-          💰 Premium 模式
-        </button>
-        <button
-          onClick={() => setMode('odds')}
-          style={{
-            ...tabButtonStyle,
-            backgroundColor: mode === 'odds' ? '#4dabf7' : '#f1f3f5',
-            color: mode === 'odds' ? '#fff' : '#495057',
-            fontWeight: mode === 'odds' ? 600 : 400,
-          }}
-        >
-          🎲 Odds 模式
-        </button>
+        {SIMULATOR_TABS.map((tab) => (
+          <button
+            key={tab.mode}
+            onClick={() => changeMode(tab.mode)}
+            style={{
+              ...tabButtonStyle,
+              backgroundColor: mode === tab.mode ? '#4dabf7' : '#f1f3f5',
+              color: mode === tab.mode ? '#fff' : '#495057',
+              fontWeight: mode === tab.mode ? 600 : 400,
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* 场景保存 / 载入 / 分享 */}
+      <div style={{ marginBottom: '30px' }}>
+        <ScenarioPanel scenario={currentScenario} onLoad={applyScenario} />
+      </div>
+
+      {/* 实时价格源 */}
+      <div style={{ marginBottom: '30px' }}>
+        <PriceFeedPanel
+          marketConfig={marketConfig}
+          priceAgeSecs={priceAgeSecs}
+          stale={priceStale}
+          onPrice={handlePriceUpdate}
+          onLiveChange={setFeedLive}
+        />
       </div>
 
       <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '30px' }}>
@@ -186,6 +522,11 @@ export const PremiumSimulator: React.FC = () => {
             <div style={{ marginTop: '15px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
                 现货价格 (Spot Price)
+                {feedLive && (
+                  <span style={{ marginLeft: '8px', fontSize: '12px', color: priceStale ? '#e03131' : '#2b8a3e' }}>
+                    {priceStale ? '⚠️ 价格过期' : '● 实时'}
+                  </span>
+                )}
               </label>
               <input
                 type="number"
@@ -195,7 +536,56 @@ export const PremiumSimulator: React.FC = () => {
               />
             </div>
 
-            {mode === 'premium' ? (
+            {(mode === 'premium' || mode === 'odds') && (
+              <div style={{ marginTop: '15px' }}>
+                <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                  产品类型 (Product)
+                </label>
+                <select
+                  value={product}
+                  onChange={(e) => setProduct(Number(e.target.value) as ProductType)}
+                  style={inputStyle}
+                >
+                  {(Object.keys(PRODUCT_LABELS).map(Number) as ProductType[]).map((type) => (
+                    <option key={type} value={type}>{PRODUCT_LABELS[type]}</option>
+                  ))}
+                </select>
+                {productActive && (
+                  <small style={{ color: '#666' }}>
+                    {product === ProductType.Range
+                      ? '到期价格位于区间内支付；Odds 模式反推以现货为中心的对称区间'
+                      : '触碰按连续监控；障碍高于现货为向上触碰，低于现货为向下触碰'}
+                  </small>
+                )}
+              </div>
+            )}
+
+            {mode === 'premium' && productActive && product === ProductType.Range ? (
+              <div style={{ marginTop: '15px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px' }}>
+                <div>
+                  <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                    区间下沿 (Lower)
+                  </label>
+                  <input
+                    type="number"
+                    value={rangeLower}
+                    onChange={(e) => setRangeLower(Number(e.target.value))}
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                    区间上沿 (Upper)
+                  </label>
+                  <input
+                    type="number"
+                    value={rangeUpper}
+                    onChange={(e) => setRangeUpper(Number(e.target.value))}
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+            ) : mode === 'premium' ? (
               <div style={{ marginTop: '15px' }}>
                 <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
                   障碍价格 (Barrier Price)
@@ -207,7 +597,7 @@ export const PremiumSimulator: React.FC = () => {
                   style={inputStyle}
                 />
               </div>
-            ) : (
+            ) : mode === 'odds' ? (
               <div style={{ marginTop: '15px' }}>
                 <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
                   赔率 (Odds)
@@ -221,21 +611,58 @@ export const PremiumSimulator: React.FC = () => {
                   step="0.1"
                 />
                 <small style={{ color: '#666' }}>例如：10 表示 10 倍赔率</small>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px', fontSize: '14px' }}>
+                  <input
+                    type="checkbox"
+                    checked={solveNetOdds}
+                    onChange={(e) => setSolveNetOdds(e.target.checked)}
+                  />
+                  按净赔率求解（扣除手续费后）
+                </label>
               </div>
-            )}
+            ) : null}
+
+            {/* 区间产品无方向；触碰产品在 Premium 模式下由障碍相对现货的位置决定方向 */}
+            {!productActive ? (
+              <div style={{ marginTop: '15px' }}>
+                <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                  方向 (Side)
+                </label>
+                <select
+                  value={side}
+                  onChange={(e) => setSide(Number(e.target.value) as Side)}
+                  style={inputStyle}
+                >
+                  <option value={Side.Long}>Long (看涨)</option>
+                  <option value={Side.Short}>Short (看跌)</option>
+                </select>
+              </div>
+            ) : mode === 'odds' && product !== ProductType.Range ? (
+              <div style={{ marginTop: '15px' }}>
+                <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                  触碰方向
+                </label>
+                <select
+                  value={side}
+                  onChange={(e) => setSide(Number(e.target.value) as Side)}
+                  style={inputStyle}
+                >
+                  <option value={Side.Long}>向上 (障碍高于现货)</option>
+                  <option value={Side.Short}>向下 (障碍低于现货)</option>
+                </select>
+              </div>
+            ) : null}
 
             <div style={{ marginTop: '15px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
-                方向 (Side)
+                下注额 (Stake)
               </label>
-              <select
-                value={side}
-                onChange={(e) => setSide(Number(e.target.value) as Side)}
+              <input
+                type="number"
+                value={stake}
+                onChange={(e) => setStake(Number(e.target.value))}
                 style={inputStyle}
-              >
-                <option value={Side.Long}>Long (看涨)</option>
-                <option value={Side.Short}>Short (看跌)</option>
-              </select>
+              />
             </div>
           </div>
 
@@ -245,6 +672,20 @@ export const PremiumSimulator: React.FC = () => {
               高级参数
             </h3>
 
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                手续费 (Fee bps)
+              </label>
+              <input
+                type="number"
+                step="1"
+                value={marketConfig.feeBps}
+                onChange={(e) => updateMarketConfig('feeBps', Number(e.target.value))}
+                style={inputStyle}
+              />
+              <small style={{ color: '#666' }}>{(marketConfig.feeBps / 100).toFixed(2)}%</small>
+            </div>
+
             <div style={{ marginTop: '15px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
                 波动率² (Sigma²)
@@ -283,6 +724,31 @@ export const PremiumSimulator: React.FC = () => {
               />
             </div>
 
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                入场偏移 (秒)
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={marketConfig.epochDurationSecs}
+                value={quotePricingOptions.entryOffsetSecs}
+                onChange={(e) => setEntryOffsetSecs(Number(e.target.value))}
+                style={{ width: '100%' }}
+              />
+              <input
+                type="number"
+                min={0}
+                max={marketConfig.epochDurationSecs}
+                value={quotePricingOptions.entryOffsetSecs}
+                onChange={(e) => setEntryOffsetSecs(Number(e.target.value))}
+                style={inputStyle}
+              />
+              <small style={{ color: '#666' }}>
+                当前周期已过去的秒数，剩余期限 {formatDuration(timeRemainingSecs(marketConfig, quotePricingOptions.entryOffsetSecs))}
+              </small>
+            </div>
+
             <div style={{ marginTop: '15px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
                 Vega Buffer
@@ -321,6 +787,124 @@ export const PremiumSimulator: React.FC = () => {
                 style={inputStyle}
               />
             </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                下注额范围 (Min / Max Stake)
+              </label>
+              <div style={{ display: 'flex', gap: '10px' }}>
+                <input
+                  type="number"
+                  value={marketConfig.minStake}
+                  onChange={(e) => updateMarketConfig('minStake', Number(e.target.value))}
+                  style={inputStyle}
+                />
+                <input
+                  type="number"
+                  value={marketConfig.maxStake}
+                  onChange={(e) => updateMarketConfig('maxStake', Number(e.target.value))}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                价格最大时效 (秒)
+              </label>
+              <input
+                type="number"
+                value={marketConfig.stalenessMaxSec}
+                onChange={(e) => updateMarketConfig('stalenessMaxSec', Number(e.target.value))}
+                style={inputStyle}
+              />
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                距上次价格更新 (秒)
+              </label>
+              <input
+                type="number"
+                value={priceAgeSecs}
+                onChange={(e) => setPriceAgeSecs(Number(e.target.value))}
+                disabled={feedLive}
+                style={inputStyle}
+              />
+              <small style={{ color: '#666' }}>
+                {feedLive ? '实时价格源连接中，按真实时钟计算' : '用于模拟价格过期 (lastTs + 该值 = 当前时间)'}
+              </small>
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontWeight: 500 }}>
+                <input
+                  type="checkbox"
+                  checked={marketConfig.paused}
+                  onChange={(e) => updateMarketConfig('paused', e.target.checked)}
+                />
+                市场暂停 (Paused)
+              </label>
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                定价模型
+              </label>
+              <select
+                value={pricingModel}
+                onChange={(e) => setPricingModel(e.target.value as PricingModel)}
+                style={inputStyle}
+              >
+                {(Object.keys(MODEL_LABELS) as PricingModel[]).map((model) => (
+                  <option key={model} value={model}>{MODEL_LABELS[model]}</option>
+                ))}
+              </select>
+              <small style={{ color: '#666' }}>闭式解不使用 Lambda 与 Vega Buffer，即公平概率</small>
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                无风险利率 r (年化)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={rate}
+                onChange={(e) => setRate(Number(e.target.value))}
+                style={inputStyle}
+              />
+              <small style={{ color: '#666' }}>连续复利，如 0.05 = 5%；用于对赔付贴现</small>
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                持有成本 / 资金费率 q (年化)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={carry}
+                onChange={(e) => setCarry(Number(e.target.value))}
+                style={inputStyle}
+              />
+              <small style={{ color: '#666' }}>永续合约填年化资金费率；远期 F = S·e^((r−q)T)</small>
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                正态分布 CDF
+              </label>
+              <select
+                value={cdfMethod}
+                onChange={(e) => setCdfMethod(e.target.value as CdfMethod)}
+                style={inputStyle}
+              >
+                <option value="hastings">Hastings 近似 (默认，与链上一致)</option>
+                <option value="erfc">erfc 高精度</option>
+              </select>
+              <small style={{ color: '#666' }}>深度价外的短周期报价建议对比两者差异</small>
+            </div>
           </div>
 
           {/* 图表设置 */}
@@ -352,12 +936,109 @@ export const PremiumSimulator: React.FC = () => {
                 style={inputStyle}
               />
             </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', fontWeight: 500 }}>
+                叠加 Greek 曲线
+              </label>
+              <select
+                value={chartGreek}
+                onChange={(e) => setChartGreek(e.target.value as GreekKey | 'none')}
+                style={inputStyle}
+              >
+                <option value="none">无</option>
+                {(Object.keys(GREEK_LABELS) as GreekKey[]).map((key) => (
+                  <option key={key} value={key}>{GREEK_LABELS[key]}</option>
+                ))}
+              </select>
+              <small style={{ color: '#666' }}>在右侧坐标轴绘制所选 Greek</small>
+            </div>
+
+            <div style={{ marginTop: '15px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontWeight: 500 }}>
+                <input
+                  type="checkbox"
+                  checked={compareModels}
+                  onChange={(e) => setCompareModels(e.target.checked)}
+                />
+                叠加两种定价模型
+              </label>
+              <small style={{ color: '#666' }}>虚线为另一模型，并显示价差加成 (bps)</small>
+            </div>
           </div>
         </div>
 
         {/* 右侧：结果与图表 */}
         <div>
-          {mode === 'premium' ? (
+          {/* 模拟类面板依赖有效的 lambda 配置 */}
+          {mode !== 'premium' && mode !== 'odds' && pricingRejections.length > 0 && (
+            <GuardNotice rejections={pricingRejections} />
+          )}
+
+          {mode === 'impliedVol' && pricingRejections.length === 0 && (
+            <div style={{ marginBottom: '20px' }}>
+              <ImpliedVolPanel
+                marketConfig={marketConfig}
+                pricingOptions={quotePricingOptions}
+                spotPrice={spotPrice}
+                onApplySigma2={(sigma2) => updateMarketConfig('sigma2', sigma2)}
+                onApplySmile={(smile) => updateMarketConfig('volSmile', smile)}
+              />
+            </div>
+          )}
+
+          {mode === 'montecarlo' && pricingRejections.length === 0 && (
+            <div style={{ marginBottom: '20px' }}>
+              <MonteCarloPanel marketConfig={marketConfig} pricingOptions={pricingOptions} spotPrice={spotPrice} />
+            </div>
+          )}
+
+          {mode === 'backtest' && pricingRejections.length === 0 && (
+            <div style={{ marginBottom: '20px' }}>
+              <BacktestPanel marketConfig={marketConfig} pricingOptions={pricingOptions} />
+            </div>
+          )}
+
+          {mode === 'book' && pricingRejections.length === 0 && (
+            <div style={{ marginBottom: '20px' }}>
+              <OrderBookPanel
+                book={orderBook}
+                onChange={(book) => {
+                  setOrderBook(book);
+                  updateMarketConfig('positionCounter', book.positionCounter);
+                }}
+                marketConfig={marketConfig}
+                pricingOptions={pricingOptions}
+                spotPrice={spotPrice}
+                nowTs={marketConfig.lastTs + priceAgeSecs}
+              />
+            </div>
+          )}
+
+          {mode === 'strategy' && pricingRejections.length === 0 && (
+            <div style={{ marginBottom: '20px' }}>
+              <StrategyBuilderPanel
+                marketConfig={marketConfig}
+                pricingOptions={quotePricingOptions}
+                spotPrice={spotPrice}
+              />
+            </div>
+          )}
+
+          {productActive ? (!productResult ? (
+            <GuardNotice rejections={quoteRejections} />
+          ) : (
+            <ProductResultCard
+              result={productResult}
+              odds={odds}
+              spotPrice={spotPrice}
+              remainingSecs={timeRemainingSecs(marketConfig, quotePricingOptions.entryOffsetSecs)}
+              model={pricingModel}
+              netOfFee={solveNetOdds}
+            />
+          )) : mode === 'premium' ? (!current ? (
+            <GuardNotice rejections={quoteRejections} />
+          ) : (
             /* Premium 模式：显示 Premium */
             <div style={{ 
               backgroundColor: '#e8f5e9', 
@@ -368,7 +1049,7 @@ export const PremiumSimulator: React.FC = () => {
             }}>
               <h2 style={{ marginTop: 0, fontSize: '18px', color: '#2e7d32' }}>💰 当前权利金 (Premium)</h2>
               <div style={{ fontSize: '36px', fontWeight: 'bold', color: '#1b5e20', margin: '10px 0' }}>
-                {currentPremium.toFixed(6)}
+                {current.premium.toFixed(6)}
               </div>
               <div style={{ fontSize: '14px', color: '#555' }}>
                 <p style={{ margin: '5px 0' }}>
@@ -381,13 +1062,42 @@ export const PremiumSimulator: React.FC = () => {
                   <strong>障碍价格:</strong> ${barrierPrice.toFixed(2)}
                 </p>
                 <p style={{ margin: '5px 0' }}>
-                  <strong>隐含波动率:</strong> {(Math.sqrt(marketConfig.sigma2) * 100).toFixed(2)}%
+                  <strong>隐含波动率:</strong> {formatBarrierVol(marketConfig, barrierPrice, spotPrice)}
                 </p>
                 <p style={{ margin: '5px 0' }}>
-                  <strong>到期时间:</strong> {(marketConfig.epochDurationSecs * marketConfig.settleDelayEpochs / 3600).toFixed(2)} 小时
+                  <strong>剩余期限:</strong> {formatDuration(timeRemainingSecs(marketConfig, quotePricingOptions.entryOffsetSecs))}
                 </p>
+                <p style={{ margin: '5px 0' }}>
+                  <strong>定价模型:</strong> {MODEL_LABELS[pricingModel]}
+                </p>
+                <p style={{ margin: '5px 0' }}>
+                  <strong>价差加成:</strong>{' '}
+                  {current.markup.markupBps === null ? '-' : `${current.markup.markupBps.toFixed(1)} bps`}
+                  {' '}(价差 {current.markup.spreadPremium.toFixed(6)} / 闭式解 {current.markup.closedFormPremium.toFixed(6)})
+                </p>
+              </div>
+
+              <FeeBreakdown quote={current.quote} accent="#1b5e20" background="#c8e6c9" />
+
+              {/* Greeks */}
+              <div style={{ marginTop: '15px', padding: '15px', backgroundColor: '#c8e6c9', borderRadius: '6px' }}>
+                <div style={{ fontSize: '14px', color: '#2e7d32', fontWeight: 600, marginBottom: '10px' }}>
+                  Greeks
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '10px' }}>
+                  {(Object.keys(GREEK_LABELS) as GreekKey[]).map((key) => (
+                    <div key={key}>
+                      <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>{GREEK_LABELS[key]}</div>
+                      <div style={{ fontSize: '16px', fontWeight: 'bold', color: '#1b5e20' }}>
+                        {formatGreek(current.greeks[key])}
+                      </div>
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
+          )) : mode === 'odds' ? (!oddsResult ? (
+            <GuardNotice rejections={quoteRejections} />
           ) : (
             /* Odds 模式：显示反推的 K 值 */
             <div style={{ 
@@ -415,8 +1125,27 @@ export const PremiumSimulator: React.FC = () => {
                 </div>
               </div>
 
+              {oddsResult.solve.status !== 'converged' && (
+                <div style={{
+                  marginTop: '15px',
+                  padding: '12px 15px',
+                  backgroundColor: '#ffe3e3',
+                  border: '1px solid #fa5252',
+                  borderRadius: '6px',
+                  color: '#c92a2a',
+                  fontSize: '14px',
+                }}>
+                  ⚠️ {oddsResult.solve.status === 'oddsTooLow'
+                    ? `赔率过低：当前配置可达的最低赔率为 ${formatOdds(oddsResult.minOdds)}`
+                    : `赔率过高：当前配置可达的最高赔率为 ${formatOdds(oddsResult.maxOdds)}`}
+                  。下方为最接近目标的障碍价格。
+                </div>
+              )}
+
               <div style={{ marginTop: '20px', padding: '15px', backgroundColor: '#ffe0b2', borderRadius: '6px' }}>
-                <div style={{ fontSize: '14px', color: '#666', marginBottom: '5px' }}>推荐障碍价格 (K)</div>
+                <div style={{ fontSize: '14px', color: '#666', marginBottom: '5px' }}>
+                  {oddsResult.solve.status === 'converged' ? '推荐障碍价格 (K)' : '最接近的障碍价格 (K)'}
+                </div>
                 <div style={{ fontSize: '32px', fontWeight: 'bold', color: '#bf360c' }}>
                   ${oddsResult ? oddsResult.barrier.toFixed(2) : '-'}
                 </div>
@@ -429,6 +1158,10 @@ export const PremiumSimulator: React.FC = () => {
                 </div>
               </div>
 
+              {oddsResult && (
+                <FeeBreakdown quote={oddsResult.quote} accent="#bf360c" background="#ffe0b2" />
+              )}
+
               <div style={{ fontSize: '14px', color: '#555', marginTop: '15px' }}>
                 <p style={{ margin: '5px 0' }}>
                   <strong>方向:</strong> {side === Side.Long ? 'Long (看涨)' : 'Short (看跌)'}
@@ -437,13 +1170,31 @@ export const PremiumSimulator: React.FC = () => {
                   <strong>当前现货:</strong> ${spotPrice.toFixed(2)}
                 </p>
                 <p style={{ margin: '5px 0' }}>
-                  <strong>隐含波动率:</strong> {(Math.sqrt(marketConfig.sigma2) * 100).toFixed(2)}%
+                  <strong>隐含波动率:</strong> {formatBarrierVol(marketConfig, oddsResult.barrier, spotPrice)}
+                </p>
+                <p style={{ margin: '5px 0' }}>
+                  <strong>剩余期限:</strong> {formatDuration(timeRemainingSecs(marketConfig, quotePricingOptions.entryOffsetSecs))}
                 </p>
                 <p style={{ margin: '5px 0' }}>
-                  <strong>到期时间:</strong> {(marketConfig.epochDurationSecs * marketConfig.settleDelayEpochs / 3600).toFixed(2)} 小时
+                  <strong>可达赔率范围:</strong> {formatOdds(oddsResult.minOdds)} ~ {formatOdds(oddsResult.maxOdds)}
+                  {solveNetOdds ? ' (含费)' : ''}
+                </p>
+                <p style={{ margin: '5px 0' }}>
+                  <strong>求解:</strong> {oddsResult.solve.iterations} 次迭代，残差 {oddsResult.solve.residual.toExponential(2)}
                 </p>
               </div>
             </div>
+          )) : null}
+
+          {mode === 'odds' && oddsResult && (
+            <div style={{ marginBottom: '20px' }}>
+              <OddsLadderPanel
+                marketConfig={marketConfig}
+                pricingOptions={quotePricingOptions}
+                spotPrice={spotPrice}
+                netOfFee={solveNetOdds}
+              />
+            </div>
           )}
 
           {/* 图表 */}
@@ -465,46 +1216,197 @@ export const PremiumSimulator: React.FC = () => {
                   tickFormatter={(value) => value.toFixed(0)}
                 />
                 <YAxis 
+                  yAxisId="premium"
                   label={{ value: '权利金 (Premium)', angle: -90, position: 'insideLeft' }}
                   tickFormatter={(value) => value.toFixed(4)}
                 />
+                {chartGreek !== 'none' && !chartSpec && (
+                  <YAxis
+                    yAxisId="greek"
+                    orientation="right"
+                    label={{ value: GREEK_LABELS[chartGreek], angle: 90, position: 'insideRight' }}
+                    tickFormatter={(value) => formatGreek(value)}
+                  />
+                )}
                 <Tooltip 
-                  formatter={(value: number) => value.toFixed(6)}
+                  formatter={(value: number) => formatGreek(value)}
                   labelFormatter={(label) => `现货价格: $${Number(label).toFixed(2)}`}
                 />
                 <Legend />
                 <ReferenceLine 
-                  x={barrierPrice} 
+                  yAxisId="premium"
+                  x={legLower} 
                   stroke="#ff6b6b" 
                   strokeDasharray="5 5" 
-                  label={{ value: '障碍价格', position: 'top', fill: '#ff6b6b' }}
+                  label={{ value: legUpper !== legLower ? '区间下沿' : '障碍价格', position: 'top', fill: '#ff6b6b' }}
                 />
+                {legUpper !== legLower && (
+                  <ReferenceLine
+                    yAxisId="premium"
+                    x={legUpper}
+                    stroke="#ff6b6b"
+                    strokeDasharray="5 5"
+                    label={{ value: '区间上沿', position: 'top', fill: '#ff6b6b' }}
+                  />
+                )}
                 <ReferenceLine 
+                  yAxisId="premium"
                   x={spotPrice} 
                   stroke="#4dabf7" 
                   strokeDasharray="3 3" 
                   label={{ value: '当前现货', position: 'top', fill: '#4dabf7' }}
                 />
+                {chartSpec && (
+                  <Line
+                    yAxisId="premium"
+                    type="monotone"
+                    dataKey="productPremium"
+                    stroke="#7950f2"
+                    strokeWidth={2.5}
+                    name={PRODUCT_LABELS[chartSpec.type]}
+                    dot={false}
+                    activeDot={{ r: 6 }}
+                  />
+                )}
+                {chartSpec && (
+                  <Line
+                    yAxisId="premium"
+                    type="monotone"
+                    dataKey="complementPremium"
+                    stroke="#f08c00"
+                    strokeWidth={2}
+                    name={
+                      chartSpec.type === ProductType.Range ? '区间外 (Outside)'
+                      : PRODUCT_LABELS[chartSpec.type === ProductType.OneTouch ? ProductType.NoTouch : ProductType.OneTouch]
+                    }
+                    dot={false}
+                  />
+                )}
+                {/* 区间 / 触碰产品下显示为细虚线的组成腿 */}
                 <Line 
+                  yAxisId="premium"
                   type="monotone" 
                   dataKey="longPremium" 
                   stroke="#2ecc71" 
-                  strokeWidth={2}
-                  name="Long (看涨)" 
+                  strokeWidth={chartSpec ? 1 : 2}
+                  strokeDasharray={chartSpec ? '4 4' : undefined}
+                  name={chartSpec ? `Long @ ${legLower.toFixed(2)}` : 'Long (看涨)'} 
                   dot={false}
                   activeDot={{ r: 6 }}
                 />
                 <Line 
+                  yAxisId="premium"
                   type="monotone" 
                   dataKey="shortPremium" 
                   stroke="#e74c3c" 
-                  strokeWidth={2}
-                  name="Short (看跌)" 
+                  strokeWidth={chartSpec ? 1 : 2}
+                  strokeDasharray={chartSpec ? '4 4' : undefined}
+                  name={chartSpec ? `Short @ ${legUpper.toFixed(2)}` : 'Short (看跌)'} 
                   dot={false}
                   activeDot={{ r: 6 }}
                 />
+                {(chartSpec ? [] : activeVariants).flatMap((v) => {
+                  const color = VARIANT_COLORS[v.index % VARIANT_COLORS.length];
+                  return [
+                    <Line
+                      key={`${v.id}-long`}
+                      yAxisId="premium"
+                      type="monotone"
+                      dataKey={(p: ChartDataPoint) => p.variantPremiums?.[v.id]?.long}
+                      stroke={color}
+                      strokeWidth={1.5}
+                      strokeDasharray="6 3"
+                      name={`${v.name} Long`}
+                      dot={false}
+                    />,
+                    <Line
+                      key={`${v.id}-short`}
+                      yAxisId="premium"
+                      type="monotone"
+                      dataKey={(p: ChartDataPoint) => p.variantPremiums?.[v.id]?.short}
+                      stroke={color}
+                      strokeWidth={1.5}
+                      strokeDasharray="2 3"
+                      name={`${v.name} Short`}
+                      dot={false}
+                    />,
+                  ];
+                })}
+                {compareModels && !chartSpec && (
+                  <Line
+                    yAxisId="premium"
+                    type="monotone"
+                    dataKey="longAltPremium"
+                    stroke="#2ecc71"
+                    strokeWidth={2}
+                    strokeDasharray="2 4"
+                    name={`Long ${MODEL_LABELS[altModel]}`}
+                    dot={false}
+                  />
+                )}
+                {compareModels && !chartSpec && (
+                  <Line
+                    yAxisId="premium"
+                    type="monotone"
+                    dataKey="shortAltPremium"
+                    stroke="#e74c3c"
+                    strokeWidth={2}
+                    strokeDasharray="2 4"
+                    name={`Short ${MODEL_LABELS[altModel]}`}
+                    dot={false}
+                  />
+                )}
+                {chartGreek !== 'none' && !chartSpec && (
+                  <Line
+                    yAxisId="greek"
+                    type="monotone"
+                    dataKey="longGreek"
+                    stroke="#2ecc71"
+                    strokeWidth={1.5}
+                    strokeDasharray="6 3"
+                    name={`Long ${GREEK_LABELS[chartGreek]}`}
+                    dot={false}
+                  />
+                )}
+                {chartGreek !== 'none' && !chartSpec && (
+                  <Line
+                    yAxisId="greek"
+                    type="monotone"
+                    dataKey="shortGreek"
+                    stroke="#e74c3c"
+                    strokeWidth={1.5}
+                    strokeDasharray="6 3"
+                    name={`Short ${GREEK_LABELS[chartGreek]}`}
+                    dot={false}
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
+
+            {/* 价差加成 */}
+            {compareModels && !chartSpec && (
+              <>
+                <h3 style={{ fontSize: '15px', color: '#555', margin: '20px 0 10px' }}>
+                  价差加成 (Spread − 闭式解) / Spread，单位 bps
+                </h3>
+                <ResponsiveContainer width="100%" height={220}>
+                  <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                    <XAxis dataKey="spotPrice" tickFormatter={(value) => value.toFixed(0)} />
+                    <YAxis tickFormatter={(value) => Number(value).toFixed(0)} />
+                    <Tooltip
+                      formatter={(value: number) => `${value.toFixed(1)} bps`}
+                      labelFormatter={(label) => `现货价格: $${Number(label).toFixed(2)}`}
+                    />
+                    <Legend />
+                    <ReferenceLine x={barrierPrice} stroke="#ff6b6b" strokeDasharray="5 5" />
+                    <ReferenceLine y={0} stroke="#333" strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="longMarkupBps" stroke="#2ecc71" strokeWidth={2} name="Long 加成" dot={false} />
+                    <Line type="monotone" dataKey="shortMarkupBps" stroke="#e74c3c" strokeWidth={2} name="Short 加成" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </>
+            )}
           </div>
 
           {/* 说明文字 */}
@@ -520,114 +1422,321 @@ export const PremiumSimulator: React.FC = () => {
             <ul style={{ marginTop: '10px', paddingLeft: '20px' }}>
               <li><strong>绿色曲线</strong>: Long (看涨) 期权权利金，现货价格越高，价值越大</li>
               <li><strong>红色曲线</strong>: Short (看跌) 期权权利金，现货价格越低，价值越大</li>
-              <li><strong>红色虚线</strong>: 障碍价格（执行价格）</li>
+              <li><strong>红色虚线</strong>: 障碍价格（执行价格）；区间产品为区间上下沿</li>
+              <li><strong>紫色 / 橙色曲线</strong>: 区间或触碰产品及其互补产品（区间外、相反触碰类型）的权利金，绿 / 红细虚线为组成腿</li>
               <li><strong>蓝色虚线</strong>: 当前现货价格</li>
+              <li><strong>细虚线</strong>: 所选 Greek（右侧坐标轴），基于当前定价模型的数值差分</li>
+              <li><strong>点线</strong>: 勾选“叠加两种定价模型”时显示另一模型的权利金</li>
               <li>权利金代表期权的理论价格，基于 Black-Scholes 数字期权模型计算</li>
             </ul>
           </div>
         </div>
       </div>
+
+      {/* 多配置对比 */}
+      <div style={{ marginTop: '30px' }}>
+        <ConfigVariantsPanel
+          marketConfig={marketConfig}
+          pricingOptions={quotePricingOptions}
+          spotPrice={spotPrice}
+          barrierPrice={mode === 'odds' && oddsResult ? oddsResult.barrier : barrierPrice}
+          odds={odds}
+          netOfFee={solveNetOdds}
+          variants={variants}
+          onChange={setVariants}
+          baselineId={baselineId}
+          onBaselineChange={setBaselineId}
+        />
+      </div>
+
+      {/* 时间衰减回放 */}
+      {pricingRejections.length === 0 && (
+        <div style={{ marginTop: '30px' }}>
+          <TimeDecayPanel
+            marketConfig={marketConfig}
+            pricingOptions={quotePricingOptions}
+            spotPrice={spotPrice}
+            barrierPrice={mode === 'odds' && oddsResult ? oddsResult.barrier : barrierPrice}
+            rangePercent={rangePercent}
+            dataPoints={dataPoints}
+          />
+        </div>
+      )}
+
+      {/* 权利金曲面热力图 */}
+      {pricingRejections.length === 0 && (
+        <div style={{ marginTop: '30px' }}>
+          <PremiumSurfacePanel
+            marketConfig={marketConfig}
+            pricingOptions={quotePricingOptions}
+            spotPrice={spotPrice}
+            barrierPrice={mode === 'odds' && oddsResult ? oddsResult.barrier : barrierPrice}
+            side={side}
+          />
+        </div>
+      )}
+
+      {/* CDF 精度诊断 */}
+      {pricingRejections.length === 0 && (
+        <div style={{ marginTop: '30px' }}>
+          <CdfDiagnostics
+            marketConfig={marketConfig}
+            pricingOptions={quotePricingOptions}
+            barrierPrice={barrierPrice}
+            rangePercent={rangePercent}
+            dataPoints={dataPoints}
+          />
+        </div>
+      )}
+
+      {/* 定点数定价对比 */}
+      {pricingRejections.length === 0 && spotPrice > 0 && barrierPrice > 0 && (
+        <div style={{ marginTop: '30px' }}>
+          <FixedPointPanel
+            marketConfig={marketConfig}
+            pricingOptions={quotePricingOptions}
+            spotPrice={spotPrice}
+            barrierPrice={barrierPrice}
+            side={side}
+            stake={stake}
+            rangePercent={rangePercent}
+            dataPoints={dataPoints}
+          />
+        </div>
+      )}
+
+      {/* 波动率微笑 */}
+      <div style={{ marginTop: '30px' }}>
+        <VolSmileEditor
+          marketConfig={marketConfig}
+          spotPrice={spotPrice}
+          barrierPrice={barrierPrice}
+          onChange={(volSmile) => updateMarketConfig('volSmile', volSmile)}
+        />
+      </div>
+
+      {/* EWMA 波动率估计 */}
+      <div style={{ marginTop: '30px' }}>
+        <VolatilityEstimator
+          marketConfig={marketConfig}
+          onApply={(update) => setMarketConfig((prev) => ({ ...prev, ...update }))}
+        />
+      </div>
+
+      {/* 链上 MarketAccount 数据导入 / 导出 */}
+      <div style={{ marginTop: '30px' }}>
+        <AccountImportPanel
+          marketConfig={marketConfig}
+          onApply={(market) => setMarketConfig((prev) => ({ ...market, volSmile: prev.volSmile }))}
+        />
+      </div>
     </div>
   );
 };
 
-// 计算 Premium 的核心函数（从 index.ts 移植）
-function calcPremium(
-  s: number, 
-  b: number, 
-  side: Side, 
-  marketAccount: MarketAccount
-): number {
-  const iv = Math.sqrt(Math.max(marketAccount.sigma2, 0));
-  const timeYears =
-    (marketAccount.epochDurationSecs * marketAccount.settleDelayEpochs) /
-    SECONDS_PER_YEAR;
-
-  if (side === Side.Long) {
-    return digitalCallPrice(
-      {
-        spot: s,
-        barrier: b,
-        timeYears,
-        vegaBuffer: marketAccount.vegaBuffer,
-        volatility: iv,
-      },
-      marketAccount.callLambda
-    );
-  } else {
-    return digitalPutPrice(
-      {
-        spot: s,
-        barrier: b,
-        timeYears,
-        vegaBuffer: marketAccount.vegaBuffer,
-        volatility: iv,
-      },
-      marketAccount.putLambda
-    );
-  }
+// Greek 数值格式化（数量级差异大，使用有效数字）
+function formatGreek(value: number): string {
+  if (!Number.isFinite(value)) return '-';
+  if (value === 0) return '0';
+  return Math.abs(value) >= 1e-3 && Math.abs(value) < 1e4
+    ? value.toFixed(6)
+    : value.toExponential(3);
 }
 
-// 二分法求解器：根据 Premium 反推 Barrier (K) 值
-function solveForBarrier(
-  targetPremium: number,
-  spot: number,
-  side: Side,
-  marketConfig: MarketAccount,
-  tolerance: number = 1e-6,
-  maxIterations: number = 100
-): number {
-  // 设置搜索范围
-  let kMin = side === Side.Long ? spot * 1.001 : spot * 0.01;
-  let kMax = side === Side.Long ? spot * 3.0 : spot * 0.999;
-  
-  let iterations = 0;
-  
-  // 二分法迭代
-  while (kMax - kMin > tolerance && iterations < maxIterations) {
-    const kMid = (kMin + kMax) / 2;
-    const premium = calcPremium(spot, kMid, side, marketConfig);
-    
-    if (side === Side.Long) {
-      // Call: premium 随 K 增大而减小
-      if (premium > targetPremium) {
-        kMin = kMid;
-      } else {
-        kMax = kMid;
-      }
-    } else {
-      // Put: premium 随 K 增大而增大（K 接近 S 时 premium 更大）
-      if (premium > targetPremium) {
-        kMax = kMid;
-      } else {
-        kMin = kMid;
-      }
-    }
-    
-    iterations++;
-  }
-  
-  return (kMin + kMax) / 2;
+// 障碍价处的隐含波动率（有微笑时按行权价查询）
+function formatBarrierVol(market: MarketAccount, barrier: number, spot: number): string {
+  if (!market.volSmile) return `${(Math.sqrt(market.sigma2) * 100).toFixed(2)}%`;
+  return `${(smileVolatility(market.volSmile, barrier, spot) * 100).toFixed(2)}% (微笑)`;
 }
 
-// 输入框样式
-const inputStyle: React.CSSProperties = {
-  width: '100%',
-  padding: '8px 12px',
-  border: '1px solid #ddd',
-  borderRadius: '4px',
-  fontSize: '14px',
-  boxSizing: 'border-box',
-};
+// 时长格式化（秒 / 分钟 / 小时）
+function formatDuration(secs: number): string {
+  if (secs < 120) return `${secs.toFixed(0)} 秒`;
+  if (secs < 7200) return `${(secs / 60).toFixed(1)} 分钟`;
+  return `${(secs / 3600).toFixed(2)} 小时`;
+}
 
-// Tab 按钮样式
-const tabButtonStyle: React.CSSProperties = {
-  padding: '12px 30px',
-  border: 'none',
-  borderRadius: '8px',
-  fontSize: '16px',
-  cursor: 'pointer',
-  transition: 'all 0.3s ease',
-  boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+// 赔率格式化（权利金趋于 0 时赔率无上限）
+function formatOdds(odds: number): string {
+  return Number.isFinite(odds) ? `${odds.toFixed(2)}X` : '∞';
+}
+
+// 手续费报价明细
+const FeeBreakdown: React.FC<{
+  quote: FeeQuote;
+  accent: string;
+  background: string;
+}> = ({ quote, accent, background }) => {
+  const items = [
+    { label: '公平概率', value: quote.fairProbability.toFixed(6) },
+    { label: '含费权利金', value: quote.premium.toFixed(6) },
+    { label: '净赔率', value: Number.isFinite(quote.netOdds) ? `${quote.netOdds.toFixed(2)}X` : '-' },
+    { label: '庄家优势', value: `${quote.houseEdgeBps.toFixed(1)} bps` },
+  ];
+
+  return (
+    <div style={{ marginTop: '15px', padding: '15px', backgroundColor: background, borderRadius: '6px' }}>
+      <div style={{ fontSize: '14px', color: accent, fontWeight: 600, marginBottom: '10px' }}>
+        报价明细 (含手续费)
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '10px' }}>
+        {items.map((item) => (
+          <div key={item.label}>
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>{item.label}</div>
+            <div style={{ fontSize: '16px', fontWeight: 'bold', color: accent }}>{item.value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
 };
 
+// 区间 / 触碰产品的报价结果（solve 仅 Odds 模式）
+interface ProductResult {
+  spec: ProductSpec;
+  premium: number;
+  quote: FeeQuote;
+  solve: {
+    targetPremium: number; // 1 / odds
+    status: BarrierSolveStatus;
+    iterations: number;
+    residual: number;
+    minOdds: number;
+    maxOdds: number;
+  } | null;
+}
+
+// 支付条件说明
+function describePayout(spec: ProductSpec): string {
+  switch (spec.type) {
+    case ProductType.Digital:
+      return spec.side === Side.Long ? `到期价格高于 $${spec.barrier.toFixed(2)}` : `到期价格低于 $${spec.barrier.toFixed(2)}`;
+    case ProductType.Range:
+      return `到期价格位于 $${spec.lower.toFixed(2)} ~ $${spec.upper.toFixed(2)} 之间`;
+    case ProductType.OneTouch:
+      return `到期前任意时刻触及 $${spec.barrier.toFixed(2)}`;
+    case ProductType.NoTouch:
+      return `到期前始终未触及 $${spec.barrier.toFixed(2)}`;
+  }
+}
+
+// 区间 / 触碰产品结果卡片
+const ProductResultCard: React.FC<{
+  result: ProductResult;
+  odds: number;
+  spotPrice: number;
+  remainingSecs: number;
+  model: PricingModel;
+  netOfFee: boolean;
+}> = ({ result, odds, spotPrice, remainingSecs, model, netOfFee }) => {
+  const { spec, solve } = result;
+  const percentFrom = (price: number) => ((price / spotPrice) - 1) * 100;
+  const invalidRange = spec.type === ProductType.Range && !(spec.upper > spec.lower);
+
+  return (
+    <div style={{
+      backgroundColor: '#f3f0ff',
+      padding: '20px',
+      borderRadius: '8px',
+      marginBottom: '20px',
+      boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+    }}>
+      <h2 style={{ marginTop: 0, fontSize: '18px', color: '#5f3dc4' }}>
+        {solve
+          ? `🎲 根据 Odds 反推${spec.type === ProductType.Range ? '区间宽度' : '触碰障碍'}`
+          : '💰 当前权利金 (Premium)'}
+        {' · '}{PRODUCT_LABELS[spec.type]}
+      </h2>
+
+      {solve ? (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px', marginTop: '15px' }}>
+          <div>
+            <div style={{ fontSize: '14px', color: '#666', marginBottom: '5px' }}>赔率 (Odds)</div>
+            <div style={{ fontSize: '28px', fontWeight: 'bold', color: '#7048e8' }}>{odds.toFixed(2)}X</div>
+          </div>
+          <div>
+            <div style={{ fontSize: '14px', color: '#666', marginBottom: '5px' }}>权利金 (Premium)</div>
+            <div style={{ fontSize: '28px', fontWeight: 'bold', color: '#7048e8' }}>{solve.targetPremium.toFixed(6)}</div>
+          </div>
+        </div>
+      ) : (
+        <div style={{ fontSize: '36px', fontWeight: 'bold', color: '#5f3dc4', margin: '10px 0' }}>
+          {result.premium.toFixed(6)}
+        </div>
+      )}
+
+      {invalidRange && (
+        <div style={{ marginTop: '15px', padding: '12px 15px', backgroundColor: '#ffe3e3', border: '1px solid #fa5252', borderRadius: '6px', color: '#c92a2a', fontSize: '14px' }}>
+          ⚠️ 区间上沿必须高于下沿，当前区间权利金为 0
+        </div>
+      )}
+
+      {solve && solve.status !== 'converged' && (
+        <div style={{ marginTop: '15px', padding: '12px 15px', backgroundColor: '#ffe3e3', border: '1px solid #fa5252', borderRadius: '6px', color: '#c92a2a', fontSize: '14px' }}>
+          ⚠️ {solve.status === 'oddsTooLow'
+            ? `赔率过低：当前配置可达的最低赔率为 ${formatOdds(solve.minOdds)}`
+            : `赔率过高：当前配置可达的最高赔率为 ${formatOdds(solve.maxOdds)}`}
+          。下方为最接近目标的{spec.type === ProductType.Range ? '区间' : '障碍价格'}。
+        </div>
+      )}
+
+      {solve && (
+        <div style={{ marginTop: '20px', padding: '15px', backgroundColor: '#e5dbff', borderRadius: '6px' }}>
+          {spec.type === ProductType.Range ? (
+            <>
+              <div style={{ fontSize: '14px', color: '#666', marginBottom: '5px' }}>
+                {solve.status === 'converged' ? '推荐区间' : '最接近的区间'}
+              </div>
+              <div style={{ fontSize: '32px', fontWeight: 'bold', color: '#5f3dc4' }}>
+                ${spec.lower.toFixed(2)} ~ ${spec.upper.toFixed(2)}
+              </div>
+              <div style={{ fontSize: '18px', color: '#7048e8', marginTop: '8px' }}>
+                现货 ±{(spec.upper - spotPrice).toFixed(4)} (±{percentFrom(spec.upper).toFixed(3)}%)
+              </div>
+            </>
+          ) : spec.type !== ProductType.Digital && (
+            <>
+              <div style={{ fontSize: '14px', color: '#666', marginBottom: '5px' }}>
+                {solve.status === 'converged' ? '推荐触碰障碍' : '最接近的触碰障碍'}
+              </div>
+              <div style={{ fontSize: '32px', fontWeight: 'bold', color: '#5f3dc4' }}>
+                ${spec.barrier.toFixed(2)}
+              </div>
+              <div style={{ fontSize: '18px', color: '#7048e8', marginTop: '8px' }}>
+                距现货 {percentFrom(spec.barrier) > 0 ? '+' : ''}{percentFrom(spec.barrier).toFixed(3)}%
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <FeeBreakdown quote={result.quote} accent="#5f3dc4" background="#e5dbff" />
+
+      <div style={{ fontSize: '14px', color: '#555', marginTop: '15px' }}>
+        <p style={{ margin: '5px 0' }}>
+          <strong>支付条件:</strong> {describePayout(spec)}
+        </p>
+        <p style={{ margin: '5px 0' }}>
+          <strong>现货价格:</strong> ${spotPrice.toFixed(2)}
+        </p>
+        <p style={{ margin: '5px 0' }}>
+          <strong>剩余期限:</strong> {formatDuration(remainingSecs)}
+        </p>
+        <p style={{ margin: '5px 0' }}>
+          <strong>定价模型:</strong> {MODEL_LABELS[model]}
+        </p>
+        {solve && (
+          <>
+            <p style={{ margin: '5px 0' }}>
+              <strong>可达赔率范围:</strong> {formatOdds(solve.minOdds)} ~ {formatOdds(solve.maxOdds)}
+              {netOfFee ? ' (含费)' : ''}
+            </p>
+            <p style={{ margin: '5px 0' }}>
+              <strong>求解:</strong> {solve.iterations} 次迭代，残差 {solve.residual.toExponential(2)}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+import React, { useState, useMemo } from 'react';
+import {
+  buildPremiumSurface,
+  axisBaseValue,
+  SurfaceAxis,
+  SurfaceAxisRange,
+} from './premium-surface';
+import { PricingOptions } from './pricing';
+import { MarketAccount, Side } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+} from './styles';
+
+interface PremiumSurfacePanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+  barrierPrice: number;
+  side: Side;
+}
+
+// 坐标轴显示名称
+const AXIS_LABELS: Record<SurfaceAxis, string> = {
+  spot: '现货价格 (Spot)',
+  barrier: '障碍价格 (Barrier)',
+  epochs: '到期时间 (周期数)',
+  sigma: '波动率 σ (%)',
+  vegaBuffer: 'Vega Buffer',
+};
+
+// 默认与最大网格点数（每轴）
+const DEFAULT_STEPS = 25;
+const MAX_STEPS = 100;
+
+// 热力图尺寸（SVG 坐标）
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 400;
+const MARGIN = { top: 10, right: 10, bottom: 40, left: 70 };
+
+// 以当前配置为中心的默认范围
+function defaultRange(
+  axis: SurfaceAxis,
+  spot: number,
+  barrier: number,
+  market: MarketAccount
+): SurfaceAxisRange {
+  const base = axisBaseValue(axis, spot, barrier, market);
+  switch (axis) {
+    case 'spot':
+    case 'barrier':
+      return { axis, min: base * 0.99, max: base * 1.01, steps: DEFAULT_STEPS };
+    case 'epochs':
+      return { axis, min: 1, max: Math.max(base * 4, 10), steps: DEFAULT_STEPS };
+    case 'sigma':
+      return base > 0
+        ? { axis, min: base * 0.25, max: base * 2, steps: DEFAULT_STEPS }
+        : { axis, min: 0.05, max: 1, steps: DEFAULT_STEPS };
+    case 'vegaBuffer':
+      return { axis, min: 0, max: Math.max(base * 3, 0.1), steps: DEFAULT_STEPS };
+  }
+}
+
+// 坐标值格式化（σ 以百分比显示）
+function formatAxisValue(axis: SurfaceAxis, value: number): string {
+  switch (axis) {
+    case 'spot':
+    case 'barrier':
+    case 'epochs':
+      return value.toFixed(2);
+    case 'sigma':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'vegaBuffer':
+      return value.toFixed(4);
+  }
+}
+
+// 权利金颜色：由浅到深的蓝色
+function premiumColor(t: number): string {
+  const clamped = Number.isFinite(t) ? Math.min(Math.max(t, 0), 1) : 0;
+  const from = [241, 248, 255];
+  const to = [24, 100, 171];
+  const [r, g, b] = from.map((c, i) => Math.round(c + (to[i] - c) * clamped));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+// 二维权利金热力图：任选两个参数作为坐标轴
+export const PremiumSurfacePanel: React.FC<PremiumSurfacePanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+  barrierPrice,
+  side: initialSide,
+}) => {
+  const [side, setSide] = useState<Side>(initialSide);
+  const [xRange, setXRange] = useState<SurfaceAxisRange>(() =>
+    defaultRange('epochs', spotPrice, barrierPrice, marketConfig)
+  );
+  const [yRange, setYRange] = useState<SurfaceAxisRange>(() =>
+    defaultRange('sigma', spotPrice, barrierPrice, marketConfig)
+  );
+  const [hovered, setHovered] = useState<{ xi: number; yi: number } | null>(null);
+
+  const surface = useMemo(() => {
+    if (!(spotPrice > 0) || !(barrierPrice > 0)) return null;
+    return buildPremiumSurface(spotPrice, barrierPrice, side, marketConfig, xRange, yRange, pricingOptions);
+  }, [spotPrice, barrierPrice, side, marketConfig, xRange, yRange, pricingOptions]);
+
+  // 切换坐标轴时按当前配置重置范围
+  const changeAxis = (
+    setRange: React.Dispatch<React.SetStateAction<SurfaceAxisRange>>,
+    axis: SurfaceAxis
+  ) => {
+    setRange(defaultRange(axis, spotPrice, barrierPrice, marketConfig));
+    setHovered(null);
+  };
+
+  const resetRanges = () => {
+    setXRange(defaultRange(xRange.axis, spotPrice, barrierPrice, marketConfig));
+    setYRange(defaultRange(yRange.axis, spotPrice, barrierPrice, marketConfig));
+    setHovered(null);
+  };
+
+  const renderAxisControls = (
+    title: string,
+    range: SurfaceAxisRange,
+    setRange: React.Dispatch<React.SetStateAction<SurfaceAxisRange>>,
+    otherAxis: SurfaceAxis
+  ) => (
+    <div>
+      <label style={labelStyle}>{title}</label>
+      <select
+        value={range.axis}
+        onChange={(e) => changeAxis(setRange, e.target.value as SurfaceAxis)}
+        style={inputStyle}
+      >
+        {(Object.keys(AXIS_LABELS) as SurfaceAxis[]).map((axis) => (
+          <option key={axis} value={axis} disabled={axis === otherAxis}>
+            {AXIS_LABELS[axis]}
+          </option>
+        ))}
+      </select>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px', marginTop: '8px' }}>
+        {(['min', 'max', 'steps'] as const).map((key) => (
+          <div key={key}>
+            <small style={{ color: '#666' }}>
+              {key === 'min' ? '最小值' : key === 'max' ? '最大值' : '点数'}
+            </small>
+            <input
+              type="number"
+              value={range[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                setRange((prev) => ({ ...prev, [key]: key === 'steps' ? Math.min(value, MAX_STEPS) : value }));
+              }}
+              style={inputStyle}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const premiumSpan = surface ? surface.maxPremium - surface.minPremium : 0;
+  // 网格缩小后悬停位置可能越界
+  const hoveredValue =
+    surface && hovered && hovered.xi < surface.x.length && hovered.yi < surface.y.length
+      ? {
+          x: surface.x[hovered.xi],
+          y: surface.y[hovered.yi],
+          premium: surface.premiums[hovered.yi][hovered.xi],
+        }
+      : null;
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🗺️ 权利金曲面热力图</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '20px', marginBottom: '15px' }}>
+        {renderAxisControls('横轴 (X)', xRange, setXRange, yRange.axis)}
+        {renderAxisControls('纵轴 (Y)', yRange, setYRange, xRange.axis)}
+        <div>
+          <label style={labelStyle}>方向 (Side)</label>
+          <select
+            value={side}
+            onChange={(e) => setSide(Number(e.target.value) as Side)}
+            style={inputStyle}
+          >
+            <option value={Side.Long}>Long (看涨)</option>
+            <option value={Side.Short}>Short (看跌)</option>
+          </select>
+          <button style={{ ...actionButtonStyle, marginTop: '15px' }} onClick={resetRanges}>
+            🔄 按当前配置重置范围
+          </button>
+        </div>
+      </div>
+
+      {marketConfig.volSmile && (xRange.axis === 'sigma' || yRange.axis === 'sigma' || xRange.axis === 'vegaBuffer' || yRange.axis === 'vegaBuffer') && (
+        <small style={{ display: 'block', color: '#c92a2a', marginBottom: '10px' }}>
+          已启用波动率微笑：价差构造的 IV 取自微笑，σ / Vega Buffer 坐标轴不影响结果
+        </small>
+      )}
+
+      <div style={{ fontSize: '14px', color: '#333', minHeight: '20px', marginBottom: '8px' }}>
+        {hoveredValue ? (
+          <>
+            {AXIS_LABELS[xRange.axis]}: <strong>{formatAxisValue(xRange.axis, hoveredValue.x)}</strong>
+            {'，'}
+            {AXIS_LABELS[yRange.axis]}: <strong>{formatAxisValue(yRange.axis, hoveredValue.y)}</strong>
+            {'，'}
+            权利金: <strong>{hoveredValue.premium.toFixed(6)}</strong>
+          </>
+        ) : (
+          <span style={{ color: '#999' }}>将鼠标悬停在单元格上查看精确数值</span>
+        )}
+      </div>
+
+      {surface && (
+        <div style={{ display: 'flex', gap: '15px', alignItems: 'stretch' }}>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            style={{ width: '100%', maxWidth: `${CHART_WIDTH * 1.5}px` }}
+            onMouseLeave={() => setHovered(null)}
+          >
+            <g transform={`translate(${MARGIN.left}, ${MARGIN.top})`}>
+              {surface.premiums.map((row, yi) =>
+                row.map((premium, xi) => {
+                  const w = plotWidth / surface.x.length;
+                  const h = plotHeight / surface.y.length;
+                  const isHovered = hovered?.xi === xi && hovered?.yi === yi;
+                  return (
+                    <rect
+                      key={`${xi}-${yi}`}
+                      x={xi * w}
+                      // 纵轴向上递增
+                      y={plotHeight - (yi + 1) * h}
+                      width={w + 0.5}
+                      height={h + 0.5}
+                      fill={premiumColor(premiumSpan > 0 ? (premium - surface.minPremium) / premiumSpan : 0.5)}
+                      stroke={isHovered ? '#ff6b6b' : 'none'}
+                      strokeWidth={isHovered ? 2 : 0}
+                      onMouseEnter={() => setHovered({ xi, yi })}
+                    />
+                  );
+                })
+              )}
+
+              {/* 坐标轴刻度（首、中、尾） */}
+              {[0, Math.floor((surface.x.length - 1) / 2), surface.x.length - 1].map((xi) => (
+                <text
+                  key={`x-${xi}`}
+                  x={((xi + 0.5) * plotWidth) / surface.x.length}
+                  y={plotHeight + 16}
+                  fontSize="11"
+                  textAnchor="middle"
+                  fill="#555"
+                >
+                  {formatAxisValue(xRange.axis, surface.x[xi])}
+                </text>
+              ))}
+              {[0, Math.floor((surface.y.length - 1) / 2), surface.y.length - 1].map((yi) => (
+                <text
+                  key={`y-${yi}`}
+                  x={-6}
+                  y={plotHeight - ((yi + 0.5) * plotHeight) / surface.y.length + 4}
+                  fontSize="11"
+                  textAnchor="end"
+                  fill="#555"
+                >
+                  {formatAxisValue(yRange.axis, surface.y[yi])}
+                </text>
+              ))}
+              <text x={plotWidth / 2} y={plotHeight + 34} fontSize="12" textAnchor="middle" fill="#333">
+                {AXIS_LABELS[xRange.axis]}
+              </text>
+            </g>
+          </svg>
+
+          {/* 颜色图例 */}
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', fontSize: '12px', color: '#555' }}>
+            <span>{surface.maxPremium.toFixed(4)}</span>
+            <div
+              style={{
+                flex: 1,
+                width: '16px',
+                margin: '4px 0',
+                background: `linear-gradient(to bottom, ${premiumColor(1)}, ${premiumColor(0)})`,
+                border: '1px solid #ddd',
+              }}
+            />
+            <span>{surface.minPremium.toFixed(4)}</span>
+            <span style={{ marginTop: '6px', writingMode: 'vertical-rl' }}>{AXIS_LABELS[yRange.axis]} ↑</span>
+          </div>
+        </div>
+      )}
+
+      <small style={{ display: 'block', marginTop: '10px', color: '#666' }}>
+        到期时间 = 周期数 × epochDurationSecs（当前 {marketConfig.epochDurationSecs} 秒），其余参数取当前配置
+      </small>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  createWebSocketPriceFeed,
+  feedIdToHex,
+  normalizeFeedId,
+  PriceFeedStatus,
+  PriceUpdate,
+} from './price-feed';
+import { MarketAccount } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+} from './styles';
+
+interface PriceFeedPanelProps {
+  marketConfig: MarketAccount;
+  priceAgeSecs: number; // 距 lastTs 的秒数（实时模式下每秒刷新）
+  stale: boolean;
+  onPrice: (update: PriceUpdate) => void;
+  onLiveChange: (live: boolean) => void;
+}
+
+// 本地 mock 服务默认地址（npm run mock-feed）
+const DEFAULT_FEED_URL = 'ws://localhost:8787';
+
+// 连接状态显示
+const STATUS_LABELS: Record<PriceFeedStatus, { text: string; color: string }> = {
+  connecting: { text: '连接中…', color: '#f08c00' },
+  open: { text: '已连接', color: '#2b8a3e' },
+  closed: { text: '已断开', color: '#868e96' },
+  error: { text: '错误', color: '#c92a2a' },
+};
+
+// 实时价格源：订阅 Pyth 风格 WebSocket 推送，现货价格跟随最新价
+export const PriceFeedPanel: React.FC<PriceFeedPanelProps> = ({
+  marketConfig,
+  priceAgeSecs,
+  stale,
+  onPrice,
+  onLiveChange,
+}) => {
+  const [url, setUrl] = useState<string>(DEFAULT_FEED_URL);
+  const [feedId, setFeedId] = useState<string>(feedIdToHex(marketConfig.feedId));
+  const [status, setStatus] = useState<PriceFeedStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [last, setLast] = useState<PriceUpdate | null>(null);
+  const [updateCount, setUpdateCount] = useState<number>(0);
+  const [live, setLive] = useState<boolean>(false);
+  const disconnectRef = useRef<(() => void) | null>(null);
+
+  // 回调可能随父组件渲染变化，通过 ref 读取最新值
+  const onPriceRef = useRef(onPrice);
+  onPriceRef.current = onPrice;
+
+  // 卸载时断开连接
+  useEffect(() => () => disconnectRef.current?.(), []);
+
+  const connect = () => {
+    const id = normalizeFeedId(feedId);
+    const feed = createWebSocketPriceFeed({ url, feedIds: id ? [id] : [] });
+    setError(null);
+    setUpdateCount(0);
+    disconnectRef.current = feed.connect({
+      onPrice: (update) => {
+        setLast(update);
+        setUpdateCount((n) => n + 1);
+        onPriceRef.current(update);
+      },
+      onStatus: (next, message) => {
+        setStatus(next);
+        if (message) setError(message);
+        if (next === 'open') setError(null);
+      },
+    });
+    setLive(true);
+    onLiveChange(true);
+  };
+
+  const disconnect = () => {
+    disconnectRef.current?.();
+    disconnectRef.current = null;
+    setLive(false);
+    onLiveChange(false);
+  };
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={{ ...panelTitleStyle, display: 'flex', alignItems: 'center', gap: '10px' }}>
+        📡 实时价格源
+        {live && (
+          <span
+            style={{
+              fontSize: '12px',
+              padding: '2px 8px',
+              borderRadius: '10px',
+              color: '#fff',
+              backgroundColor: stale ? '#e03131' : '#2b8a3e',
+            }}
+          >
+            {stale ? `价格过期 (${priceAgeSecs}s > ${marketConfig.stalenessMaxSec}s)` : '实时'}
+          </span>
+        )}
+      </h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr auto', gap: '15px', alignItems: 'end' }}>
+        <div>
+          <label style={labelStyle}>WebSocket 地址</label>
+          <input type="text" value={url} onChange={(e) => setUrl(e.target.value)} disabled={live} style={inputStyle} />
+        </div>
+        <div>
+          <label style={labelStyle}>Feed ID (hex，留空使用服务端默认)</label>
+          <input
+            type="text"
+            value={feedId}
+            onChange={(e) => setFeedId(e.target.value)}
+            disabled={live}
+            style={{ ...inputStyle, fontFamily: 'monospace' }}
+          />
+        </div>
+        {live ? (
+          <button style={{ ...actionButtonStyle, backgroundColor: '#fa5252' }} onClick={disconnect}>
+            断开
+          </button>
+        ) : (
+          <button style={actionButtonStyle} onClick={connect}>
+            连接
+          </button>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '30px', marginTop: '15px', fontSize: '14px', color: '#555', flexWrap: 'wrap' }}>
+        <span>
+          状态:{' '}
+          <strong style={{ color: status ? STATUS_LABELS[status].color : '#868e96' }}>
+            {status ? STATUS_LABELS[status].text : '未连接'}
+          </strong>
+        </span>
+        {last && (
+          <>
+            <span>最新价格: <strong>${last.price.toFixed(4)}</strong> (±{last.conf.toFixed(4)})</span>
+            <span>发布时间: {new Date(last.publishTime * 1000).toLocaleTimeString()}</span>
+            <span>更新次数: {updateCount}</span>
+          </>
+        )}
+      </div>
+      {error && <div style={{ marginTop: '10px', fontSize: '13px', color: '#c92a2a' }}>⚠️ {error}</div>}
+      <small style={{ display: 'block', color: '#666', marginTop: '10px' }}>
+        连接后现货价格与 lastPrice / lastTs 跟随推送更新；价格超过最大时效 (stalenessMaxSec) 未更新时停止报价
+      </small>
+    </div>
+  );
+};
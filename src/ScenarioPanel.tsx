@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import {
+  parseScenario,
+  scenarioToDocument,
+  scenarioToJson,
+  encodeScenarioParam,
+  decodeScenarioParam,
+  Scenario,
+} from './scenario';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+} from './styles';
+
+interface ScenarioPanelProps {
+  scenario: Scenario; // 当前页面状态（name 由本面板填写）
+  onLoad: (scenario: Scenario) => void;
+}
+
+// localStorage 键与 URL hash 参数名
+const STORAGE_KEY = 'premium-simulator:scenarios';
+const HASH_PARAM = 'scenario';
+
+// 读取本地保存的场景（无效条目跳过）
+function readStoredScenarios(): Scenario[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const docs: unknown = JSON.parse(raw);
+    if (!Array.isArray(docs)) return [];
+    return docs.flatMap((doc) => {
+      try {
+        return [parseScenario(doc)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+function writeStoredScenarios(scenarios: Scenario[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios.map(scenarioToDocument)));
+}
+
+// 从 URL hash 读取场景参数
+function readHashParam(): string | null {
+  return new URLSearchParams(window.location.hash.slice(1)).get(HASH_PARAM);
+}
+
+// 场景：保存到 localStorage、导入 / 导出 JSON、URL 分享
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ scenario, onLoad }) => {
+  const [name, setName] = useState<string>('');
+  const [saved, setSaved] = useState<Scenario[]>(readStoredScenarios);
+  const [selected, setSelected] = useState<string>('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const load = (next: Scenario, source: string) => {
+    onLoad(next);
+    setName(next.name);
+    setMessage({ text: `已载入${source}${next.name ? `「${next.name}」` : ''}`, error: false });
+  };
+
+  const fail = (prefix: string, err: unknown) => {
+    setMessage({ text: `${prefix}：${err instanceof Error ? err.message : String(err)}`, error: true });
+  };
+
+  // 打开分享链接时恢复场景；同一页面粘贴新链接时也会触发
+  useEffect(() => {
+    const restoreFromHash = () => {
+      const param = readHashParam();
+      if (param === null) return;
+      try {
+        load(decodeScenarioParam(param), '分享链接');
+      } catch (err) {
+        fail('分享链接无效', err);
+      }
+    };
+    restoreFromHash();
+    window.addEventListener('hashchange', restoreFromHash);
+    return () => window.removeEventListener('hashchange', restoreFromHash);
+  }, []);
+
+  const named = (): Scenario => ({ ...scenario, name: name.trim() });
+
+  const handleSave = () => {
+    const current = named();
+    if (!current.name) {
+      setMessage({ text: '请先填写场景名称', error: true });
+      return;
+    }
+    // 同名覆盖
+    const next = [...saved.filter((s) => s.name !== current.name), current];
+    try {
+      writeStoredScenarios(next);
+    } catch (err) {
+      fail('保存失败', err);
+      return;
+    }
+    setSaved(next);
+    setSelected(current.name);
+    setMessage({ text: `已保存「${current.name}」`, error: false });
+  };
+
+  const handleLoadSaved = () => {
+    const preset = saved.find((s) => s.name === selected);
+    if (preset) load(preset, '本地场景');
+  };
+
+  const handleDelete = () => {
+    const next = saved.filter((s) => s.name !== selected);
+    writeStoredScenarios(next);
+    setSaved(next);
+    setMessage({ text: `已删除「${selected}」`, error: false });
+    setSelected('');
+  };
+
+  const handleExport = () => {
+    const current = named();
+    const url = URL.createObjectURL(new Blob([scenarioToJson(current)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${current.name || 'scenario'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(
+      (text) => {
+        try {
+          load(parseScenario(JSON.parse(text)), ' JSON 文件');
+        } catch (err) {
+          fail('导入失败', err);
+        }
+      },
+      (err) => fail('读取文件失败', err)
+    );
+  };
+
+  const handleShare = () => {
+    const params = new URLSearchParams({ [HASH_PARAM]: encodeScenarioParam(named()) });
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}#${params}`;
+    // replaceState 不触发 hashchange，避免重新载入当前场景
+    window.history.replaceState(null, '', url);
+    navigator.clipboard.writeText(url).then(
+      () => setMessage({ text: '分享链接已复制到剪贴板', error: false }),
+      () => setMessage({ text: '分享链接已写入地址栏（复制到剪贴板失败）', error: false })
+    );
+  };
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🗂️ 场景</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px' }}>
+        <div>
+          <label style={labelStyle}>场景名称</label>
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="例如：BTC 5 分钟高波动"
+              style={inputStyle}
+            />
+            <button style={actionButtonStyle} onClick={handleSave}>💾 保存</button>
+          </div>
+          <div style={{ display: 'flex', gap: '10px', marginTop: '10px', flexWrap: 'wrap' }}>
+            <button style={actionButtonStyle} onClick={handleExport}>⬇️ 导出 JSON</button>
+            <label style={{ ...actionButtonStyle, display: 'inline-block' }}>
+              📂 导入 JSON
+              <input type="file" accept=".json,application/json" onChange={handleImport} style={{ display: 'none' }} />
+            </label>
+            <button style={{ ...actionButtonStyle, backgroundColor: '#7950f2' }} onClick={handleShare}>
+              🔗 复制分享链接
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label style={labelStyle}>本地保存的场景 ({saved.length})</label>
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <select value={selected} onChange={(e) => setSelected(e.target.value)} style={inputStyle}>
+              <option value="">选择场景…</option>
+              {saved.map((s) => (
+                <option key={s.name} value={s.name}>{s.name}</option>
+              ))}
+            </select>
+            <button style={actionButtonStyle} onClick={handleLoadSaved} disabled={!selected}>
+              载入
+            </button>
+            <button
+              style={{ ...actionButtonStyle, backgroundColor: '#fa5252' }}
+              onClick={handleDelete}
+              disabled={!selected}
+            >
+              删除
+            </button>
+          </div>
+          <small style={{ display: 'block', color: '#666', marginTop: '10px' }}>
+            场景包含模式、现货、障碍价、赔率、方向、完整市场配置、定价选项与图表设置
+          </small>
+        </div>
+      </div>
+
+      {message && (
+        <div style={{ marginTop: '10px', fontSize: '13px', color: message.error ? '#c92a2a' : '#2b8a3e' }}>
+          {message.error ? '⚠️' : '✅'} {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,9 @@
+import React from 'react';
+
+// 统计指标卡片
+export const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div style={{ backgroundColor: '#f8f9fa', padding: '12px', borderRadius: '6px' }}>
+    <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>{label}</div>
+    <div style={{ fontSize: '18px', fontWeight: 'bold', color: '#333' }}>{value}</div>
+  </div>
+);
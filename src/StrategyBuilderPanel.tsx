@@ -0,0 +1,387 @@
+import React, { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { SECONDS_PER_YEAR } from './black-scholes';
+import { timeRemainingSecs, PricingOptions } from './pricing';
+import {
+  buildStrategyTemplate,
+  quoteStrategy,
+  strategyCurve,
+  strategyMarkToModel,
+  strategySettlementRange,
+  SettlementZone,
+  StrategyLeg,
+  StrategyTemplate,
+  STRATEGY_TEMPLATES,
+} from './strategy';
+import { MarketAccount, PayoutMethod, Side } from './types';
+import { StatCard } from './StatCard';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+  tableCellStyle,
+} from './styles';
+
+interface StrategyBuilderPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions;
+  spotPrice: number;
+}
+
+// 预设模板显示名称
+const TEMPLATE_LABELS: Record<StrategyTemplate, string> = {
+  strangle: '数字宽跨 (Strangle)',
+  corridor: '区间走廊 (Corridor)',
+  longLadder: 'Long 阶梯 (Ladder)',
+  shortLadder: 'Short 阶梯 (Ladder)',
+};
+
+// 多腿策略：组合多个数字期权，显示总权利金、到期收益图与按模型估值的盈亏曲线
+export const StrategyBuilderPanel: React.FC<StrategyBuilderPanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+}) => {
+  // 模板参数
+  const [template, setTemplate] = useState<StrategyTemplate>('strangle');
+  const [widthStdDevs, setWidthStdDevs] = useState<number>(1);
+  const [rungs, setRungs] = useState<number>(3);
+  const [stake, setStake] = useState<number>(100);
+  const [payoutMethod, setPayoutMethod] = useState<PayoutMethod>(PayoutMethod.CashOrNothing);
+
+  const [legs, setLegs] = useState<StrategyLeg[]>(() =>
+    buildStrategyTemplate('strangle', spotPrice, marketConfig, pricingOptions)
+  );
+
+  // 图表范围（σ√T 倍数）与估值时点（入场后经过的秒数）
+  const [rangeStdDevs, setRangeStdDevs] = useState<number>(4);
+  const [markElapsedSecs, setMarkElapsedSecs] = useState<number>(0);
+
+  const remainingSecs = timeRemainingSecs(marketConfig, pricingOptions.entryOffsetSecs);
+  const markPricing = useMemo<PricingOptions>(
+    () => ({
+      ...pricingOptions,
+      entryOffsetSecs:
+        (pricingOptions.entryOffsetSecs ?? 0) + Math.min(Math.max(markElapsedSecs, 0), remainingSecs),
+    }),
+    [pricingOptions, markElapsedSecs, remainingSecs]
+  );
+
+  const applyTemplate = () => {
+    setLegs(
+      buildStrategyTemplate(template, spotPrice, marketConfig, {
+        ...pricingOptions,
+        stake,
+        payoutMethod,
+        widthStdDevs,
+        rungs,
+      })
+    );
+  };
+
+  const addLeg = () => {
+    const id = legs.reduce((max, leg) => Math.max(max, leg.id + 1), 0);
+    setLegs([...legs, { id, side: Side.Long, barrier: spotPrice, stake, payoutMethod }]);
+  };
+
+  const updateLeg = <K extends keyof StrategyLeg>(id: number, key: K, value: StrategyLeg[K]) => {
+    setLegs((prev) => prev.map((leg) => (leg.id === id ? { ...leg, [key]: value } : leg)));
+  };
+
+  // 障碍价或下注额非正的腿不参与报价
+  const validLegs = useMemo(() => legs.filter((leg) => leg.barrier > 0 && leg.stake > 0), [legs]);
+
+  const quote = useMemo(
+    () => quoteStrategy(validLegs, spotPrice, marketConfig, pricingOptions),
+    [validLegs, spotPrice, marketConfig, pricingOptions]
+  );
+  const settlement = useMemo(() => strategySettlementRange(quote), [quote]);
+  const markAtSpot = useMemo(
+    () => strategyMarkToModel(quote, spotPrice, marketConfig, markPricing),
+    [quote, spotPrice, marketConfig, markPricing]
+  );
+
+  // 图表范围：现货 ±Z·σ√T，并覆盖所有障碍价
+  const curve = useMemo(() => {
+    const stdDev = Math.max(
+      Math.sqrt(Math.max(marketConfig.sigma2, 0) * (remainingSecs / SECONDS_PER_YEAR)),
+      1e-4
+    );
+    const barriers = validLegs.map((leg) => leg.barrier);
+    const lo = Math.min(spotPrice * Math.exp(-rangeStdDevs * stdDev), ...barriers);
+    const hi = Math.max(spotPrice * Math.exp(rangeStdDevs * stdDev), ...barriers);
+    const pad = (hi - lo) * 0.05;
+    return strategyCurve(quote, marketConfig, markPricing, lo - pad, hi + pad, 200);
+  }, [quote, marketConfig, markPricing, remainingSecs, rangeStdDevs, validLegs, spotPrice]);
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🧩 多腿策略组合</h2>
+
+      {/* 预设模板 */}
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr 1fr 1.5fr auto', gap: '15px', alignItems: 'end' }}>
+        <div>
+          <label style={labelStyle}>预设模板</label>
+          <select
+            value={template}
+            onChange={(e) => setTemplate(e.target.value as StrategyTemplate)}
+            style={inputStyle}
+          >
+            {STRATEGY_TEMPLATES.map((t) => (
+              <option key={t} value={t}>{TEMPLATE_LABELS[t]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>间距 (σ√T)</label>
+          <input
+            type="number"
+            step="0.1"
+            value={widthStdDevs}
+            onChange={(e) => setWidthStdDevs(Number(e.target.value))}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>阶梯档数</label>
+          <input
+            type="number"
+            min="1"
+            value={rungs}
+            onChange={(e) => setRungs(Number(e.target.value))}
+            disabled={template !== 'longLadder' && template !== 'shortLadder'}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>每腿下注额</label>
+          <input
+            type="number"
+            value={stake}
+            onChange={(e) => setStake(Number(e.target.value))}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>赔付方式</label>
+          <select
+            value={payoutMethod}
+            onChange={(e) => setPayoutMethod(Number(e.target.value) as PayoutMethod)}
+            style={inputStyle}
+          >
+            <option value={PayoutMethod.CashOrNothing}>Cash-or-Nothing</option>
+            <option value={PayoutMethod.OddsBased}>Odds-Based</option>
+          </select>
+        </div>
+        <button style={{ ...actionButtonStyle, padding: '10px' }} onClick={applyTemplate}>
+          生成
+        </button>
+      </div>
+      <small style={{ display: 'block', margin: '8px 0', color: '#666' }}>
+        障碍价 = 现货 × e^(±k·σ√T)，阶梯第 i 档为 k·i；生成会替换当前所有腿
+      </small>
+
+      {/* 腿列表 */}
+      <div style={{ maxHeight: '300px', overflowY: 'auto', marginTop: '15px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              {['方向', '障碍价', '下注额', '赔付方式', '公平价格', '成本', '获胜赔付', ''].map((h) => (
+                <th key={h} style={{ ...tableCellStyle, position: 'sticky', top: 0, backgroundColor: '#f8f9fa' }}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {legs.map((leg) => {
+              const legQuote = quote.legs.find((q) => q.leg.id === leg.id);
+              return (
+                <tr key={leg.id}>
+                  <td style={tableCellStyle}>
+                    <select
+                      value={leg.side}
+                      onChange={(e) => updateLeg(leg.id, 'side', Number(e.target.value) as Side)}
+                      style={{ ...inputStyle, padding: '4px 6px' }}
+                    >
+                      <option value={Side.Long}>Long</option>
+                      <option value={Side.Short}>Short</option>
+                    </select>
+                  </td>
+                  <td style={tableCellStyle}>
+                    <input
+                      type="number"
+                      value={leg.barrier}
+                      onChange={(e) => updateLeg(leg.id, 'barrier', Number(e.target.value))}
+                      style={{ ...inputStyle, padding: '4px 6px' }}
+                    />
+                  </td>
+                  <td style={tableCellStyle}>
+                    <input
+                      type="number"
+                      value={leg.stake}
+                      onChange={(e) => updateLeg(leg.id, 'stake', Number(e.target.value))}
+                      style={{ ...inputStyle, padding: '4px 6px' }}
+                    />
+                  </td>
+                  <td style={tableCellStyle}>
+                    <select
+                      value={leg.payoutMethod}
+                      onChange={(e) => updateLeg(leg.id, 'payoutMethod', Number(e.target.value) as PayoutMethod)}
+                      style={{ ...inputStyle, padding: '4px 6px' }}
+                    >
+                      <option value={PayoutMethod.CashOrNothing}>Cash-or-Nothing</option>
+                      <option value={PayoutMethod.OddsBased}>Odds-Based</option>
+                    </select>
+                  </td>
+                  <td style={tableCellStyle}>{legQuote ? legQuote.fairPrice.toFixed(6) : '无效'}</td>
+                  <td style={tableCellStyle}>{legQuote ? legQuote.cost.toFixed(4) : '-'}</td>
+                  <td style={tableCellStyle}>{legQuote ? legQuote.payoutIfWon.toFixed(4) : '-'}</td>
+                  <td style={tableCellStyle}>
+                    <button
+                      style={{ ...actionButtonStyle, backgroundColor: '#fa5252', padding: '4px 10px' }}
+                      onClick={() => setLegs((prev) => prev.filter((l) => l.id !== leg.id))}
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {legs.length === 0 && (
+              <tr>
+                <td colSpan={8} style={{ ...tableCellStyle, textAlign: 'center', color: '#999' }}>暂无策略腿</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ marginTop: '10px' }}>
+        <button style={actionButtonStyle} onClick={addLeg}>
+          ➕ 添加腿
+        </button>
+        {validLegs.length < legs.length && (
+          <span style={{ marginLeft: '15px', fontSize: '13px', color: '#c92a2a' }}>
+            ⚠️ {legs.length - validLegs.length} 条腿的障碍价或下注额非正，未计入
+          </span>
+        )}
+      </div>
+
+      {/* 汇总 */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '15px', marginTop: '20px' }}>
+        <StatCard label="总权利金 (成本)" value={quote.totalCost.toFixed(4)} />
+        <StatCard label="全部获胜赔付" value={quote.maxPayout.toFixed(4)} />
+        <StatCard
+          label="到期最大盈利"
+          value={settlement ? `${settlement.maxProfit.toFixed(2)} (${formatZone(settlement.maxProfitZone)})` : '-'}
+        />
+        <StatCard
+          label="到期最大亏损"
+          value={settlement ? `${settlement.maxLoss.toFixed(2)} (${formatZone(settlement.maxLossZone)})` : '-'}
+        />
+        <StatCard label="当前现货估值盈亏" value={markAtSpot.toFixed(4)} />
+      </div>
+
+      {/* 收益图 */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '20px 0 10px', gap: '15px', flexWrap: 'wrap' }}>
+        <h3 style={{ fontSize: '15px', color: '#555', margin: 0 }}>📈 盈亏 vs 现货价格</h3>
+        <div style={{ display: 'flex', gap: '15px', alignItems: 'center', fontSize: '13px', color: '#555' }}>
+          <label>
+            估值时点 (入场后秒数){' '}
+            <input
+              type="number"
+              min="0"
+              max={remainingSecs}
+              value={markElapsedSecs}
+              onChange={(e) => setMarkElapsedSecs(Number(e.target.value))}
+              style={{ ...inputStyle, width: '90px' }}
+            />
+          </label>
+          <label>
+            价格范围 (±σ√T){' '}
+            <input
+              type="number"
+              value={rangeStdDevs}
+              onChange={(e) => setRangeStdDevs(Number(e.target.value))}
+              style={{ ...inputStyle, width: '70px' }}
+            />
+          </label>
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={380}>
+        <LineChart data={curve} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis
+            dataKey="spot"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            label={{ value: '现货 / 结算价格', position: 'insideBottom', offset: -5 }}
+            tickFormatter={(value) => Number(value).toFixed(2)}
+          />
+          <YAxis
+            label={{ value: '盈亏 (P&L)', angle: -90, position: 'insideLeft' }}
+            tickFormatter={(value) => Number(value).toFixed(0)}
+          />
+          <Tooltip
+            formatter={(value: number) => value.toFixed(4)}
+            labelFormatter={(label) => `价格: $${Number(label).toFixed(4)}`}
+          />
+          <Legend />
+          <ReferenceLine y={0} stroke="#333" strokeDasharray="3 3" />
+          {validLegs.map((leg) => (
+            <ReferenceLine
+              key={leg.id}
+              x={leg.barrier}
+              stroke={leg.side === Side.Long ? '#2ecc71' : '#e74c3c'}
+              strokeDasharray="2 4"
+            />
+          ))}
+          <ReferenceLine
+            x={spotPrice}
+            stroke="#4dabf7"
+            strokeDasharray="3 3"
+            label={{ value: '当前现货', position: 'top', fill: '#4dabf7' }}
+          />
+          <Line
+            type="linear"
+            dataKey="payoff"
+            stroke="#7950f2"
+            strokeWidth={2}
+            name="到期收益"
+            dot={false}
+            activeDot={{ r: 6 }}
+          />
+          <Line
+            type="monotone"
+            dataKey="markToModel"
+            stroke="#f08c00"
+            strokeWidth={2}
+            name={`模型估值盈亏 (剩余 ${Math.max(remainingSecs - markElapsedSecs, 0).toFixed(0)} 秒)`}
+            dot={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+      <small style={{ display: 'block', color: '#666', marginTop: '8px' }}>
+        各腿在当前现货按 calcPremium 报价；到期收益 = 获胜腿赔付 − 总成本，模型估值 = Σ 获胜赔付 × calcPremium − 总成本（不含平仓手续费）
+      </small>
+    </div>
+  );
+};
+
+// 结算价区间格式化
+function formatZone(zone: SettlementZone): string {
+  if (zone.low === zone.high) return `= ${zone.low.toFixed(2)}`;
+  if (zone.low === 0) return `< ${zone.high.toFixed(2)}`;
+  if (zone.high === Infinity) return `> ${zone.low.toFixed(2)}`;
+  return `${zone.low.toFixed(2)} ~ ${zone.high.toFixed(2)}`;
+}
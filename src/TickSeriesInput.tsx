@@ -0,0 +1,74 @@
+import React from 'react';
+import { SECONDS_PER_YEAR } from './black-scholes';
+import { inputStyle, labelStyle, actionButtonStyle } from './styles';
+
+interface TickSeriesInputProps {
+  value: string;
+  onChange: (text: string) => void;
+  sampleSigma: number; // 示例数据使用的年化波动率
+  sampleIntervalSecs?: number;
+  sampleCount?: number;
+}
+
+// 生成示例 tick 序列（几何随机游走）
+export function generateSampleTicks(
+  count: number,
+  sigma: number,
+  intervalSecs: number
+): string {
+  const start = Math.floor(Date.now() / 1000) - count * intervalSecs;
+  const stepStd = sigma * Math.sqrt(intervalSecs / SECONDS_PER_YEAR);
+  let price = 100;
+  const lines = ['timestamp,price'];
+
+  for (let i = 0; i < count; i++) {
+    // Box-Muller
+    const u = 1 - Math.random();
+    const v = Math.random();
+    const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    price *= Math.exp(stepStd * z - 0.5 * stepStd * stepStd);
+    lines.push(`${start + i * intervalSecs},${price.toFixed(4)}`);
+  }
+
+  return lines.join('\n');
+}
+
+// 价格序列输入：粘贴、加载 CSV 文件或生成示例数据
+export const TickSeriesInput: React.FC<TickSeriesInputProps> = ({
+  value,
+  onChange,
+  sampleSigma,
+  sampleIntervalSecs = 10,
+  sampleCount = 500,
+}) => {
+  // 读取本地 CSV 文件
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => onChange(String(reader.result ?? ''));
+    reader.readAsText(file);
+  };
+
+  return (
+    <div>
+      <label style={labelStyle}>价格序列 (timestamp,price)</label>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'1700000000,100.00\n1700000010,100.05\n...'}
+        rows={10}
+        style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }}
+      />
+      <div style={{ display: 'flex', gap: '10px', marginTop: '10px', alignItems: 'center' }}>
+        <input type="file" accept=".csv,.txt" onChange={handleFile} />
+        <button
+          style={{ ...actionButtonStyle, backgroundColor: '#868e96' }}
+          onClick={() => onChange(generateSampleTicks(sampleCount, sampleSigma, sampleIntervalSecs))}
+        >
+          示例数据
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { calcPremium, timeRemainingSecs, PricingOptions } from './pricing';
+import { MarketAccount, Side } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+} from './styles';
+
+interface TimeDecayPanelProps {
+  marketConfig: MarketAccount;
+  pricingOptions: PricingOptions; // 含入场偏移
+  spotPrice: number;
+  barrierPrice: number;
+  rangePercent: number;
+  dataPoints: number;
+}
+
+// 回放帧数（从入场到结算）与帧间隔
+const PLAYBACK_FRAMES = 120;
+const FRAME_INTERVAL_MS = 100;
+
+// 回放速度倍数
+const SPEED_OPTIONS = [0.5, 1, 2, 4];
+
+// 时间衰减：回放权利金曲线直至结算，并绘制当前现货下权利金 vs 剩余时间
+export const TimeDecayPanel: React.FC<TimeDecayPanelProps> = ({
+  marketConfig,
+  pricingOptions,
+  spotPrice,
+  barrierPrice,
+  rangePercent,
+  dataPoints,
+}) => {
+  const fullSecs = Math.max(marketConfig.epochDurationSecs * marketConfig.settleDelayEpochs, 0);
+  const entryOffset = pricingOptions.entryOffsetSecs ?? 0;
+
+  // 回放位置：距周期开始的秒数（null 表示停留在入场时刻）
+  const [playbackOffset, setPlaybackOffset] = useState<number | null>(null);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(1);
+
+  const offset = Math.min(Math.max(playbackOffset ?? entryOffset, entryOffset), fullSecs);
+  const remaining = timeRemainingSecs(marketConfig, offset);
+
+  // 配置或入场偏移变化时回到入场时刻
+  useEffect(() => {
+    setPlaying(false);
+    setPlaybackOffset(null);
+  }, [fullSecs, entryOffset]);
+
+  // 回放计时器：到达结算时停止
+  useEffect(() => {
+    if (!playing) return;
+    const step = ((fullSecs - entryOffset) / PLAYBACK_FRAMES) * speed;
+    const timer = setInterval(() => {
+      setPlaybackOffset((prev) => Math.min((prev ?? entryOffset) + step, fullSecs));
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [playing, speed, fullSecs, entryOffset]);
+
+  useEffect(() => {
+    if (playing && offset >= fullSecs) setPlaying(false);
+  }, [playing, offset, fullSecs]);
+
+  const handlePlay = () => {
+    // 已到结算时从入场时刻重新开始
+    if (offset >= fullSecs) setPlaybackOffset(entryOffset);
+    setPlaying(true);
+  };
+
+  const handleReset = () => {
+    setPlaying(false);
+    setPlaybackOffset(null);
+  };
+
+  // 回放时刻的权利金曲线（与主图表相同的现货范围）
+  const curve = useMemo(() => {
+    if (!(barrierPrice > 0) || dataPoints < 2) return [];
+    const options: PricingOptions = { ...pricingOptions, entryOffsetSecs: offset };
+    const minSpot = barrierPrice * (1 - rangePercent / 100);
+    const maxSpot = barrierPrice * (1 + rangePercent / 100);
+    const step = (maxSpot - minSpot) / (dataPoints - 1);
+
+    return Array.from({ length: dataPoints }, (_, i) => {
+      const spot = minSpot + step * i;
+      return {
+        spotPrice: spot,
+        longPremium: calcPremium(spot, barrierPrice, Side.Long, marketConfig, options),
+        shortPremium: calcPremium(spot, barrierPrice, Side.Short, marketConfig, options),
+      };
+    });
+  }, [marketConfig, pricingOptions, offset, barrierPrice, rangePercent, dataPoints]);
+
+  // 当前现货下权利金 vs 剩余时间（从入场到结算）
+  const decay = useMemo(() => {
+    if (!(spotPrice > 0) || !(barrierPrice > 0) || dataPoints < 2) return [];
+    const step = (fullSecs - entryOffset) / (dataPoints - 1);
+
+    return Array.from({ length: dataPoints }, (_, i) => {
+      const options: PricingOptions = { ...pricingOptions, entryOffsetSecs: entryOffset + step * i };
+      return {
+        remainingSecs: timeRemainingSecs(marketConfig, options.entryOffsetSecs),
+        longPremium: calcPremium(spotPrice, barrierPrice, Side.Long, marketConfig, options),
+        shortPremium: calcPremium(spotPrice, barrierPrice, Side.Short, marketConfig, options),
+      };
+    });
+  }, [marketConfig, pricingOptions, fullSecs, entryOffset, spotPrice, barrierPrice, dataPoints]);
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>⏳ 时间衰减回放</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'auto auto 1fr 160px', gap: '15px', alignItems: 'end', marginBottom: '15px' }}>
+        <button
+          style={{ ...actionButtonStyle, backgroundColor: playing ? '#fab005' : '#40c057' }}
+          onClick={playing ? () => setPlaying(false) : handlePlay}
+          disabled={fullSecs <= entryOffset}
+        >
+          {playing ? '⏸️ 暂停' : '▶️ 播放'}
+        </button>
+        <button style={actionButtonStyle} onClick={handleReset}>
+          ⏮️ 回到入场
+        </button>
+        <div>
+          <label style={labelStyle}>
+            距周期开始 {offset.toFixed(1)} 秒，剩余 {remaining.toFixed(1)} 秒
+          </label>
+          <input
+            type="range"
+            min={entryOffset}
+            max={fullSecs}
+            step={Math.max((fullSecs - entryOffset) / PLAYBACK_FRAMES, 1e-3)}
+            value={offset}
+            onChange={(e) => {
+              setPlaying(false);
+              setPlaybackOffset(Number(e.target.value));
+            }}
+            style={{ width: '100%' }}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>速度</label>
+          <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} style={inputStyle}>
+            {SPEED_OPTIONS.map((s) => (
+              <option key={s} value={s}>{s}×</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px' }}>
+        <div>
+          <h3 style={{ fontSize: '15px', color: '#555', margin: '0 0 10px' }}>权利金 vs 现货价格（回放时刻）</h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={curve} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis dataKey="spotPrice" tickFormatter={(value) => Number(value).toFixed(2)} />
+              {/* 纵轴至少为 [0, 1]，便于观察曲线随时间收敛 */}
+              <YAxis domain={[0, (dataMax: number) => Math.max(dataMax, 1)]} tickFormatter={(value) => Number(value).toFixed(2)} />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(6)}
+                labelFormatter={(label) => `现货价格: $${Number(label).toFixed(2)}`}
+              />
+              <Legend />
+              <ReferenceLine x={barrierPrice} stroke="#e74c3c" strokeDasharray="3 3" />
+              <ReferenceLine x={spotPrice} stroke="#4dabf7" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="longPremium" stroke="#2ecc71" strokeWidth={2} name="Long" dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="shortPremium" stroke="#e74c3c" strokeWidth={2} name="Short" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h3 style={{ fontSize: '15px', color: '#555', margin: '0 0 10px' }}>
+            权利金 vs 剩余时间（现货 ${spotPrice.toFixed(2)}）
+          </h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={decay} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              {/* 剩余时间从左到右递减至结算 */}
+              <XAxis
+                dataKey="remainingSecs"
+                type="number"
+                reversed
+                domain={[0, 'dataMax']}
+                tickFormatter={(value) => Number(value).toFixed(0)}
+                label={{ value: '剩余时间 (秒)', position: 'insideBottom', offset: -5 }}
+              />
+              <YAxis domain={[0, (dataMax: number) => Math.max(dataMax, 1)]} tickFormatter={(value) => Number(value).toFixed(2)} />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(6)}
+                labelFormatter={(label) => `剩余时间: ${Number(label).toFixed(1)} 秒`}
+              />
+              <Legend />
+              <ReferenceLine x={remaining} stroke="#7950f2" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="longPremium" stroke="#2ecc71" strokeWidth={2} name="Long" dot={false} />
+              <Line type="monotone" dataKey="shortPremium" stroke="#e74c3c" strokeWidth={2} name="Short" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import {
+  parseVolSmile,
+  smileCurve,
+  DEFAULT_SMILE_TABLE,
+  DEFAULT_SVI_SMILE,
+} from './vol-smile';
+import { MarketAccount, SviSmile, VolSmile } from './types';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+  tableCellStyle,
+} from './styles';
+
+interface VolSmileEditorProps {
+  marketConfig: MarketAccount;
+  spotPrice: number;
+  barrierPrice: number;
+  onChange: (smile: VolSmile | undefined) => void;
+}
+
+type SmileKind = 'flat' | VolSmile['kind'];
+
+// SVI 参数输入字段
+const SVI_FIELDS: { key: keyof Omit<SviSmile, 'kind'>; label: string; step: string }[] = [
+  { key: 'a', label: 'a (方差水平)', step: '0.01' },
+  { key: 'b', label: 'b (两翼斜率)', step: '0.05' },
+  { key: 'rho', label: 'ρ (偏斜)', step: '0.05' },
+  { key: 'm', label: 'm (平移)', step: '0.01' },
+  { key: 'sigma', label: 's (ATM 曲率)', step: '0.01' },
+];
+
+// 曲线采样点数
+const CURVE_POINTS = 81;
+
+export const VolSmileEditor: React.FC<VolSmileEditorProps> = ({
+  marketConfig,
+  spotPrice,
+  barrierPrice,
+  onChange,
+}) => {
+  const smile = marketConfig.volSmile;
+
+  // 编辑中的草稿（可能暂时无效，例如表格行未排序或重复）
+  const [draft, setDraft] = useState<VolSmile | undefined>(smile);
+  const [error, setError] = useState<string | null>(null);
+  const [rangePercent, setRangePercent] = useState<number>(5);
+
+  // 外部替换微笑（如载入配置）时同步草稿；自身提交的结果不覆盖草稿
+  const lastEmitted = useRef<VolSmile | undefined>(smile);
+  useEffect(() => {
+    if (smile !== lastEmitted.current) {
+      lastEmitted.current = smile;
+      setDraft(smile);
+      setError(null);
+    }
+  }, [smile]);
+
+  // 校验草稿并实时应用到市场配置
+  const updateDraft = (next: VolSmile | undefined) => {
+    setDraft(next);
+    if (next === undefined) {
+      setError(null);
+      lastEmitted.current = undefined;
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed = parseVolSmile(next);
+      setError(null);
+      lastEmitted.current = parsed;
+      onChange(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const changeKind = (kind: SmileKind) => {
+    if (kind === 'flat') updateDraft(undefined);
+    else if (kind === 'table') updateDraft(DEFAULT_SMILE_TABLE);
+    else updateDraft(DEFAULT_SVI_SMILE);
+  };
+
+  const updateTablePoint = (index: number, key: 'moneyness' | 'iv', value: number) => {
+    if (draft?.kind !== 'table') return;
+    const points = draft.points.map((p, i) => (i === index ? { ...p, [key]: value } : p));
+    updateDraft({ ...draft, points });
+  };
+
+  const addTablePoint = () => {
+    if (draft?.kind !== 'table') return;
+    const last = draft.points[draft.points.length - 1];
+    const point = last ? { moneyness: last.moneyness + 0.01, iv: last.iv } : { moneyness: 1, iv: 0.5 };
+    updateDraft({ ...draft, points: [...draft.points, point] });
+  };
+
+  const removeTablePoint = (index: number) => {
+    if (draft?.kind !== 'table') return;
+    updateDraft({ ...draft, points: draft.points.filter((_, i) => i !== index) });
+  };
+
+  // 微笑曲线与平坦 σ 对照
+  const flatVol = Math.sqrt(Math.max(marketConfig.sigma2, 0));
+  const curve = useMemo(() => {
+    if (!(spotPrice > 0)) return [];
+    const lo = 1 - rangePercent / 100;
+    const hi = 1 + rangePercent / 100;
+    const sampled = smile ? smileCurve(smile, spotPrice, lo, hi, CURVE_POINTS) : null;
+    return Array.from({ length: CURVE_POINTS }, (_, i) => ({
+      strike: spotPrice * (lo + ((hi - lo) * i) / (CURVE_POINTS - 1)),
+      iv: sampled ? sampled[i].iv * 100 : undefined,
+      flatIv: flatVol * 100,
+    }));
+  }, [smile, spotPrice, rangePercent, flatVol]);
+
+  // 价差构造使用的行权价
+  const callK1 = barrierPrice * marketConfig.callLambda;
+  const putK2 = barrierPrice * marketConfig.putLambda;
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>😊 波动率微笑 / 偏斜</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '20px' }}>
+        <div>
+          <label style={labelStyle}>微笑模型</label>
+          <select
+            value={draft?.kind ?? 'flat'}
+            onChange={(e) => changeKind(e.target.value as SmileKind)}
+            style={inputStyle}
+          >
+            <option value="flat">无 (平坦 σ ± Vega Buffer)</option>
+            <option value="table">插值表 (K/S → IV)</option>
+            <option value="svi">SVI 参数化</option>
+          </select>
+          <small style={{ color: '#666' }}>
+            启用后 K₁、K₂ 的 IV 取自微笑，不再使用 Vega Buffer
+          </small>
+
+          {draft?.kind === 'table' && (
+            <div style={{ marginTop: '15px' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    {['K/S', 'IV (%)', ''].map((h) => (
+                      <th key={h} style={{ ...tableCellStyle, backgroundColor: '#f8f9fa' }}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.points.map((p, i) => (
+                    <tr key={i}>
+                      <td style={tableCellStyle}>
+                        <input
+                          type="number"
+                          step="0.005"
+                          value={p.moneyness}
+                          onChange={(e) => updateTablePoint(i, 'moneyness', Number(e.target.value))}
+                          style={inputStyle}
+                        />
+                      </td>
+                      <td style={tableCellStyle}>
+                        <input
+                          type="number"
+                          step="1"
+                          value={Number((p.iv * 100).toFixed(6))}
+                          onChange={(e) => updateTablePoint(i, 'iv', Number(e.target.value) / 100)}
+                          style={inputStyle}
+                        />
+                      </td>
+                      <td style={tableCellStyle}>
+                        <button
+                          style={{ ...actionButtonStyle, backgroundColor: '#fa5252', padding: '4px 10px' }}
+                          onClick={() => removeTablePoint(i)}
+                        >
+                          删除
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button style={{ ...actionButtonStyle, marginTop: '10px' }} onClick={addTablePoint}>
+                ➕ 添加点
+              </button>
+            </div>
+          )}
+
+          {draft?.kind === 'svi' && (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginTop: '15px' }}>
+              {SVI_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label style={labelStyle}>{field.label}</label>
+                  <input
+                    type="number"
+                    step={field.step}
+                    value={draft[field.key]}
+                    onChange={(e) => updateDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                    style={inputStyle}
+                  />
+                </div>
+              ))}
+              <small style={{ gridColumn: 'span 2', color: '#666' }}>
+                σ²(k) = a + b·[ρ(k − m) + √((k − m)² + s²)]，k = ln(K/S)，年化方差
+              </small>
+            </div>
+          )}
+
+          {error && (
+            <div style={{ marginTop: '10px', color: '#c92a2a', fontSize: '13px' }}>
+              ⚠️ {error}（未应用）
+            </div>
+          )}
+
+          <div style={{ marginTop: '15px' }}>
+            <label style={labelStyle}>行权价范围 (±%)</label>
+            <input
+              type="number"
+              value={rangePercent}
+              onChange={(e) => setRangePercent(Number(e.target.value))}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+
+        <ResponsiveContainer width="100%" height={320}>
+          <LineChart data={curve} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+            <XAxis
+              dataKey="strike"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              label={{ value: '行权价 (Strike)', position: 'insideBottom', offset: -5 }}
+              tickFormatter={(value) => Number(value).toFixed(2)}
+            />
+            <YAxis
+              label={{ value: 'IV (%)', angle: -90, position: 'insideLeft' }}
+              tickFormatter={(value) => Number(value).toFixed(1)}
+              domain={['auto', 'auto']}
+            />
+            <Tooltip
+              formatter={(value: number) => `${value.toFixed(2)}%`}
+              labelFormatter={(label) => `行权价: $${Number(label).toFixed(2)}`}
+            />
+            <Legend />
+            <ReferenceLine x={spotPrice} stroke="#4dabf7" strokeDasharray="3 3" label={{ value: '现货', position: 'top', fill: '#4dabf7' }} />
+            <ReferenceLine x={barrierPrice} stroke="#ff6b6b" strokeDasharray="5 5" label={{ value: 'B', position: 'top', fill: '#ff6b6b' }} />
+            <ReferenceLine x={callK1} stroke="#2ecc71" strokeDasharray="2 4" />
+            <ReferenceLine x={putK2} stroke="#e74c3c" strokeDasharray="2 4" />
+            {smile && <Line type="monotone" dataKey="iv" stroke="#7950f2" strokeWidth={2} name="微笑 IV" dot={false} />}
+            <Line type="monotone" dataKey="flatIv" stroke="#adb5bd" strokeWidth={1.5} strokeDasharray="6 3" name="平坦 σ" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <small style={{ display: 'block', marginTop: '10px', color: '#666' }}>
+        绿色点线为 Call 价差下行权价 B·callLambda，红色点线为 Put 价差上行权价 B·putLambda
+      </small>
+    </div>
+  );
+};
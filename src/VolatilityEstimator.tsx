@@ -0,0 +1,159 @@
+import React, { useState, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { runEwma, EwmaState } from './ewma-volatility';
+import { parsePriceTicks } from './price-ticks';
+import { MarketAccount } from './types';
+import { TickSeriesInput } from './TickSeriesInput';
+import {
+  inputStyle,
+  labelStyle,
+  panelStyle,
+  panelTitleStyle,
+  actionButtonStyle,
+} from './styles';
+
+interface VolatilityEstimatorProps {
+  marketConfig: MarketAccount;
+  onApply: (update: EwmaState) => void;
+}
+
+export const VolatilityEstimator: React.FC<VolatilityEstimatorProps> = ({
+  marketConfig,
+  onApply,
+}) => {
+  const [tickText, setTickText] = useState<string>('');
+  const [halfLifeSecs, setHalfLifeSecs] = useState<number>(marketConfig.halfLifeSecs);
+
+  // 解析 tick 并运行 EWMA（以当前 sigma2 作为先验）
+  const estimate = useMemo(() => {
+    const ticks = parsePriceTicks(tickText);
+    if (ticks.length < 2) return null;
+
+    const { state, path } = runEwma(
+      { sigma2: marketConfig.sigma2, lastPrice: 0, lastTs: 0, halfLifeSecs },
+      ticks
+    );
+    const t0 = path[0].ts;
+
+    return {
+      tickCount: ticks.length,
+      state,
+      chartData: path.map((point) => ({
+        elapsedSecs: point.ts - t0,
+        sigmaPercent: point.sigma * 100,
+        price: point.price,
+      })),
+    };
+  }, [tickText, halfLifeSecs, marketConfig.sigma2]);
+
+  return (
+    <div style={panelStyle}>
+      <h2 style={panelTitleStyle}>🌊 EWMA 波动率估计</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '20px' }}>
+        <div>
+          <TickSeriesInput
+            value={tickText}
+            onChange={setTickText}
+            sampleSigma={Math.sqrt(marketConfig.sigma2)}
+          />
+
+          <div style={{ marginTop: '15px' }}>
+            <label style={labelStyle}>半衰期 (秒)</label>
+            <input
+              type="number"
+              value={halfLifeSecs}
+              onChange={(e) => setHalfLifeSecs(Number(e.target.value))}
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ marginTop: '15px', fontSize: '14px', color: '#555' }}>
+            {estimate ? (
+              <>
+                <p style={{ margin: '5px 0' }}>
+                  <strong>Tick 数量:</strong> {estimate.tickCount}
+                </p>
+                <p style={{ margin: '5px 0' }}>
+                  <strong>估计 Sigma²:</strong> {estimate.state.sigma2.toFixed(6)}
+                </p>
+                <p style={{ margin: '5px 0' }}>
+                  <strong>估计 IV:</strong> {(Math.sqrt(estimate.state.sigma2) * 100).toFixed(2)}%
+                </p>
+                <button
+                  style={{ ...actionButtonStyle, marginTop: '10px' }}
+                  onClick={() => onApply(estimate.state)}
+                >
+                  应用到市场配置
+                </button>
+              </>
+            ) : (
+              <small style={{ color: '#666' }}>至少需要 2 个有效 tick</small>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart
+              data={estimate?.chartData ?? []}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+              <XAxis
+                dataKey="elapsedSecs"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                label={{ value: '经过时间 (秒)', position: 'insideBottom', offset: -5 }}
+                tickFormatter={(value) => value.toFixed(0)}
+              />
+              <YAxis
+                yAxisId="sigma"
+                label={{ value: 'σ (%)', angle: -90, position: 'insideLeft' }}
+                tickFormatter={(value) => value.toFixed(1)}
+              />
+              <YAxis
+                yAxisId="price"
+                orientation="right"
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => value.toFixed(2)}
+              />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(4)}
+                labelFormatter={(label) => `t = ${Number(label).toFixed(0)}s`}
+              />
+              <Legend />
+              <Line
+                yAxisId="sigma"
+                type="monotone"
+                dataKey="sigmaPercent"
+                stroke="#7950f2"
+                strokeWidth={2}
+                name="σ (年化 %)"
+                dot={false}
+              />
+              <Line
+                yAxisId="price"
+                type="monotone"
+                dataKey="price"
+                stroke="#adb5bd"
+                strokeWidth={1}
+                name="价格"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  base58Decode,
+  base58Encode,
+  decodeMarketAccount,
+  encodeMarketAccount,
+  importMarketAccount,
+  parseAccountData,
+  toBase64,
+  toHex,
+  MARKET_ACCOUNT_DISCRIMINATOR,
+  MARKET_ACCOUNT_SIZE,
+} from '../account-codec';
+import { DEFAULT_MARKET_CONFIG } from '../market-config';
+import live from './fixtures/market-account-live.json';
+import paused from './fixtures/market-account-paused.json';
+
+const FIXTURES = [live, paused];
+
+describe('MarketAccount codec', () => {
+  it.each(FIXTURES)('decodes fixture: $description', (fixture) => {
+    const market = importMarketAccount(fixture.data);
+    expect(market).toEqual(fixture.expected);
+  });
+
+  it.each(FIXTURES)('re-encodes fixture to identical bytes: $description', (fixture) => {
+    const bytes = parseAccountData(fixture.data);
+    expect(bytes.length).toBe(MARKET_ACCOUNT_SIZE);
+    const encoded = encodeMarketAccount(decodeMarketAccount(bytes));
+    expect(toHex(encoded)).toBe(toHex(bytes));
+    expect(fixture.encoding === 'hex' ? toHex(encoded) : toBase64(encoded)).toBe(fixture.data);
+  });
+
+  it('round-trips the default market (volSmile is not encoded)', () => {
+    const market = { ...DEFAULT_MARKET_CONFIG, volSmile: { kind: 'table' as const, points: [] } };
+    const { volSmile: _, ...onChain } = market;
+    expect(decodeMarketAccount(encodeMarketAccount(market))).toEqual(onChain);
+  });
+
+  it('ignores trailing account padding', () => {
+    const bytes = parseAccountData(live.data);
+    const padded = new Uint8Array(bytes.length + 16);
+    padded.set(bytes);
+    expect(decodeMarketAccount(padded)).toEqual(live.expected);
+  });
+
+  it('rejects a wrong discriminator or short data', () => {
+    const bytes = parseAccountData(live.data);
+    bytes[0] ^= 0xff;
+    expect(() => decodeMarketAccount(bytes)).toThrow(/discriminator/);
+    expect(() => decodeMarketAccount(MARKET_ACCOUNT_DISCRIMINATOR)).toThrow(/expected at least/);
+  });
+
+  it('rejects values that do not fit their on-chain type', () => {
+    expect(() => encodeMarketAccount({ ...DEFAULT_MARKET_CONFIG, feeBps: 70000 })).toThrow(/feeBps/);
+    expect(() => encodeMarketAccount({ ...DEFAULT_MARKET_CONFIG, minStake: 1.5 })).toThrow(/minStake/);
+    expect(() => encodeMarketAccount({ ...DEFAULT_MARKET_CONFIG, feedId: [1, 2, 3] })).toThrow(/feedId/);
+    expect(() => encodeMarketAccount({ ...DEFAULT_MARKET_CONFIG, vault: 'abc' })).toThrow(/vault/);
+  });
+});
+
+describe('account data parsing', () => {
+  const bytes = parseAccountData(live.data);
+
+  it('accepts hex, 0x-prefixed hex, base64 and the RPC array form', () => {
+    const hex = toHex(bytes);
+    expect(parseAccountData(hex)).toEqual(bytes);
+    expect(parseAccountData(`0x${hex.toUpperCase()}`)).toEqual(bytes);
+    expect(parseAccountData(`  ${live.data.slice(0, 40)}\n${live.data.slice(40)} `)).toEqual(bytes);
+    expect(parseAccountData(JSON.stringify([live.data, 'base64']))).toEqual(bytes);
+  });
+
+  it('honours an explicit encoding', () => {
+    // "deadbeef" is valid in both encodings
+    expect(parseAccountData('deadbeef', 'hex')).toEqual(Uint8Array.from([0xde, 0xad, 0xbe, 0xef]));
+    expect(parseAccountData('deadbeef', 'base64').length).toBe(6);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parseAccountData('abc', 'hex')).toThrow(/hex/);
+    expect(() => parseAccountData('not base64!')).toThrow(/base64/);
+    expect(() => parseAccountData('["abc", "base58"]')).toThrow(/array/);
+  });
+});
+
+describe('base58', () => {
+  it('round-trips keys with leading zeros', () => {
+    for (const key of [new Uint8Array(32), Uint8Array.from([0, 0, 1, 2, 255]), new Uint8Array(32).fill(255)]) {
+      expect(base58Decode(base58Encode(key))).toEqual(key);
+    }
+  });
+
+  it('matches known vectors', () => {
+    expect(base58Encode(new TextEncoder().encode('Hello World!'))).toBe('2NEpo7TZRRrLZSi2U');
+    expect(base58Encode(new Uint8Array(32))).toBe('11111111111111111111111111111111');
+    expect(() => base58Decode('0OIl')).toThrow(/base58/);
+  });
+});
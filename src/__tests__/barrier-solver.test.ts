@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { solveForBarrier } from '../barrier-solver';
+import { calcPremium, PricingModel, PricingOptions } from '../pricing';
+import { createRng } from '../rng';
+import { Side } from '../types';
+import { pricingSamples, samplePricing, stdDev } from './arbitraries';
+import { oracleClosedForm } from './oracle';
+
+const SAMPLES = pricingSamples(99, 120);
+const TOLERANCE = 1e-6;
+
+describe('solveForBarrier', () => {
+  it.each<[PricingModel, Side]>([
+    ['spread', Side.Long],
+    ['spread', Side.Short],
+    ['closedForm', Side.Long],
+    ['closedForm', Side.Short],
+  ])('inverts calcPremium within the barrier tolerance (%s, side %i)', (model, side) => {
+    const rng = createRng(side * 10 + (model === 'spread' ? 1 : 2));
+
+    for (const sample of SAMPLES) {
+      const pricing: PricingOptions = { ...samplePricing(sample), model };
+      const premiumAt = (barrier: number) => calcPremium(sample.spot, barrier, side, sample.market, pricing);
+
+      // Target priced at a known barrier inside the search domain, away from the clamped ends
+      const barrier0 = sample.spot * Math.exp(rng.uniform(-2, 2) * stdDev(sample.market));
+      const target = premiumAt(barrier0);
+      if (target < 1e-6 || target > 0.999) continue;
+
+      const result = solveForBarrier(target, sample.spot, side, sample.market, { ...pricing, tolerance: TOLERANCE });
+      expect(result.status).toBe('converged');
+      expect(result.residual).toBeCloseTo(result.premium - target, 15);
+      expect(result.premium).toBe(premiumAt(result.barrier));
+
+      // The root lies within the tolerance of the returned barrier
+      const step = TOLERANCE * 1.01;
+      const below = premiumAt(result.barrier - step) - target;
+      const above = premiumAt(result.barrier + step) - target;
+      expect(below * above).toBeLessThanOrEqual(0);
+    }
+  });
+
+  it('recovers the barrier of a closed-form target priced by the oracle', () => {
+    const rng = createRng(5);
+    for (const sample of SAMPLES.filter((s) => s.rate === 0)) {
+      const barrier0 = sample.spot * Math.exp(rng.uniform(-1.5, 1.5) * stdDev(sample.market));
+      const target = oracleClosedForm(sample.spot, barrier0, Side.Long, sample.market);
+      const result = solveForBarrier(target, sample.spot, Side.Long, sample.market, {
+        model: 'closedForm',
+        cdfMethod: 'erfc',
+        tolerance: 1e-9 * sample.spot,
+      });
+
+      expect(result.status).toBe('converged');
+      expect(Math.abs(result.barrier - barrier0)).toBeLessThan(1e-6 * sample.spot);
+    }
+  });
+
+  it('reports targets outside the reachable premiums instead of clamping', () => {
+    const [{ market, spot }] = SAMPLES;
+    const tooLow = solveForBarrier(1.5, spot, Side.Long, market);
+    expect(tooLow.status).toBe('oddsTooLow');
+    expect(tooLow.range.maxPremium).toBeLessThan(1.5);
+    expect(tooLow.iterations).toBe(0);
+
+    const tooHigh = solveForBarrier(-0.1, spot, Side.Short, market);
+    expect(tooHigh.status).toBe('oddsTooHigh');
+    expect(tooHigh.range.minPremium).toBeGreaterThan(-0.1);
+  });
+
+  it('reports the search domain as spot·e^(±Z·σ√T)', () => {
+    const [{ market, spot }] = SAMPLES;
+    const { range } = solveForBarrier(0.5, spot, Side.Long, market, { maxStdDevs: 4 });
+    expect(range.minBarrier).toBeCloseTo(spot * Math.exp(-4 * stdDev(market)), 9);
+    expect(range.maxBarrier).toBeCloseTo(spot * Math.exp(4 * stdDev(market)), 9);
+    expect(range.minOdds).toBeCloseTo(1 / range.maxPremium, 12);
+  });
+});
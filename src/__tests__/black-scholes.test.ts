@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFee,
+  calculatePremium,
+  digitalCallPrice,
+  digitalCallPriceClosedForm,
+  digitalPutPrice,
+  digitalPutPriceClosedForm,
+  inverseNormalCDF,
+  normalCDF,
+  normalCDFErfc,
+  payoutCashOrNothing,
+  payoutOddsBased,
+  quoteWithFee,
+  removeFee,
+  CdfMethod,
+} from '../black-scholes';
+import { buildDigitalParams } from '../pricing';
+import { Side } from '../types';
+import { pricingSamples, samplePricing, stdDev } from './arbitraries';
+import { oracleClosedForm, oracleNormalCDF, oracleSpread } from './oracle';
+
+// Φ(x) to 22 significant digits (published tables)
+const CDF_TABLE: [number, number][] = [
+  [0, 0.5],
+  [0.5, 0.6914624612740131036377],
+  [1, 0.8413447460685429485852],
+  [-1, 0.1586552539314570514148],
+  [2, 0.9772498680518207927997],
+  [-3, 0.001349898031630094526652],
+  [-5, 2.866515718791939116738e-7],
+  [-10, 7.619853024160526065973e-24],
+];
+
+const GRID = Array.from({ length: 2001 }, (_, i) => -12 + i * 0.01);
+
+describe('normal CDF', () => {
+  it.each(CDF_TABLE)('oracle reproduces Φ(%d) from the tables', (x, expected) => {
+    expect(Math.abs(oracleNormalCDF(x) - expected)).toBeLessThanOrEqual(1e-15 * expected);
+  });
+
+  it('Hastings stays within its documented 1.5e-7', () => {
+    for (const x of GRID.filter((x) => x >= -8)) {
+      expect(Math.abs(normalCDF(x) - oracleNormalCDF(x))).toBeLessThan(1.5e-7);
+    }
+  });
+
+  it('erfc keeps near machine relative precision into the lower tail', () => {
+    for (const x of GRID) {
+      const reference = oracleNormalCDF(x);
+      expect(Math.abs(normalCDFErfc(x) - reference)).toBeLessThanOrEqual(1e-13 * reference);
+    }
+  });
+
+  // x = 0 is excluded: Hastings gives Φ(0) = 0.5 + 5e-10 on both sides
+  it('is symmetric: Φ(x) + Φ(−x) = 1', () => {
+    for (const x of GRID.filter((x) => x > 0)) {
+      expect(normalCDF(x) + normalCDF(-x)).toBeCloseTo(1, 14);
+      expect(normalCDFErfc(x) + normalCDFErfc(-x)).toBeCloseTo(1, 14);
+    }
+  });
+
+  // Above x ≈ 5 a double near 1 no longer resolves Φ(x) well enough to recover x to 1e-8
+  it('inverseNormalCDF inverts the oracle', () => {
+    for (const x of GRID.filter((x) => x >= -8 && x <= 5)) {
+      expect(inverseNormalCDF(oracleNormalCDF(x))).toBeCloseTo(x, 8);
+    }
+    expect(inverseNormalCDF(0)).toBe(-Infinity);
+    expect(inverseNormalCDF(1)).toBe(Infinity);
+    expect(inverseNormalCDF(1.5)).toBeNaN();
+  });
+});
+
+describe('digital prices against the oracle', () => {
+  const samples = pricingSamples(20240601, 150);
+  const moneyness = [-4, -2, -1, -0.3, 0, 0.3, 1, 2, 4];
+
+  it('spread call / put match the oracle spread (erfc CDF), floored at 0', () => {
+    for (const sample of samples) {
+      const { market, spot } = sample;
+      const pricing = { ...samplePricing(sample), cdfMethod: 'erfc' as CdfMethod };
+
+      for (const k of moneyness) {
+        const barrier = spot * Math.exp(k * stdDev(market));
+        const params = buildDigitalParams(spot, barrier, market, pricing);
+        const long = digitalCallPrice(params, market.callLambda);
+        const short = digitalPutPrice(params, market.putLambda);
+
+        expect(long).toBeCloseTo(Math.max(oracleSpread(spot, barrier, Side.Long, market, sample), 0), 8);
+        expect(short).toBeCloseTo(Math.max(oracleSpread(spot, barrier, Side.Short, market, sample), 0), 8);
+      }
+    }
+  });
+
+  it.each<[CdfMethod, number]>([
+    ['erfc', 1e-12],
+    ['hastings', 2e-7],
+  ])('closed form with the %s CDF is within %d of e^(−rT)·Φ(±d₂)', (cdfMethod, tolerance) => {
+    for (const sample of samples) {
+      const { market, spot } = sample;
+      for (const k of moneyness) {
+        const barrier = spot * Math.exp(k * stdDev(market));
+        const params = buildDigitalParams(spot, barrier, market, { ...samplePricing(sample), cdfMethod });
+        const long = oracleClosedForm(spot, barrier, Side.Long, market, sample);
+        const short = oracleClosedForm(spot, barrier, Side.Short, market, sample);
+
+        expect(Math.abs(digitalCallPriceClosedForm(params) - long)).toBeLessThan(tolerance);
+        expect(Math.abs(digitalPutPriceClosedForm(params) - short)).toBeLessThan(tolerance);
+      }
+    }
+  });
+
+  it('rejects lambdas on the wrong side of 1', () => {
+    const [{ market, spot }] = samples;
+    const params = buildDigitalParams(spot, spot, market);
+    expect(() => digitalCallPrice(params, 1)).toThrow('callLambda must be < 1.0');
+    expect(() => digitalPutPrice(params, 1)).toThrow('putLambda must be > 1.0');
+  });
+
+  it('settles on the forward once no time is left', () => {
+    const [{ market }] = samples;
+    const expired = buildDigitalParams(100, 99, { ...market, settleDelayEpochs: 0 });
+    expect(digitalCallPriceClosedForm(expired)).toBe(1);
+    expect(digitalPutPriceClosedForm(expired)).toBe(0);
+    expect(digitalCallPrice(expired, market.callLambda)).toBeCloseTo(1, 12);
+    expect(digitalPutPrice(expired, market.putLambda)).toBe(0);
+  });
+});
+
+describe('fees and payouts', () => {
+  it('applyFee loads p·(1 + fee/10⁴) and caps at 1; removeFee inverts it below the cap', () => {
+    expect(applyFee(0.5, 100)).toBeCloseTo(0.505, 15);
+    expect(applyFee(0.995, 100)).toBe(1);
+    expect(applyFee(0.4, 0)).toBe(0.4);
+    expect(removeFee(applyFee(0.37, 250), 250)).toBeCloseTo(0.37, 15);
+  });
+
+  it('quoteWithFee reports net odds 1 / premium and the house edge (P − p) / P', () => {
+    const quote = quoteWithFee(0.5, 100);
+    expect(quote.fairProbability).toBe(0.5);
+    expect(quote.premium).toBeCloseTo(0.505, 15);
+    expect(quote.netOdds).toBeCloseTo(1 / 0.505, 12);
+    expect(quote.houseEdgeBps).toBeCloseTo((0.005 / 0.505) * 1e4, 9);
+
+    const zero = quoteWithFee(0, 100);
+    expect(zero.netOdds).toBe(Infinity);
+    expect(zero.houseEdgeBps).toBe(0);
+  });
+
+  it('cash-or-nothing pays the stake to a winner and nothing to a loser', () => {
+    expect(payoutCashOrNothing(250, true)).toBe(250);
+    expect(payoutCashOrNothing(250, false)).toBe(0);
+  });
+
+  it('odds-based pays stake / loaded price, floored at a 1e-12 price', () => {
+    expect(payoutOddsBased(100, 0.25, true)).toBe(400);
+    expect(payoutOddsBased(100, 0.25, true, 100)).toBeCloseTo(100 / 0.2525, 12);
+    expect(payoutOddsBased(100, 0.25, false, 100)).toBe(0);
+    expect(payoutOddsBased(1, 0, true)).toBe(1e12);
+  });
+
+  it('calculatePremium charges stake × loaded price', () => {
+    expect(calculatePremium(100, 0.3)).toBeCloseTo(30, 12);
+    expect(calculatePremium(100, 0.3, 100)).toBeCloseTo(30.3, 12);
+    expect(calculatePremium(100, 0.999, 100)).toBe(100);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyFeeFixed,
+  calcPremiumFixed,
+  compareFixedPremium,
+  createFixedMath,
+  isFixedFeeBps,
+  positionCostFixed,
+  positionPayoutFixed,
+  FIXED_DECIMALS,
+} from '../fixed-point';
+import { DEFAULT_MARKET_CONFIG } from '../market-config';
+import { MarketAccount, PayoutMethod, Side } from '../types';
+import golden from './fixtures/fixed-point-golden.json';
+
+const MARKET: MarketAccount = { ...DEFAULT_MARKET_CONFIG, ...golden.market };
+const STAKE = BigInt(golden.stake);
+
+type GoldenExpected = (typeof golden.cases)[number]['expected']['6'];
+
+describe('fixed-point math', () => {
+  it.each(FIXED_DECIMALS)('ln, exp and sqrt track Math at 1e%i', (decimals) => {
+    const fm = createFixedMath(decimals);
+    const ulps = 20 / Number(fm.scale);
+
+    for (const x of [0.001, 0.5, 1, 2, 100, 65000]) {
+      expect(fm.toNumber(fm.ln(fm.fromNumber(x)))).toBeCloseTo(Math.log(x), decimals - 2);
+      expect(Math.abs(fm.toNumber(fm.sqrt(fm.fromNumber(x))) - Math.sqrt(x))).toBeLessThanOrEqual(ulps);
+    }
+    for (const x of [-10, -1, 0, 0.5, 3]) {
+      expect(Math.abs(fm.toNumber(fm.exp(fm.fromNumber(x))) - Math.exp(x))).toBeLessThan(ulps * Math.max(Math.exp(x), 1));
+    }
+  });
+
+  it.each(FIXED_DECIMALS)('normalCDF matches the Hastings approximation at 1e%i', (decimals) => {
+    const fm = createFixedMath(decimals);
+    const reference = [
+      [-3, 0.0013499672],
+      [-0.5, 0.3085375387],
+      [1, 0.8413447461],
+      [4, 0.9999683288],
+    ];
+    for (const [x, cdf] of reference) {
+      expect(fm.toNumber(fm.normalCDF(fm.fromNumber(x)))).toBeCloseTo(cdf, decimals - 2);
+    }
+  });
+
+  it('rejects unsupported decimals and invalid arguments', () => {
+    expect(() => createFixedMath(0)).toThrow();
+    expect(() => createFixedMath(19)).toThrow();
+    const fm = createFixedMath(9);
+    expect(() => fm.ln(0n)).toThrow();
+    expect(() => fm.div(1n, 0n)).toThrow();
+  });
+});
+
+describe('fixed-point golden vectors', () => {
+  const rows = golden.cases.flatMap((c) =>
+    FIXED_DECIMALS.map((decimals) => ({
+      ...c,
+      decimals,
+      expected: c.expected[String(decimals) as '6' | '9'] as GoldenExpected,
+    }))
+  );
+
+  it.each(rows)('$name at 1e$decimals', ({ spot, barrier, side, options, decimals, expected }) => {
+    const s = side === 'long' ? Side.Long : Side.Short;
+    const pricing = { ...options, decimals } as Parameters<typeof calcPremiumFixed>[4];
+    const premium = calcPremiumFixed(spot, barrier, s, MARKET, pricing);
+
+    expect(premium.toString()).toBe(expected.premium);
+    expect(positionCostFixed(STAKE, premium, PayoutMethod.CashOrNothing, MARKET.feeBps, decimals).toString()).toBe(
+      expected.cashOrNothingCost
+    );
+    expect(
+      positionPayoutFixed(STAKE, premium, PayoutMethod.OddsBased, MARKET.feeBps, true, decimals).toString()
+    ).toBe(expected.oddsBasedPayout);
+
+    const comparison = compareFixedPremium(spot, barrier, s, MARKET, pricing);
+    expect(comparison.fixedRaw).toBe(premium);
+    expect(comparison.float).toBeCloseTo(expected.float, 10);
+    expect(comparison.absDiff).toBeCloseTo(expected.absDiff, 8);
+  });
+
+  it('stays within a basis point of the float path at 1e9 away from the tails', () => {
+    for (const c of golden.cases) {
+      const { float, bpsDiff } = c.expected['9'];
+      if (float > 1e-3 && float < 1 - 1e-3) expect(Math.abs(bpsDiff ?? 0)).toBeLessThan(1);
+    }
+  });
+
+  it('rejects strikes and spread widths that round to 0 at the scale', () => {
+    const dust = { decimals: 6 };
+    expect(() => calcPremiumFixed(1e-7, 1e-7, Side.Long, MARKET, dust)).toThrow('spot and barrier must be > 0 at 1e6');
+    expect(() => calcPremiumFixed(0.0004, 0.0004, Side.Short, MARKET, dust)).toThrow('put spread width');
+    // k1 truncates down, so the call width only vanishes once callLambda itself rounds to 1
+    const tightCall = { ...MARKET, callLambda: 0.9999999 };
+    expect(() => calcPremiumFixed(100, 100, Side.Long, tightCall, dust)).toThrow('call spread width');
+    const tinyCall = { ...MARKET, callLambda: 1e-7 };
+    expect(() => calcPremiumFixed(1, 1, Side.Long, tinyCall, dust)).toThrow('barrier × callLambda rounds to 0');
+  });
+});
+
+describe('fixed-point costs and payouts', () => {
+  const half = 500_000_000n; // 0.5 at 1e9
+
+  it('loads the fee and caps the price at 1', () => {
+    expect(applyFeeFixed(half, 100)).toBe(505_000_000n);
+    expect(applyFeeFixed(999_000_000n, 100)).toBe(1_000_000_000n);
+  });
+
+  it('rejects a fractional or out-of-range fee instead of failing the BigInt conversion', () => {
+    expect(() => applyFeeFixed(half, 12.5)).toThrow('feeBps must be an integer in [0, 65535], got 12.5');
+    expect(() => positionCostFixed(1_000_000n, half, PayoutMethod.CashOrNothing, 0.5)).toThrow('feeBps');
+    expect(() => applyFeeFixed(half, 65_536)).toThrow('feeBps');
+    expect(isFixedFeeBps(12.5)).toBe(false);
+    expect(isFixedFeeBps(65_535)).toBe(true);
+  });
+
+  it('charges stake × loaded price for cash-or-nothing and pays the stake', () => {
+    expect(positionCostFixed(1_000_000n, half, PayoutMethod.CashOrNothing, 100)).toBe(505_000n);
+    expect(positionPayoutFixed(1_000_000n, half, PayoutMethod.CashOrNothing, 100, true)).toBe(1_000_000n);
+  });
+
+  it('charges the stake for odds-based and pays stake / loaded price, rounded down', () => {
+    expect(positionCostFixed(1_000_000n, half, PayoutMethod.OddsBased, 100)).toBe(1_000_000n);
+    expect(positionPayoutFixed(1_000_000n, half, PayoutMethod.OddsBased, 100, true)).toBe(1_980_198n);
+    expect(positionPayoutFixed(1_000_000n, 0n, PayoutMethod.OddsBased, 100, true)).toBe(1_000_000n * 1_000_000_000n);
+  });
+
+  it('pays nothing to a losing position', () => {
+    expect(positionPayoutFixed(1_000_000n, half, PayoutMethod.OddsBased, 100, false)).toBe(0n);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * High-Precision Reference Pricer
+ *
+ * Independent of the code under test: Φ is evaluated in 90-digit BigInt
+ * fixed point from the series
+ *
+ *   Φ(x) = ½ + φ(x)·Σ x^(2n+1) / (1·3·5···(2n+1))     (x ≥ 0)
+ *
+ * whose terms are all positive, with Φ(−x) = 1 − Φ(x). 90 digits keep
+ * ~1e-15 relative accuracy down to Φ(−12) ≈ 1.8e-33. Only the final
+ * conversion to a double rounds.
+ *
+ * Black-Scholes and the closed-form digital are rebuilt on top of it with
+ * plain Math.log / Math.exp, which are accurate to an ulp.
+ */
+
+import { MarketAccount, Side } from '../types';
+
+const DIGITS = 90n;
+const ONE = 10n ** DIGITS;
+
+// 365.25 天，与 SECONDS_PER_YEAR 相同（此处独立定义）
+const YEAR_SECS = 31_557_600;
+
+/**
+ * Exact double → fixed point (x·2⁶⁰ is an integer for |x| ≥ 2⁻⁸)
+ */
+function toFixed(x: number): bigint {
+  return (BigInt(Math.round(x * 2 ** 60)) * ONE) / 2n ** 60n;
+}
+
+/**
+ * e^y for y ≥ 0 by its Taylor series
+ */
+function expPositive(y: bigint): bigint {
+  let term = ONE;
+  let sum = ONE;
+  for (let n = 1n; term !== 0n; n++) {
+    term = (term * y) / (ONE * n);
+    sum += term;
+  }
+  return sum;
+}
+
+/**
+ * Φ(x) to ~15 significant digits for |x| ≤ 12
+ */
+export function oracleNormalCDF(x: number): number {
+  if (x > 12) return 1;
+  if (x < -12) return 0;
+
+  const z = toFixed(Math.abs(x));
+  const z2 = (z * z) / ONE;
+
+  // φ(z) = e^(−z²/2) / √(2π)
+  const SQRT_2PI = 2506628274631000502415765284811045253006986740609938316629923576342293654607841n; // √(2π)·10⁷⁸
+  const sqrt2Pi = SQRT_2PI * 10n ** (DIGITS - 78n);
+  const pdf = (ONE * ONE * ONE) / (expPositive(z2 / 2n) * sqrt2Pi);
+
+  let term = z;
+  let series = z;
+  for (let n = 1n; term !== 0n; n++) {
+    term = (term * z2) / (ONE * (2n * n + 1n));
+    series += term;
+  }
+
+  const upper = ONE / 2n + (pdf * series) / ONE; // Φ(|x|)
+  const value = x >= 0 ? upper : ONE - upper;
+  return Number(value) / Number(ONE);
+}
+
+/**
+ * Generalised Black-Scholes call or put (Merton, rate r and carry q)
+ */
+export function oracleBlackScholes(
+  call: boolean,
+  spot: number,
+  strike: number,
+  volatility: number,
+  timeYears: number,
+  rate: number = 0,
+  carry: number = 0
+): number {
+  const sigmaT = volatility * Math.sqrt(timeYears);
+  const d1 = (Math.log(spot / strike) + (rate - carry) * timeYears + 0.5 * sigmaT * sigmaT) / sigmaT;
+  const d2 = d1 - sigmaT;
+  const spotForward = spot * Math.exp(-carry * timeYears);
+  const strikePv = strike * Math.exp(-rate * timeYears);
+
+  return call
+    ? spotForward * oracleNormalCDF(d1) - strikePv * oracleNormalCDF(d2)
+    : strikePv * oracleNormalCDF(-d2) - spotForward * oracleNormalCDF(-d1);
+}
+
+export interface OracleOptions {
+  rate?: number;
+  carry?: number;
+}
+
+function marketInputs(market: MarketAccount): { volatility: number; timeYears: number } {
+  return {
+    volatility: Math.sqrt(market.sigma2),
+    timeYears: (market.epochDurationSecs * market.settleDelayEpochs) / YEAR_SECS,
+  };
+}
+
+/**
+ * Cash-or-nothing digital: e^(−rT)·Φ(±d₂)
+ */
+export function oracleClosedForm(
+  spot: number,
+  barrier: number,
+  side: Side,
+  market: MarketAccount,
+  { rate = 0, carry = 0 }: OracleOptions = {}
+): number {
+  const { volatility, timeYears } = marketInputs(market);
+  const sigmaT = volatility * Math.sqrt(timeYears);
+  const d2 = (Math.log(spot / barrier) + (rate - carry) * timeYears - 0.5 * sigmaT * sigmaT) / sigmaT;
+  return Math.exp(-rate * timeYears) * oracleNormalCDF(side === Side.Long ? d2 : -d2);
+}
+
+/**
+ * Lambda call / put spread with σ ± vegaBuffer, before clamping
+ *
+ *   Long:  [C(Bλc, σ + v) − C(B, σ − v)] / (B − Bλc)
+ *   Short: [P(Bλp, σ + v) − P(B, σ − v)] / (Bλp − B)
+ */
+export function oracleSpread(
+  spot: number,
+  barrier: number,
+  side: Side,
+  market: MarketAccount,
+  { rate = 0, carry = 0 }: OracleOptions = {}
+): number {
+  const { volatility, timeYears } = marketInputs(market);
+  const tight = Math.max(volatility + market.vegaBuffer, 1e-9);
+  const loose = Math.max(volatility - market.vegaBuffer, 1e-9);
+  const call = side === Side.Long;
+  const tightStrike = barrier * (call ? market.callLambda : market.putLambda);
+
+  const tightPrice = oracleBlackScholes(call, spot, tightStrike, tight, timeYears, rate, carry);
+  const loosePrice = oracleBlackScholes(call, spot, barrier, loose, timeYears, rate, carry);
+  return (tightPrice - loosePrice) / Math.abs(barrier - tightStrike);
+}
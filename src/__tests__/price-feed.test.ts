@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createWebSocketPriceFeed,
+  decodePriceUpdate,
+  encodePriceUpdate,
+  feedIdToHex,
+  hexToFeedId,
+  PriceFeedStatus,
+  PriceUpdate,
+  WebSocketLike,
+} from '../price-feed';
+
+const FEED_ID = 'e62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43';
+const OTHER_ID = 'ff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace';
+
+/**
+ * Socket double: records what the adapter sends and lets the test drive events
+ */
+class FakeSocket implements WebSocketLike {
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  sent: string[] = [];
+  closed = false;
+
+  constructor(readonly url: string) {}
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.onclose?.({});
+  }
+
+  receive(message: unknown): void {
+    this.onmessage?.({ data: typeof message === 'string' ? message : JSON.stringify(message) });
+  }
+
+  drop(): void {
+    this.onclose?.({});
+  }
+}
+
+function priceMessage(feedId: string, price: string, expo = -8, publishTime = 1_700_000_000) {
+  return {
+    type: 'price_update',
+    price_feed: { id: feedId, price: { price, conf: '1250000', expo, publish_time: publishTime } },
+  };
+}
+
+describe('Pyth-like message decoding', () => {
+  it('scales price and conf by 10^expo and normalises the feed id', () => {
+    expect(decodePriceUpdate(priceMessage(`0x${FEED_ID.toUpperCase()}`, '6425012500000'))).toEqual({
+      feedId: FEED_ID,
+      price: 64250.125,
+      conf: 0.0125,
+      publishTime: 1_700_000_000,
+    });
+  });
+
+  it('round-trips encodePriceUpdate', () => {
+    const update: PriceUpdate = { feedId: FEED_ID, price: 1.2345, conf: 0.0001, publishTime: 1_700_000_123 };
+    const decoded = decodePriceUpdate(encodePriceUpdate(update, -6));
+    expect(decoded?.price).toBeCloseTo(update.price, 12);
+    expect(decoded?.conf).toBeCloseTo(update.conf, 12);
+    expect(decoded?.publishTime).toBe(update.publishTime);
+  });
+
+  it('returns null for other message types and rejects malformed updates', () => {
+    expect(decodePriceUpdate({ type: 'response', status: 'success' })).toBeNull();
+    expect(() => decodePriceUpdate('price')).toThrow('feed message must be a JSON object');
+    expect(() => decodePriceUpdate({ type: 'price_update' })).toThrow('price_feed.id and price_feed.price');
+    expect(() => decodePriceUpdate(priceMessage(FEED_ID, '0'))).toThrow(`invalid price_update for feed ${FEED_ID}`);
+    expect(() => decodePriceUpdate(priceMessage(FEED_ID, 'abc'))).toThrow('invalid price_update');
+  });
+
+  it('converts feed ids between hex and MarketAccount bytes', () => {
+    expect(feedIdToHex(hexToFeedId(`0x${FEED_ID}`))).toBe(FEED_ID);
+    expect(() => hexToFeedId('abcd')).toThrow('feed id must be 32 bytes of hex');
+  });
+});
+
+describe('WebSocket price feed', () => {
+  let sockets: FakeSocket[];
+  let prices: PriceUpdate[];
+  let statuses: [PriceFeedStatus, string?][];
+
+  const connect = (reconnectDelayMs = 1000, feedIds = [FEED_ID]) =>
+    createWebSocketPriceFeed({
+      url: 'ws://feed.test',
+      feedIds,
+      reconnectDelayMs,
+      createSocket: (url) => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+    }).connect({
+      onPrice: (update) => prices.push(update),
+      onStatus: (status, message) => statuses.push(message === undefined ? [status] : [status, message]),
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sockets = [];
+    prices = [];
+    statuses = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('subscribes on open and delivers updates for the subscribed feeds only', () => {
+    connect();
+    const [socket] = sockets;
+    socket.onopen?.({});
+
+    expect(socket.url).toBe('ws://feed.test');
+    expect(JSON.parse(socket.sent[0])).toEqual({ type: 'subscribe', ids: [FEED_ID] });
+    expect(statuses).toEqual([['connecting'], ['open']]);
+
+    socket.receive({ type: 'response', status: 'success' });
+    socket.receive(priceMessage(OTHER_ID, '100000000'));
+    socket.receive(priceMessage(FEED_ID, '6425012500000'));
+    expect(prices).toHaveLength(1);
+    expect(prices[0].price).toBe(64250.125);
+  });
+
+  it('accepts every feed when no ids are given', () => {
+    connect(1000, []);
+    sockets[0].receive(priceMessage(OTHER_ID, '100000000'));
+    expect(prices.map((p) => p.feedId)).toEqual([OTHER_ID]);
+  });
+
+  it('reports malformed messages and keeps the connection', () => {
+    connect();
+    const [socket] = sockets;
+    socket.receive('not json');
+    socket.receive(priceMessage(FEED_ID, '0'));
+    socket.receive(priceMessage(FEED_ID, '100000000'));
+
+    expect(statuses.filter(([status]) => status === 'error')).toHaveLength(2);
+    expect(prices).toHaveLength(1);
+    expect(socket.closed).toBe(false);
+  });
+
+  it('reconnects after the reconnect delay when the socket drops', () => {
+    connect(500);
+    sockets[0].drop();
+    expect(statuses).toEqual([['connecting'], ['closed']]);
+
+    vi.advanceTimersByTime(499);
+    expect(sockets).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].onopen?.({});
+    sockets[1].receive(priceMessage(FEED_ID, '100000000'));
+    expect(prices).toHaveLength(1);
+  });
+
+  it('retries when the socket cannot be created', () => {
+    let attempts = 0;
+    createWebSocketPriceFeed({
+      url: 'ws://feed.test',
+      feedIds: [FEED_ID],
+      reconnectDelayMs: 100,
+      createSocket: (url) => {
+        attempts++;
+        if (attempts === 1) throw new Error('refused');
+        return new FakeSocket(url);
+      },
+    }).connect({ onPrice: () => {}, onStatus: (status, message) => statuses.push([status, message]) });
+
+    expect(statuses).toContainEqual(['error', 'refused']);
+    vi.advanceTimersByTime(100);
+    expect(attempts).toBe(2);
+  });
+
+  it('does not reconnect when the delay is 0', () => {
+    connect(0);
+    sockets[0].drop();
+    vi.advanceTimersByTime(60_000);
+    expect(sockets).toHaveLength(1);
+  });
+
+  it('stops: closes the socket and cancels a pending reconnect', () => {
+    const stop = connect(500);
+    sockets[0].drop();
+    stop();
+    vi.advanceTimersByTime(1000);
+
+    expect(sockets).toHaveLength(1);
+    expect(statuses[statuses.length - 1]).toEqual(['closed']);
+
+    const stopOpen = connect(500);
+    stopOpen();
+    expect(sockets[1].closed).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(2);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calcPremium,
+  calcSpreadMarkup,
+  isWinning,
+  positionCost,
+  positionPayout,
+  PricingModel,
+  PricingOptions,
+} from '../pricing';
+import { CdfMethod } from '../black-scholes';
+import { MarketAccount, PayoutMethod, Side } from '../types';
+import { pricingSamples, PricingSample, samplePricing, stdDev, timeYears } from './arbitraries';
+import { oracleClosedForm } from './oracle';
+
+const SAMPLES = pricingSamples(7, 200);
+const CONFIGS: { model: PricingModel; cdfMethod: CdfMethod }[] = [
+  { model: 'spread', cdfMethod: 'hastings' },
+  { model: 'spread', cdfMethod: 'erfc' },
+  { model: 'closedForm', cdfMethod: 'hastings' },
+  { model: 'closedForm', cdfMethod: 'erfc' },
+];
+
+// 现货扫描：障碍价两侧 ±6σ√T
+function spotSweep(barrier: number, sd: number, points = 41): number[] {
+  return Array.from({ length: points }, (_, i) => barrier * Math.exp((-6 + (12 * i) / (points - 1)) * sd));
+}
+
+/**
+ * Bound on the σ ± vegaBuffer part of a spread leg
+ *
+ * Each leg is that part (≥ 0) plus a strike-average of e^(−rT)·Φ(±d₂), which
+ * is at most e^(−rT) and monotone in spot. With vega ≤ S·e^(−qT)·√T·φ(0), the
+ * part is at most 2v·S·e^(−qT)·√T·φ(0) / strike width: that is how far the
+ * unclamped spread can overshoot e^(−rT) and move against spot.
+ */
+function vegaOvershoot(
+  spot: number,
+  barrier: number,
+  side: Side,
+  sample: PricingSample,
+  model: PricingModel
+): number {
+  if (model !== 'spread') return 0;
+  const { market } = sample;
+  const years = timeYears(market);
+  const width = barrier * (side === Side.Long ? 1 - market.callLambda : market.putLambda - 1);
+  const vegaBound = (spot * Math.exp(-sample.carry * years) * Math.sqrt(years)) / Math.sqrt(2 * Math.PI);
+  return (2 * market.vegaBuffer * vegaBound) / width;
+}
+
+describe('calcPremium properties', () => {
+  it.each(CONFIGS)('stays in [0, 1] up to the vegaBuffer overshoot ($model, $cdfMethod)', ({ model, cdfMethod }) => {
+    for (const sample of SAMPLES) {
+      const pricing: PricingOptions = { ...samplePricing(sample), model, cdfMethod };
+      for (const spot of spotSweep(sample.spot, stdDev(sample.market))) {
+        for (const side of [Side.Long, Side.Short]) {
+          const premium = calcPremium(spot, sample.spot, side, sample.market, pricing);
+          expect(premium).toBeGreaterThanOrEqual(0);
+          expect(premium).toBeLessThanOrEqual(1 + vegaOvershoot(spot, sample.spot, side, sample, model) + 1e-9);
+        }
+      }
+    }
+  });
+
+  // A step against spot can undo at most the vegaBuffer part it starts from (Long) or ends at (Short)
+  it.each(CONFIGS)('Long rises and Short falls with spot up to the vegaBuffer part ($model, $cdfMethod)', (config) => {
+    const { model, cdfMethod } = config;
+    for (const sample of SAMPLES) {
+      const pricing: PricingOptions = { ...samplePricing(sample), model, cdfMethod };
+      const barrier = sample.spot;
+      const spots = spotSweep(barrier, stdDev(sample.market));
+      const long = spots.map((s) => calcPremium(s, barrier, Side.Long, sample.market, pricing));
+      const short = spots.map((s) => calcPremium(s, barrier, Side.Short, sample.market, pricing));
+
+      for (let i = 1; i < spots.length; i++) {
+        const longSlack = vegaOvershoot(spots[i - 1], barrier, Side.Long, sample, model);
+        const shortSlack = vegaOvershoot(spots[i], barrier, Side.Short, sample, model);
+        expect(long[i]).toBeGreaterThanOrEqual(long[i - 1] - longSlack - 1e-12);
+        expect(short[i]).toBeLessThanOrEqual(short[i - 1] + shortSlack + 1e-12);
+      }
+      // Not flat (when the lambda width dwarfs σ√T the move is less than 1)
+      expect(long[spots.length - 1]).toBeGreaterThan(long[0]);
+      expect(short[0]).toBeGreaterThan(short[spots.length - 1]);
+    }
+  });
+
+  it('closed-form Long + Short = e^(−rT), matching the oracle', () => {
+    for (const sample of SAMPLES) {
+      const pricing: PricingOptions = { ...samplePricing(sample), model: 'closedForm', cdfMethod: 'erfc' };
+      const discount = Math.exp(-sample.rate * timeYears(sample.market));
+      for (const barrier of spotSweep(sample.spot, stdDev(sample.market), 13)) {
+        const long = calcPremium(sample.spot, barrier, Side.Long, sample.market, pricing);
+        const short = calcPremium(sample.spot, barrier, Side.Short, sample.market, pricing);
+
+        expect(long + short).toBeCloseTo(discount, 12);
+        expect(long).toBeCloseTo(oracleClosedForm(sample.spot, barrier, Side.Long, sample.market, sample), 12);
+      }
+    }
+  });
+
+  it('spread markups over the closed form are ≥ 0', () => {
+    for (const sample of SAMPLES) {
+      const pricing: PricingOptions = { ...samplePricing(sample), cdfMethod: 'erfc' };
+      for (const barrier of spotSweep(sample.spot, stdDev(sample.market), 13)) {
+        for (const side of [Side.Long, Side.Short]) {
+          const markup = calcSpreadMarkup(sample.spot, barrier, side, sample.market, pricing);
+          const fair = oracleClosedForm(sample.spot, barrier, side, sample.market, sample);
+
+          expect(markup.spreadPremium - fair).toBeGreaterThanOrEqual(-1e-9);
+          expect(markup.closedFormPremium).toBeCloseTo(fair, 12);
+        }
+      }
+    }
+  });
+
+  // Split each leg at the loose volatility: the σ ± v term is at most 2v·S·e^(−qT)·√T·φ(0) per unit of
+  // strike width, and the two strike-averages of e^(−rT)·Φ(d₂) differ by at most its drop across [Bλc, Bλp].
+  // The sampled vegaBuffer mostly makes the bound exceed 1, so it is also checked with one sized to the width.
+  it('spread Long + Short − e^(−rT) lies in [0, the vegaBuffer and lambda-width bound]', () => {
+    const phi0 = 1 / Math.sqrt(2 * Math.PI);
+    for (const sample of SAMPLES) {
+      const years = timeYears(sample.market);
+      const discount = Math.exp(-sample.rate * years);
+      const vegaPerWidth = 2 * sample.spot * Math.exp(-sample.carry * years) * Math.sqrt(years) * phi0;
+      const widths = (m: MarketAccount) => 1 / (1 - m.callLambda) + 1 / (m.putLambda - 1);
+      const narrowBuffer = (0.05 * sample.spot) / (vegaPerWidth * widths(sample.market));
+      const narrow = { ...sample.market, vegaBuffer: Math.min(sample.market.vegaBuffer, narrowBuffer) };
+
+      for (const market of [sample.market, narrow]) {
+        const pricing: PricingOptions = { ...samplePricing(sample), cdfMethod: 'erfc' };
+        const looseStdDev = (Math.sqrt(market.sigma2) - market.vegaBuffer) * Math.sqrt(years);
+        const lambdaSpan = Math.log(market.putLambda / market.callLambda);
+        const strikeDrop = discount * Math.min(1, (phi0 * lambdaSpan) / looseStdDev);
+
+        for (const barrier of spotSweep(sample.spot, stdDev(market), 13)) {
+          const long = calcPremium(sample.spot, barrier, Side.Long, market, pricing);
+          const short = calcPremium(sample.spot, barrier, Side.Short, market, pricing);
+          const vegaTerm = (market.vegaBuffer * vegaPerWidth * widths(market)) / barrier;
+
+          expect(long + short - discount).toBeGreaterThanOrEqual(-1e-9);
+          expect(long + short - discount).toBeLessThanOrEqual(vegaTerm + strikeDrop + 1e-9);
+        }
+      }
+    }
+  });
+
+  // The strike width has to be small against σ√T, not just against the barrier
+  it('spread Long + Short → 1 as the lambdas tighten and vegaBuffer vanishes', () => {
+    for (const sample of SAMPLES.slice(0, 50)) {
+      const width = 1e-5 * stdDev(sample.market);
+      const market = { ...sample.market, callLambda: 1 - width, putLambda: 1 + width, vegaBuffer: 0 };
+      for (const barrier of spotSweep(sample.spot, stdDev(market), 9)) {
+        const long = calcPremium(sample.spot, barrier, Side.Long, market, { cdfMethod: 'erfc' });
+        const short = calcPremium(sample.spot, barrier, Side.Short, market, { cdfMethod: 'erfc' });
+        expect(long + short).toBeCloseTo(1, 4);
+      }
+    }
+  });
+});
+
+describe('position cost and payout', () => {
+  const FEE_BPS = 100;
+
+  it('cash-or-nothing: pays stake × loaded premium, a winner receives the stake', () => {
+    expect(positionCost(200, 0.4, PayoutMethod.CashOrNothing, FEE_BPS)).toBeCloseTo(200 * 0.404, 12);
+    expect(positionPayout(200, 0.4, PayoutMethod.CashOrNothing, FEE_BPS, true)).toBe(200);
+    expect(positionPayout(200, 0.4, PayoutMethod.CashOrNothing, FEE_BPS, false)).toBe(0);
+  });
+
+  it('odds-based: pays the stake, a winner receives stake / loaded premium', () => {
+    expect(positionCost(200, 0.4, PayoutMethod.OddsBased, FEE_BPS)).toBe(200);
+    expect(positionPayout(200, 0.4, PayoutMethod.OddsBased, FEE_BPS, true)).toBeCloseTo(200 / 0.404, 12);
+    expect(positionPayout(200, 0.4, PayoutMethod.OddsBased, FEE_BPS, false)).toBe(0);
+  });
+
+  it('both methods give the same payout / cost ratio (the net odds)', () => {
+    for (const price of [0.01, 0.25, 0.5, 0.9]) {
+      const ratio = (method: PayoutMethod) =>
+        positionPayout(100, price, method, FEE_BPS, true) / positionCost(100, price, method, FEE_BPS);
+      expect(ratio(PayoutMethod.CashOrNothing)).toBeCloseTo(ratio(PayoutMethod.OddsBased), 9);
+    }
+  });
+
+  it('Long wins strictly above the barrier, Short strictly below; neither on it', () => {
+    expect(isWinning(Side.Long, 100, 100.01)).toBe(true);
+    expect(isWinning(Side.Long, 100, 100)).toBe(false);
+    expect(isWinning(Side.Short, 100, 99.99)).toBe(true);
+    expect(isWinning(Side.Short, 100, 100)).toBe(false);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * MarketAccount Codec
+ *
+ * Decodes raw on-chain MarketAccount data (Anchor discriminator followed by
+ * the Borsh little-endian field layout) into a MarketAccount, and encodes a
+ * MarketAccount back into account bytes. Pubkeys are rendered as base58.
+ *
+ * Layout (after the 8-byte discriminator):
+ *
+ *   bump                u8
+ *   epoch_duration_secs u64
+ *   settle_delay_epochs u64
+ *   fee_bps             u16
+ *   min_stake           u64
+ *   max_stake           u64
+ *   call_lambda         f64
+ *   put_lambda          f64
+ *   vega_buffer         f64
+ *   feed_id             [u8; 32]
+ *   staleness_max_sec   u64
+ *   last_price          f64
+ *   last_ts             i64
+ *   sigma2              f64
+ *   half_life_secs      u64
+ *   vault               Pubkey
+ *   pool                Pubkey
+ *   treasury            Pubkey
+ *   paused              bool
+ *   position_counter    u64
+ */
+
+import { MarketAccount } from './types';
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+type FieldType = 'u8' | 'u16' | 'u64' | 'i64' | 'f64' | 'bool' | 'bytes32' | 'pubkey';
+
+type AccountField = Exclude<keyof MarketAccount, 'volSmile'>;
+
+const MARKET_ACCOUNT_LAYOUT: [AccountField, FieldType][] = [
+  ['bump', 'u8'],
+  ['epochDurationSecs', 'u64'],
+  ['settleDelayEpochs', 'u64'],
+  ['feeBps', 'u16'],
+  ['minStake', 'u64'],
+  ['maxStake', 'u64'],
+  ['callLambda', 'f64'],
+  ['putLambda', 'f64'],
+  ['vegaBuffer', 'f64'],
+  ['feedId', 'bytes32'],
+  ['stalenessMaxSec', 'u64'],
+  ['lastPrice', 'f64'],
+  ['lastTs', 'i64'],
+  ['sigma2', 'f64'],
+  ['halfLifeSecs', 'u64'],
+  ['vault', 'pubkey'],
+  ['pool', 'pubkey'],
+  ['treasury', 'pubkey'],
+  ['paused', 'bool'],
+  ['positionCounter', 'u64'],
+];
+
+const FIELD_SIZES: Record<FieldType, number> = {
+  u8: 1,
+  u16: 2,
+  u64: 8,
+  i64: 8,
+  f64: 8,
+  bool: 1,
+  bytes32: 32,
+  pubkey: 32,
+};
+
+/**
+ * Anchor account discriminator: sha256("account:MarketAccount")[0..8]
+ */
+export const MARKET_ACCOUNT_DISCRIMINATOR = Uint8Array.from([201, 78, 187, 225, 240, 198, 201, 251]);
+
+/**
+ * Account size in bytes, discriminator included
+ */
+export const MARKET_ACCOUNT_SIZE =
+  MARKET_ACCOUNT_DISCRIMINATOR.length +
+  MARKET_ACCOUNT_LAYOUT.reduce((sum, [, type]) => sum + FIELD_SIZES[type], 0);
+
+// ============================================================================
+// BASE58
+// ============================================================================
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Base58 (Bitcoin alphabet) encoding; leading zero bytes become '1'
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  return '1'.repeat(zeros) + digits.reverse().map((d) => BASE58_ALPHABET[d]).join('');
+}
+
+/**
+ * Base58 decoding
+ *
+ * @throws Error on characters outside the alphabet
+ */
+export function base58Decode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`invalid base58 character "${char}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  let zeros = 0;
+  while (zeros < text.length && text[zeros] === '1') zeros++;
+
+  return Uint8Array.from([...new Array<number>(zeros).fill(0), ...bytes.reverse()]);
+}
+
+// ============================================================================
+// RAW DATA PARSING
+// ============================================================================
+
+export type AccountDataEncoding = 'auto' | 'hex' | 'base64';
+
+/**
+ * Convert pasted account data to bytes
+ *
+ * Accepts hex (optionally 0x-prefixed), base64, or the RPC getAccountInfo
+ * form ["<data>", "base64"]. Whitespace is ignored. With 'auto', text made
+ * only of hex digits (even length) is treated as hex, anything else as
+ * base64.
+ *
+ * @throws Error when the text is not valid in the chosen encoding
+ */
+export function parseAccountData(text: string, encoding: AccountDataEncoding = 'auto'): Uint8Array {
+  let data = text.trim();
+
+  if (data.startsWith('[')) {
+    const parsed: unknown = JSON.parse(data);
+    if (
+      !Array.isArray(parsed) ||
+      typeof parsed[0] !== 'string' ||
+      (parsed[1] !== 'base64' && parsed[1] !== 'hex')
+    ) {
+      throw new Error('account data array must be ["<data>", "base64" | "hex"]');
+    }
+    data = parsed[0];
+    encoding = parsed[1];
+  }
+
+  data = data.replace(/\s+/g, '');
+  if (encoding !== 'base64' && /^0x/i.test(data)) {
+    data = data.slice(2);
+    encoding = 'hex';
+  }
+  if (encoding === 'auto') {
+    encoding = /^[0-9a-fA-F]*$/.test(data) && data.length % 2 === 0 ? 'hex' : 'base64';
+  }
+
+  if (encoding === 'hex') {
+    if (!/^[0-9a-fA-F]*$/.test(data) || data.length % 2 !== 0) {
+      throw new Error('account data is not valid hex');
+    }
+    return Uint8Array.from(data.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+  }
+
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+    throw new Error('account data is not valid base64');
+  }
+  const binary = atob(data);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * Lowercase hex encoding of bytes
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Standard base64 encoding of bytes
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+// ============================================================================
+// DECODE / ENCODE
+// ============================================================================
+
+function toSafeInteger(value: bigint, field: string): number {
+  if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+    throw new Error(`account field "${field}" (${value}) exceeds the safe integer range`);
+  }
+  return Number(value);
+}
+
+/**
+ * Decode MarketAccount bytes
+ *
+ * Trailing bytes beyond MARKET_ACCOUNT_SIZE (account padding) are ignored.
+ * An all-zero feedId or pubkey decodes as unset ([] / ''), mirroring
+ * encodeMarketAccount. The simulator-only volSmile is left unset.
+ *
+ * @param data - Account data, discriminator included
+ * @returns Decoded MarketAccount
+ * @throws Error when the data is too short or the discriminator differs
+ */
+export function decodeMarketAccount(data: Uint8Array): MarketAccount {
+  if (data.length < MARKET_ACCOUNT_SIZE) {
+    throw new Error(`account data is ${data.length} bytes, expected at least ${MARKET_ACCOUNT_SIZE}`);
+  }
+  if (!MARKET_ACCOUNT_DISCRIMINATOR.every((b, i) => data[i] === b)) {
+    throw new Error('account discriminator does not match MarketAccount');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const result: Record<string, unknown> = {};
+  let offset = MARKET_ACCOUNT_DISCRIMINATOR.length;
+
+  for (const [field, type] of MARKET_ACCOUNT_LAYOUT) {
+    switch (type) {
+      case 'u8':
+        result[field] = view.getUint8(offset);
+        break;
+      case 'u16':
+        result[field] = view.getUint16(offset, true);
+        break;
+      case 'u64':
+        result[field] = toSafeInteger(view.getBigUint64(offset, true), field);
+        break;
+      case 'i64':
+        result[field] = toSafeInteger(view.getBigInt64(offset, true), field);
+        break;
+      case 'f64':
+        result[field] = view.getFloat64(offset, true);
+        break;
+      case 'bool': {
+        const value = view.getUint8(offset);
+        if (value > 1) throw new Error(`account field "${field}" is not a bool (${value})`);
+        result[field] = value === 1;
+        break;
+      }
+      case 'bytes32': {
+        const bytes = Array.from(data.subarray(offset, offset + 32));
+        result[field] = bytes.every((b) => b === 0) ? [] : bytes;
+        break;
+      }
+      case 'pubkey': {
+        const key = data.subarray(offset, offset + 32);
+        result[field] = key.every((b) => b === 0) ? '' : base58Encode(key);
+        break;
+      }
+    }
+    offset += FIELD_SIZES[type];
+  }
+
+  return result as unknown as MarketAccount;
+}
+
+function requireInteger(value: number, field: string, min: number, max: number): number {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`account field "${field}" must be an integer in [${min}, ${max}], got ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Encode a MarketAccount as account bytes
+ *
+ * An empty feedId or pubkey string is written as 32 zero bytes.
+ *
+ * @param market - Market configuration (volSmile is not encoded)
+ * @returns Account data of MARKET_ACCOUNT_SIZE bytes
+ * @throws Error when a field does not fit its on-chain type
+ */
+export function encodeMarketAccount(market: MarketAccount): Uint8Array {
+  const data = new Uint8Array(MARKET_ACCOUNT_SIZE);
+  const view = new DataView(data.buffer);
+  data.set(MARKET_ACCOUNT_DISCRIMINATOR, 0);
+  let offset = MARKET_ACCOUNT_DISCRIMINATOR.length;
+
+  for (const [field, type] of MARKET_ACCOUNT_LAYOUT) {
+    const value = market[field];
+    switch (type) {
+      case 'u8':
+        view.setUint8(offset, requireInteger(value as number, field, 0, 0xff));
+        break;
+      case 'u16':
+        view.setUint16(offset, requireInteger(value as number, field, 0, 0xffff), true);
+        break;
+      case 'u64':
+        view.setBigUint64(
+          offset,
+          BigInt(requireInteger(value as number, field, 0, Number.MAX_SAFE_INTEGER)),
+          true
+        );
+        break;
+      case 'i64':
+        view.setBigInt64(
+          offset,
+          BigInt(requireInteger(value as number, field, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER)),
+          true
+        );
+        break;
+      case 'f64':
+        view.setFloat64(offset, value as number, true);
+        break;
+      case 'bool':
+        view.setUint8(offset, value ? 1 : 0);
+        break;
+      case 'bytes32': {
+        const bytes = value as number[];
+        if (bytes.length !== 0 && bytes.length !== 32) {
+          throw new Error(`account field "${field}" must be 32 bytes, got ${bytes.length}`);
+        }
+        bytes.forEach((b, i) => (data[offset + i] = requireInteger(b, field, 0, 0xff)));
+        break;
+      }
+      case 'pubkey': {
+        const key = value === '' ? new Uint8Array(32) : base58Decode(value as string);
+        if (key.length !== 32) {
+          throw new Error(`account field "${field}" must be a 32-byte base58 pubkey`);
+        }
+        data.set(key, offset);
+        break;
+      }
+    }
+    offset += FIELD_SIZES[type];
+  }
+
+  return data;
+}
+
+/**
+ * Decode pasted account data (hex / base64) into a MarketAccount
+ *
+ * Convenience wrapper over parseAccountData and decodeMarketAccount.
+ */
+export function importMarketAccount(
+  text: string,
+  encoding: AccountDataEncoding = 'auto'
+): MarketAccount {
+  return decodeMarketAccount(parseAccountData(text, encoding));
+}
+
@@ -0,0 +1,230 @@
+/**
+ * Historical Backtest
+ *
+ * Replays a price tick history through the pricing stack: the history is cut
+ * into epochs of epochDurationSecs, positions are quoted with calcPremium at
+ * each epoch open and settled against the realised price settleDelayEpochs
+ * later.
+ */
+
+import {
+  calcPremium,
+  isWinning,
+  positionCost,
+  positionPayout,
+  PricingOptions,
+} from './pricing';
+import { solveForBarrier } from './barrier-solver';
+import { isWholeSettleDelay } from './market-config';
+import { priceAt } from './price-ticks';
+import { MarketAccount, PayoutMethod, PriceTick, Side } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Barrier selection strategy
+ *
+ * - fixedOdds: barrier solved with solveForBarrier so the fair premium is 1/odds
+ *   (unreachable odds use the closest reachable barrier)
+ * - barrierOffset: barrier offsetPct away from spot (above for Long, below for Short)
+ */
+export type BacktestStrategy = 'fixedOdds' | 'barrierOffset';
+
+export interface BacktestConfig {
+  strategy: BacktestStrategy;
+  odds: number;
+  offsetPct: number;
+  sides: Side[]; // Sides opened at every epoch
+  stake: number;
+  payoutMethod: PayoutMethod;
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  strategy: 'fixedOdds',
+  odds: 2,
+  offsetPct: 0.1,
+  sides: [Side.Long, Side.Short],
+  stake: 100,
+  payoutMethod: PayoutMethod.CashOrNothing,
+};
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface BacktestPosition {
+  side: Side;
+  barrier: number;
+  premium: number; // Fair quoted premium from calcPremium
+  stake: number;
+  won: boolean;
+  cost: number; // Paid by trader to the pool at open
+  payout: number; // Paid by the pool to the trader at settlement
+}
+
+export interface BacktestEpoch {
+  epoch: number; // Epoch index since the unix epoch
+  openTs: number;
+  settleTs: number;
+  spot: number;
+  settlePrice: number;
+  positions: BacktestPosition[];
+  poolPnl: number;
+  traderPnl: number;
+  cumulativePoolPnl: number;
+  cumulativeTraderPnl: number;
+}
+
+export interface BacktestSummary {
+  epochs: number;
+  positions: number;
+  wins: number;
+  winRate: number; // Realised frequency of winning positions
+  averagePremium: number; // Mean fair premium quoted (the implied win probability)
+  calibrationGap: number; // winRate − averagePremium
+  poolPnl: number;
+  traderPnl: number;
+  totalCost: number;
+  totalPayout: number;
+}
+
+export interface BacktestResult {
+  epochs: BacktestEpoch[];
+  summary: BacktestSummary;
+}
+
+// ============================================================================
+// BACKTEST
+// ============================================================================
+
+/**
+ * Choose the barrier for a position under the configured strategy
+ */
+function selectBarrier(
+  config: BacktestConfig,
+  spot: number,
+  side: Side,
+  market: MarketAccount,
+  pricing: PricingOptions
+): number {
+  if (config.strategy === 'fixedOdds') {
+    return solveForBarrier(1 / config.odds, spot, side, market, pricing).barrier;
+  }
+
+  const offset = Math.abs(config.offsetPct) / 100;
+  return side === Side.Long ? spot * (1 + offset) : spot * (1 - offset);
+}
+
+/**
+ * Run a backtest over a tick history
+ *
+ * Epoch boundaries are aligned to multiples of epochDurationSecs. The spot
+ * at open and the settlement price are the last ticks at or before the
+ * respective boundaries; epochs whose settlement lies beyond the final tick
+ * are not traded.
+ *
+ * @param ticks - Ticks sorted by ascending timestamp
+ * @param market - Market configuration
+ * @param config - Strategy and position settings
+ * @param pricing - Pricing options (CDF implementation)
+ * @returns Per-epoch results and summary
+ * @throws Error when settleDelayEpochs is not an integer ≥ 1
+ */
+export function runBacktest(
+  ticks: PriceTick[],
+  market: MarketAccount,
+  config: BacktestConfig,
+  pricing: PricingOptions = {}
+): BacktestResult {
+  if (!isWholeSettleDelay(market)) {
+    throw new Error(`settleDelayEpochs must be an integer ≥ 1, got ${market.settleDelayEpochs}`);
+  }
+
+  const epochs: BacktestEpoch[] = [];
+  const duration = market.epochDurationSecs;
+
+  if (ticks.length === 0 || duration <= 0) {
+    return { epochs, summary: summarize(epochs) };
+  }
+
+  const delaySecs = market.settleDelayEpochs * duration;
+  const firstEpoch = Math.ceil(ticks[0].ts / duration);
+  const lastTs = ticks[ticks.length - 1].ts;
+  const stake = Math.min(Math.max(config.stake, market.minStake), market.maxStake);
+
+  let cumulativePoolPnl = 0;
+  let cumulativeTraderPnl = 0;
+
+  for (let epoch = firstEpoch; epoch * duration + delaySecs <= lastTs; epoch++) {
+    const openTs = epoch * duration;
+    const settleTs = openTs + delaySecs;
+    const spot = priceAt(ticks, openTs);
+    const settlePrice = priceAt(ticks, settleTs);
+    if (spot === null || settlePrice === null) continue;
+
+    const positions: BacktestPosition[] = config.sides.map((side) => {
+      const barrier = selectBarrier(config, spot, side, market, pricing);
+      const premium = calcPremium(spot, barrier, side, market, pricing);
+      const won = isWinning(side, barrier, settlePrice);
+
+      return {
+        side,
+        barrier,
+        premium,
+        stake,
+        won,
+        cost: positionCost(stake, premium, config.payoutMethod, market.feeBps),
+        payout: positionPayout(stake, premium, config.payoutMethod, market.feeBps, won),
+      };
+    });
+
+    const poolPnl = positions.reduce((sum, p) => sum + p.cost - p.payout, 0);
+    cumulativePoolPnl += poolPnl;
+    cumulativeTraderPnl -= poolPnl;
+
+    epochs.push({
+      epoch,
+      openTs,
+      settleTs,
+      spot,
+      settlePrice,
+      positions,
+      poolPnl,
+      traderPnl: -poolPnl,
+      cumulativePoolPnl,
+      cumulativeTraderPnl,
+    });
+  }
+
+  return { epochs, summary: summarize(epochs) };
+}
+
+/**
+ * Aggregate backtest epochs
+ */
+function summarize(epochs: BacktestEpoch[]): BacktestSummary {
+  const positions = epochs.flatMap((e) => e.positions);
+  const wins = positions.filter((p) => p.won).length;
+  const totalCost = positions.reduce((sum, p) => sum + p.cost, 0);
+  const totalPayout = positions.reduce((sum, p) => sum + p.payout, 0);
+  const winRate = positions.length > 0 ? wins / positions.length : 0;
+  const averagePremium =
+    positions.length > 0
+      ? positions.reduce((sum, p) => sum + p.premium, 0) / positions.length
+      : 0;
+
+  return {
+    epochs: epochs.length,
+    positions: positions.length,
+    wins,
+    winRate,
+    averagePremium,
+    calibrationGap: winRate - averagePremium,
+    poolPnl: totalCost - totalPayout,
+    traderPnl: totalPayout - totalCost,
+    totalCost,
+    totalPayout,
+  };
+}
@@ -0,0 +1,593 @@
+/**
+ * Barrier and Implied Volatility Solvers
+ *
+ * Inverts the digital pricer: finds the barrier whose premium equals a
+ * target premium (1 / odds), or the flat volatility σ under which a
+ * (barrier, premium) observation is reproduced. The range and touch
+ * products are inverted the same way (symmetric range width, touch barrier).
+ *
+ * The search domain is spot·e^(±Z·σ√T), i.e. Z standard deviations of the
+ * settlement move. The domain is scanned on a log-spaced grid to bracket
+ * the target and Brent's method refines the root. Targets outside the
+ * premiums reachable on the domain are reported rather than clamped to an
+ * edge. The implied volatility solve uses the same scan-and-refine scheme
+ * over a log-spaced σ domain.
+ *
+ * References:
+ * - R. P. Brent (1973): Algorithms for Minimization without Derivatives, Ch. 4
+ * - W. H. Press et al. (2007): Numerical Recipes, 3rd ed., §9.3
+ */
+
+import { SECONDS_PER_YEAR } from './black-scholes';
+import { calcPremium, timeRemainingSecs, PricingOptions } from './pricing';
+import { calcRangePremium, calcTouchPremium } from './products';
+import { MarketAccount, ProductType, Side } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of a barrier solve
+ *
+ * - converged: barrier prices the target within tolerance
+ * - oddsTooLow: target premium above every reachable premium (odds too low)
+ * - oddsTooHigh: target premium below every reachable premium (odds too high)
+ */
+export type BarrierSolveStatus = 'converged' | 'oddsTooLow' | 'oddsTooHigh';
+
+/**
+ * Premiums reachable on the search domain
+ *
+ * minOdds = 1 / maxPremium, maxOdds = 1 / minPremium (Infinity when the
+ * smallest premium is 0).
+ */
+export interface AchievableRange {
+  minPremium: number;
+  maxPremium: number;
+  minOdds: number;
+  maxOdds: number;
+  minBarrier: number; // Lower end of the search domain
+  maxBarrier: number; // Upper end of the search domain
+}
+
+/**
+ * Result of solveForBarrier
+ *
+ * For a status other than converged, barrier is the domain point whose
+ * premium is closest to the target.
+ */
+export interface BarrierSolveResult {
+  barrier: number;
+  premium: number; // Premium at the returned barrier
+  iterations: number; // Brent iterations (0 when not bracketed)
+  residual: number; // premium − targetPremium
+  status: BarrierSolveStatus;
+  range: AchievableRange;
+}
+
+export interface SolverOptions extends PricingOptions {
+  tolerance?: number; // Absolute barrier tolerance (default 1e-6)
+  maxIterations?: number; // Brent iteration cap (default 100)
+  maxStdDevs?: number; // Domain half-width Z in σ√T units (default 8)
+  scanPoints?: number; // Grid points used for bracketing (default 64)
+}
+
+// ============================================================================
+// ROOT FINDING
+// ============================================================================
+
+/**
+ * Brent's method on a bracket [a, b] with f(a)·f(b) ≤ 0
+ *
+ * Combines inverse quadratic interpolation, secant steps and bisection;
+ * convergence is superlinear on smooth functions and never worse than
+ * bisection.
+ */
+function brentRoot(
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  fa: number,
+  fb: number,
+  tolerance: number,
+  maxIterations: number
+): { x: number; fx: number; iterations: number } {
+  let c = b;
+  let fc = fb;
+  let d = b - a;
+  let e = d;
+
+  for (let iter = 1; iter <= maxIterations; iter++) {
+    // Keep the root between b and c
+    if ((fb > 0 && fc > 0) || (fb < 0 && fc < 0)) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    // b is the best estimate so far
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b;
+      b = c;
+      c = a;
+      fa = fb;
+      fb = fc;
+      fc = fa;
+    }
+
+    const tol1 = 2 * Number.EPSILON * Math.abs(b) + 0.5 * tolerance;
+    const xm = 0.5 * (c - b);
+    if (Math.abs(xm) <= tol1 || fb === 0) {
+      return { x: b, fx: fb, iterations: iter };
+    }
+
+    if (Math.abs(e) >= tol1 && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation (secant when a = c)
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * xm * s;
+        q = 1 - s;
+      } else {
+        const qa = fa / fc;
+        const r = fb / fc;
+        p = s * (2 * xm * qa * (qa - r) - (b - a) * (r - 1));
+        q = (qa - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+
+      if (2 * p < Math.min(3 * xm * q - Math.abs(tol1 * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = xm;
+        e = d;
+      }
+    } else {
+      // Bisection
+      d = xm;
+      e = d;
+    }
+
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tol1 ? d : xm >= 0 ? tol1 : -tol1;
+    fb = f(b);
+  }
+
+  return { x: b, fx: fb, iterations: maxIterations };
+}
+
+/**
+ * Log-spaced grid of n points on [lo, hi]
+ */
+function logGrid(lo: number, hi: number, points: number): number[] {
+  const n = Math.max(Math.floor(points), 2);
+  const logLo = Math.log(lo);
+  const logStep = (Math.log(hi) - logLo) / (n - 1);
+  return Array.from({ length: n }, (_, i) => Math.exp(logLo + logStep * i));
+}
+
+/**
+ * Outcome of scanSolve
+ *
+ * For aboveRange / belowRange, x is the grid point whose premium is
+ * closest to the target.
+ */
+interface ScanSolution {
+  x: number;
+  premium: number;
+  iterations: number;
+  outcome: 'converged' | 'aboveRange' | 'belowRange';
+  minPremium: number;
+  maxPremium: number;
+}
+
+/**
+ * Scan a grid for the first sign change of premium − target, in grid
+ * order, and refine it with Brent's method
+ */
+function scanSolve(
+  premiumAt: (x: number) => number,
+  grid: number[],
+  targetPremium: number,
+  tolerance: number,
+  maxIterations: number
+): ScanSolution {
+  const premiums = grid.map(premiumAt);
+
+  let minIndex = 0;
+  let maxIndex = 0;
+  premiums.forEach((p, i) => {
+    if (p < premiums[minIndex]) minIndex = i;
+    if (p > premiums[maxIndex]) maxIndex = i;
+  });
+
+  const solution = (
+    x: number,
+    premium: number,
+    iterations: number,
+    outcome: ScanSolution['outcome']
+  ): ScanSolution => ({
+    x,
+    premium,
+    iterations,
+    outcome,
+    minPremium: premiums[minIndex],
+    maxPremium: premiums[maxIndex],
+  });
+
+  for (let i = 0; i < grid.length; i++) {
+    const fi = premiums[i] - targetPremium;
+    if (fi === 0) return solution(grid[i], premiums[i], 0, 'converged');
+    if (i + 1 < grid.length) {
+      const fj = premiums[i + 1] - targetPremium;
+      if ((fi > 0 && fj < 0) || (fi < 0 && fj > 0)) {
+        const root = brentRoot(
+          (x) => premiumAt(x) - targetPremium,
+          grid[i],
+          grid[i + 1],
+          fi,
+          fj,
+          tolerance,
+          maxIterations
+        );
+        return solution(root.x, root.fx + targetPremium, root.iterations, 'converged');
+      }
+    }
+  }
+
+  // Not bracketed: target outside the reachable premiums
+  return targetPremium > premiums[maxIndex]
+    ? solution(grid[maxIndex], premiums[maxIndex], 0, 'aboveRange')
+    : solution(grid[minIndex], premiums[minIndex], 0, 'belowRange');
+}
+
+// ============================================================================
+// BARRIER SOLVE
+// ============================================================================
+
+/**
+ * Barrier search domain spot·e^(±Z·σ√T)
+ *
+ * σ is the flat market volatility and T the time remaining after the entry
+ * offset; σ√T is floored at 1e-6 so the domain stays non-empty for zero
+ * volatility or zero time.
+ */
+function searchDomain(
+  spot: number,
+  market: MarketAccount,
+  maxStdDevs: number,
+  entryOffsetSecs?: number
+): [number, number] {
+  const width = maxStdDevs * settlementStdDev(market, entryOffsetSecs);
+  return [spot * Math.exp(-width), spot * Math.exp(width)];
+}
+
+/**
+ * σ√T of the log settlement move, floored at 1e-6
+ */
+function settlementStdDev(market: MarketAccount, entryOffsetSecs?: number): number {
+  const timeYears = timeRemainingSecs(market, entryOffsetSecs) / SECONDS_PER_YEAR;
+  return Math.max(Math.sqrt(Math.max(market.sigma2, 0) * timeYears), 1e-6);
+}
+
+/**
+ * Odds range from the scanned premiums
+ */
+function achievableRange(
+  solution: ScanSolution,
+  minBarrier: number,
+  maxBarrier: number
+): AchievableRange {
+  return {
+    minPremium: solution.minPremium,
+    maxPremium: solution.maxPremium,
+    minOdds: 1 / solution.maxPremium,
+    maxOdds: solution.minPremium > 0 ? 1 / solution.minPremium : Infinity,
+    minBarrier,
+    maxBarrier,
+  };
+}
+
+function barrierStatus(solution: ScanSolution): BarrierSolveStatus {
+  return solution.outcome === 'converged'
+    ? 'converged'
+    : solution.outcome === 'aboveRange'
+      ? 'oddsTooLow'
+      : 'oddsTooHigh';
+}
+
+/**
+ * Solve the barrier that prices a target premium
+ *
+ * Steps:
+ * 1. Scan the domain on a log grid, recording the reachable premium range
+ * 2. Bracket the first sign change of premium − target, walking from the
+ *    in-the-money end (low barriers for Long, high barriers for Short)
+ * 3. Refine with Brent's method
+ *
+ * @param targetPremium - Fair premium to match (1 / odds)
+ * @param spot - Current spot price
+ * @param side - Long or Short
+ * @param market - Market configuration
+ * @param options - Solver and pricing options
+ * @returns Barrier, premium, iterations, residual, status and reachable range
+ */
+export function solveForBarrier(
+  targetPremium: number,
+  spot: number,
+  side: Side,
+  market: MarketAccount,
+  options: SolverOptions = {}
+): BarrierSolveResult {
+  const {
+    tolerance = 1e-6,
+    maxIterations = 100,
+    maxStdDevs = 8,
+    scanPoints = 64,
+    ...pricing
+  } = options;
+
+  const premiumAt = (barrier: number) => calcPremium(spot, barrier, side, market, pricing);
+  const [minBarrier, maxBarrier] = searchDomain(spot, market, maxStdDevs, pricing.entryOffsetSecs);
+
+  // In-the-money end first
+  const grid = logGrid(minBarrier, maxBarrier, scanPoints);
+  if (side === Side.Short) grid.reverse();
+  const solution = scanSolve(premiumAt, grid, targetPremium, tolerance, maxIterations);
+
+  return {
+    barrier: solution.x,
+    premium: solution.premium,
+    iterations: solution.iterations,
+    residual: solution.premium - targetPremium,
+    status: barrierStatus(solution),
+    range: achievableRange(solution, minBarrier, maxBarrier),
+  };
+}
+
+// ============================================================================
+// RANGE AND TOUCH SOLVES
+// ============================================================================
+
+/**
+ * Result of solveRangeWidth
+ *
+ * The range is [spot − halfWidth, spot + halfWidth]. range.minBarrier and
+ * range.maxBarrier are the barriers of the widest range searched.
+ */
+export interface RangeWidthSolveResult {
+  halfWidth: number; // In price units
+  lower: number;
+  upper: number;
+  premium: number; // Range premium at the returned width
+  iterations: number; // Brent iterations (0 when not bracketed)
+  residual: number; // premium − targetPremium
+  status: BarrierSolveStatus;
+  range: AchievableRange;
+}
+
+/**
+ * Solve the symmetric range width that prices a target premium
+ *
+ * The half-width w is searched on a log grid over
+ * [10⁻³·σ√T, min(Z·σ√T, 0.99)]·spot from narrow to wide; the range premium
+ * rises with w, so a target above the widest range is oddsTooLow.
+ *
+ * @param targetPremium - Fair premium to match (1 / odds)
+ * @param spot - Current spot price, the centre of the range
+ * @param market - Market configuration
+ * @param options - Solver and pricing options
+ * @returns Half-width, barriers, premium, iterations, residual, status and range
+ */
+export function solveRangeWidth(
+  targetPremium: number,
+  spot: number,
+  market: MarketAccount,
+  options: SolverOptions = {}
+): RangeWidthSolveResult {
+  const {
+    tolerance = 1e-6,
+    maxIterations = 100,
+    maxStdDevs = 8,
+    scanPoints = 64,
+    ...pricing
+  } = options;
+
+  const stdDev = settlementStdDev(market, pricing.entryOffsetSecs);
+  const maxWidth = Math.min(maxStdDevs * stdDev, 0.99) * spot;
+  const minWidth = Math.min(1e-3 * stdDev * spot, maxWidth / 2);
+
+  const premiumAt = (halfWidth: number) =>
+    calcRangePremium(spot, spot - halfWidth, spot + halfWidth, market, pricing);
+  const solution = scanSolve(
+    premiumAt,
+    logGrid(minWidth, maxWidth, scanPoints),
+    targetPremium,
+    tolerance,
+    maxIterations
+  );
+
+  return {
+    halfWidth: solution.x,
+    lower: spot - solution.x,
+    upper: spot + solution.x,
+    premium: solution.premium,
+    iterations: solution.iterations,
+    residual: solution.premium - targetPremium,
+    status: barrierStatus(solution),
+    range: achievableRange(solution, spot - maxWidth, spot + maxWidth),
+  };
+}
+
+/**
+ * Solve the touch barrier that prices a target premium
+ *
+ * side picks the direction: Long searches barriers above spot, Short below.
+ * The distance is scanned on a log grid over spot·e^(±[10⁻³, Z]·σ√T) from
+ * near to far; one-touch premiums fall and no-touch premiums rise with the
+ * distance.
+ *
+ * @param targetPremium - Fair premium to match (1 / odds)
+ * @param spot - Current spot price
+ * @param side - Long (barrier above spot) or Short (below)
+ * @param type - OneTouch or NoTouch
+ * @param market - Market configuration
+ * @param options - Solver and pricing options
+ * @returns Barrier, premium, iterations, residual, status and reachable range
+ */
+export function solveTouchBarrier(
+  targetPremium: number,
+  spot: number,
+  side: Side,
+  type: ProductType.OneTouch | ProductType.NoTouch,
+  market: MarketAccount,
+  options: SolverOptions = {}
+): BarrierSolveResult {
+  const {
+    tolerance = 1e-6,
+    maxIterations = 100,
+    maxStdDevs = 8,
+    scanPoints = 64,
+    ...pricing
+  } = options;
+
+  const stdDev = settlementStdDev(market, pricing.entryOffsetSecs);
+  const direction = side === Side.Long ? 1 : -1;
+  const grid = logGrid(1e-3 * stdDev, maxStdDevs * stdDev, scanPoints).map(
+    (distance) => spot * Math.exp(direction * distance)
+  );
+
+  const premiumAt = (barrier: number) => calcTouchPremium(spot, barrier, type, market, pricing);
+  const solution = scanSolve(premiumAt, grid, targetPremium, tolerance, maxIterations);
+
+  const far = grid[grid.length - 1];
+  return {
+    barrier: solution.x,
+    premium: solution.premium,
+    iterations: solution.iterations,
+    residual: solution.premium - targetPremium,
+    status: barrierStatus(solution),
+    range: achievableRange(solution, Math.min(grid[0], far), Math.max(grid[0], far)),
+  };
+}
+
+// ============================================================================
+// IMPLIED VOLATILITY SOLVE
+// ============================================================================
+
+/**
+ * Outcome of an implied volatility solve
+ *
+ * - converged: σ reproduces the observed premium within tolerance
+ * - premiumTooLow: observed premium below every premium on the σ domain
+ * - premiumTooHigh: observed premium above every premium on the σ domain
+ */
+export type ImpliedVolStatus = 'converged' | 'premiumTooLow' | 'premiumTooHigh';
+
+/**
+ * Premiums reachable on the σ domain
+ */
+export interface ImpliedVolRange {
+  minPremium: number;
+  maxPremium: number;
+  minVol: number; // Lower end of the σ domain
+  maxVol: number; // Upper end of the σ domain
+}
+
+/**
+ * Result of solveImpliedVol
+ *
+ * For a status other than converged, volatility is the domain point whose
+ * premium is closest to the target.
+ */
+export interface ImpliedVolResult {
+  volatility: number; // Annualized σ
+  sigma2: number; // σ², the MarketAccount field
+  premium: number; // Premium at the returned σ
+  iterations: number; // Brent iterations (0 when not bracketed)
+  residual: number; // premium − targetPremium
+  status: ImpliedVolStatus;
+  range: ImpliedVolRange;
+}
+
+export interface ImpliedVolOptions extends PricingOptions {
+  tolerance?: number; // Absolute σ tolerance (default 1e-8)
+  maxIterations?: number; // Brent iteration cap (default 100)
+  minVol?: number; // Lower end of the σ domain (default 1e-4)
+  maxVol?: number; // Upper end of the σ domain (default 10, i.e. 1000%)
+  scanPoints?: number; // Grid points used for bracketing (default 64)
+}
+
+/**
+ * Solve the flat volatility that prices an observed premium
+ *
+ * The market's lambdas, vegaBuffer and pricing model are kept; only sigma2
+ * varies and any volSmile is ignored. The premium need not be monotone in
+ * σ (the ±vegaBuffer skew and the −σ²T/2 drift can bend it), so the domain
+ * is scanned from low σ and the first crossing is refined with Brent's
+ * method. Near the money the digital is almost insensitive to σ and most
+ * premiums have no solution.
+ *
+ * @param targetPremium - Observed fair premium
+ * @param spot - Spot price at the observation
+ * @param barrier - Barrier of the observed quote
+ * @param side - Long or Short
+ * @param market - Market configuration
+ * @param options - Solver and pricing options
+ * @returns σ, sigma2, premium, iterations, residual, status and reachable range
+ */
+export function solveImpliedVol(
+  targetPremium: number,
+  spot: number,
+  barrier: number,
+  side: Side,
+  market: MarketAccount,
+  options: ImpliedVolOptions = {}
+): ImpliedVolResult {
+  const {
+    tolerance = 1e-8,
+    maxIterations = 100,
+    minVol = 1e-4,
+    maxVol = 10,
+    scanPoints = 64,
+    ...pricing
+  } = options;
+
+  const premiumAt = (volatility: number) =>
+    calcPremium(
+      spot,
+      barrier,
+      side,
+      { ...market, sigma2: volatility * volatility, volSmile: undefined },
+      pricing
+    );
+
+  // Scan from low σ
+  const solution = scanSolve(
+    premiumAt,
+    logGrid(minVol, maxVol, scanPoints),
+    targetPremium,
+    tolerance,
+    maxIterations
+  );
+
+  return {
+    volatility: solution.x,
+    sigma2: solution.x * solution.x,
+    premium: solution.premium,
+    iterations: solution.iterations,
+    residual: solution.premium - targetPremium,
+    status:
+      solution.outcome === 'converged'
+        ? 'converged'
+        : solution.outcome === 'aboveRange'
+          ? 'premiumTooHigh'
+          : 'premiumTooLow',
+    range: { minPremium: solution.minPremium, maxPremium: solution.maxPremium, minVol, maxVol },
+  };
+}
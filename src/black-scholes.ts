@@ -4,7 +4,10 @@
  * References:
  * - Abramowitz & Stegun (1964): Handbook of Mathematical Functions, Section 7.1.26
  * - C. Hastings: Approximations for Digital Computers (1955)
+ * - W. J. Cody (1969): Rational Chebyshev Approximations for the Error Function
+ * - P. J. Acklam (2003): An algorithm for computing the inverse normal CDF
  * - Black-Scholes (1973): Pricing of Options and Corporate Liabilities
+ * - R. C. Merton (1973): Theory of Rational Option Pricing (continuous yield)
  */
 
 // ============================================================================
@@ -27,7 +30,7 @@ export const SECONDS_PER_YEAR = 365.25 * 24 * 3600;
  * @param x - Input value
  * @returns Φ(x) - Probability that standard normal ≤ x
  */
-function normalCDF(x: number): number {
+export function normalCDF(x: number): number {
   // Hastings coefficients (better accuracy than standard A&S)
   const a1 = 0.31938153;
   const a2 = -0.356563782;
@@ -60,6 +63,163 @@ function normalCDF(x: number): number {
   return sign === 1 ? cdf : 1.0 - cdf;
 }
 
+/**
+ * Complementary Error Function erfc(x)
+ *
+ * Uses W. J. Cody's rational Chebyshev approximations on three intervals
+ * (|x| ≤ 0.46875, ≤ 4, > 4). Relative accuracy ≈ 1×10⁻¹⁶ including the
+ * far tail, where erfc underflows only beyond x ≈ 26.5.
+ *
+ * The factor e^(-x²) is evaluated as e^(-x̃²)·e^(-(x-x̃)(x+x̃)) with x̃ = x
+ * truncated to 1/16 to avoid cancellation for large x.
+ *
+ * @param x - Input value
+ * @returns erfc(x) = 1 - erf(x)
+ */
+export function erfc(x: number): number {
+  const y = Math.abs(x);
+  let result: number;
+
+  if (y <= 0.46875) {
+    // erf(x) = x · P(x²) / Q(x²)
+    const a = [3.1611237438705656, 113.86415415105016, 377.485237685302, 3209.3775891384694, 0.18577770618460315];
+    const b = [23.601290952344122, 244.02463793444417, 1282.6165260773723, 2844.236833439171];
+    const ysq = y > 1.11e-16 ? y * y : 0;
+    let xnum = a[4] * ysq;
+    let xden = ysq;
+    for (let i = 0; i < 3; i++) {
+      xnum = (xnum + a[i]) * ysq;
+      xden = (xden + b[i]) * ysq;
+    }
+    const erf = (x * (xnum + a[3])) / (xden + b[3]);
+    return 1.0 - erf;
+  }
+
+  if (y <= 4.0) {
+    const c = [
+      0.5641884969886701, 8.883149794388376, 66.11919063714163, 298.6351381974001,
+      881.952221241769, 1712.0476126340707, 2051.0783778260716, 1230.3393547979972,
+      2.1531153547440383e-8,
+    ];
+    const d = [
+      15.744926110709835, 117.6939508913125, 537.1811018620099, 1621.3895745666903,
+      3290.7992357334597, 4362.619090143247, 3439.3676741437216, 1230.3393548037495,
+    ];
+    let xnum = c[8] * y;
+    let xden = y;
+    for (let i = 0; i < 7; i++) {
+      xnum = (xnum + c[i]) * y;
+      xden = (xden + d[i]) * y;
+    }
+    result = (xnum + c[7]) / (xden + d[7]);
+  } else {
+    const p = [
+      0.30532663496123236, 0.36034489994980445, 0.12578172611122926,
+      0.016083785148742275, 6.587491615298378e-4, 0.016315387137302097,
+    ];
+    const q = [
+      2.568520192289822, 1.8729528499234604, 0.5279051029514285,
+      0.06051834131244132, 0.0023352049762686918,
+    ];
+    const SQRT_INV_PI = 0.5641895835477563;
+    const ysq = 1.0 / (y * y);
+    let xnum = p[5] * ysq;
+    let xden = ysq;
+    for (let i = 0; i < 4; i++) {
+      xnum = (xnum + p[i]) * ysq;
+      xden = (xden + q[i]) * ysq;
+    }
+    result = (ysq * (xnum + p[4])) / (xden + q[4]);
+    result = (SQRT_INV_PI - result) / y;
+  }
+
+  // Multiply by e^(-y²) without losing precision
+  const yTrunc = Math.trunc(y * 16) / 16;
+  const del = (y - yTrunc) * (y + yTrunc);
+  result = Math.exp(-yTrunc * yTrunc) * Math.exp(-del) * result;
+
+  return x < 0 ? 2.0 - result : result;
+}
+
+/**
+ * High-Precision CDF of Standard Normal Distribution
+ *
+ * Formula: Φ(x) = ½ · erfc(-x / √2)
+ *
+ * Unlike the Hastings approximation (absolute error ~1e-7), the relative
+ * error stays near machine precision deep into the lower tail, so tiny
+ * deep out-of-the-money premiums remain meaningful.
+ *
+ * @param x - Input value
+ * @returns Φ(x) - Probability that standard normal ≤ x
+ */
+export function normalCDFErfc(x: number): number {
+  return 0.5 * erfc(-x * Math.SQRT1_2);
+}
+
+/**
+ * Normal CDF implementation selector
+ *
+ * - hastings: A&S / Hastings 5-term polynomial (default, mirrors on-chain)
+ * - erfc: Cody erfc-based high-precision CDF
+ */
+export type CdfMethod = 'hastings' | 'erfc';
+
+/**
+ * Resolve a CDF implementation by name
+ */
+export function getNormalCDF(method: CdfMethod = 'hastings'): (x: number) => number {
+  return method === 'erfc' ? normalCDFErfc : normalCDF;
+}
+
+/**
+ * Inverse CDF (Quantile) of Standard Normal Distribution
+ *
+ * Acklam's rational approximation (relative error < 1.15×10⁻⁹) followed by
+ * one Halley step against normalCDFErfc, giving close to full double
+ * precision.
+ *
+ * Regions:
+ * - p < 0.02425: tail form in q = √(-2·ln p)
+ * - p > 0.97575: tail form in q = √(-2·ln(1-p)), negated
+ * - otherwise: central form in q = p - ½
+ *
+ * @param p - Probability in (0, 1)
+ * @returns x such that Φ(x) = p (±Infinity at 0 / 1, NaN outside [0, 1])
+ */
+export function inverseNormalCDF(p: number): number {
+  if (!(p >= 0 && p <= 1)) return NaN;
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  let x: number;
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    const q = p - 0.5;
+    const r = q * q;
+    x = ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  // Halley refinement: e = Φ(x) - p, u = e·√(2π)·e^(x²/2)
+  const e = normalCDFErfc(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp(0.5 * x * x);
+  return x - u / (1 + 0.5 * x * u);
+}
+
 // ============================================================================
 // BLACK-SCHOLES VANILLA OPTIONS
 // ============================================================================
@@ -69,84 +229,137 @@ interface BSParams {
   strike: number; // Strike price (K)
   volatility: number; // Implied volatility σ (annualized)
   timeYears: number; // Time to expiration in years
+  rate?: number; // Risk-free rate r (annualized, continuous; default 0)
+  carry?: number; // Carry / funding yield q (annualized, continuous; default 0)
+  cdfMethod?: CdfMethod; // Normal CDF implementation (default: hastings)
 }
 
 /**
  * Black-Scholes European Call Option Price
  *
- * Assumes: r ≈ 0 (zero risk-free rate) and q = 0 (no dividends)
+ * Generalised Black-Scholes (Merton) with risk-free rate r and carry q.
+ * For a perpetual future, q is the funding rate paid by longs; r = q = 0
+ * reproduces the original zero-rate pricer.
  *
  * Formula:
- *   C = S·Φ(d₁) - K·Φ(d₂)
+ *   C = S·e^(-qT)·Φ(d₁) - K·e^(-rT)·Φ(d₂)
  * where:
- *   d₁ = [ln(S/K) + ½σ²T] / (σ√T)
+ *   d₁ = [ln(S/K) + (r - q + ½σ²)T] / (σ√T)
  *   d₂ = d₁ - σ√T
  *
  * @param params - BSParams object with spot, strike, volatility, timeYears
  * @returns Call option price
  */
 function blackScholesCall(params: BSParams): number {
-  const { spot, strike, volatility, timeYears } = params;
+  const { spot, strike, volatility, timeYears, rate = 0, carry = 0 } = params;
+  const cdf = getNormalCDF(params.cdfMethod);
 
-  // Intrinsic value (lower bound for option price)
+  const spotDiscount = Math.exp(-carry * Math.max(timeYears, 0));
+  const strikeDiscount = Math.exp(-rate * Math.max(timeYears, 0));
+
+  // Intrinsic value of the forward (lower bound for option price)
   if (volatility <= 0 || timeYears <= 0) {
-    return Math.max(spot - strike, 0);
+    return Math.max(spot * spotDiscount - strike * strikeDiscount, 0);
   }
 
   const sqrtT = Math.sqrt(timeYears);
   const sigmaT = volatility * sqrtT;
 
-  // d₁ = [ln(S/K) + ½σ²T] / (σ√T)
-  const d1 = (Math.log(spot / strike) + 0.5 * sigmaT * sigmaT) / sigmaT;
+  // d₁ = [ln(S/K) + (r - q)T + ½σ²T] / (σ√T)
+  const d1 = (Math.log(spot / strike) + (rate - carry) * timeYears + 0.5 * sigmaT * sigmaT) / sigmaT;
 
   // d₂ = d₁ - σ√T
   const d2 = d1 - sigmaT;
 
-  // C = S·Φ(d₁) - K·Φ(d₂)
-  return spot * normalCDF(d1) - strike * normalCDF(d2);
+  // C = S·e^(-qT)·Φ(d₁) - K·e^(-rT)·Φ(d₂)
+  return spot * spotDiscount * cdf(d1) - strike * strikeDiscount * cdf(d2);
 }
 
 /**
  * Black-Scholes European Put Option Price
  *
- * Uses put-call parity: P = C - S + K (when r=0)
- * Or directly: P = K·Φ(-d₂) - S·Φ(-d₁)
+ * Formula: P = K·e^(-rT)·Φ(-d₂) - S·e^(-qT)·Φ(-d₁)
+ * (put-call parity: P = C - S·e^(-qT) + K·e^(-rT))
  *
  * @param params - BSParams object with spot, strike, volatility, timeYears
  * @returns Put option price
  */
-function blackSchoelesPut(params: BSParams): number {
-  const { spot, strike, volatility, timeYears } = params;
+function blackScholesPut(params: BSParams): number {
+  const { spot, strike, volatility, timeYears, rate = 0, carry = 0 } = params;
+  const cdf = getNormalCDF(params.cdfMethod);
+
+  const spotDiscount = Math.exp(-carry * Math.max(timeYears, 0));
+  const strikeDiscount = Math.exp(-rate * Math.max(timeYears, 0));
 
-  // Intrinsic value (lower bound for option price)
+  // Intrinsic value of the forward (lower bound for option price)
   if (volatility <= 0 || timeYears <= 0) {
-    return Math.max(strike - spot, 0);
+    return Math.max(strike * strikeDiscount - spot * spotDiscount, 0);
   }
 
   const sqrtT = Math.sqrt(timeYears);
   const sigmaT = volatility * sqrtT;
 
-  // d₁ = [ln(S/K) + ½σ²T] / (σ√T)
-  const d1 = (Math.log(spot / strike) + 0.5 * sigmaT * sigmaT) / sigmaT;
+  // d₁ = [ln(S/K) + (r - q)T + ½σ²T] / (σ√T)
+  const d1 = (Math.log(spot / strike) + (rate - carry) * timeYears + 0.5 * sigmaT * sigmaT) / sigmaT;
 
   // d₂ = d₁ - σ√T
   const d2 = d1 - sigmaT;
 
-  // P = K·Φ(-d₂) - S·Φ(-d₁)
-  // Using: Φ(-x) = 1 - Φ(x)
-  return strike * (1.0 - normalCDF(d2)) - spot * (1.0 - normalCDF(d1));
+  // P = K·e^(-rT)·Φ(-d₂) - S·e^(-qT)·Φ(-d₁)
+  // Evaluated directly (not as 1 - Φ(x)) to keep tail precision
+  return strike * strikeDiscount * cdf(-d2) - spot * spotDiscount * cdf(-d1);
 }
 
 // ============================================================================
 // DIGITAL OPTIONS (BINARY OPTIONS)
 // ============================================================================
 
-interface DigitalParams {
+/**
+ * Implied volatility lookup per strike (smile / skew)
+ *
+ * Receives the spot so the smile can be quoted in moneyness and move with
+ * the underlying.
+ */
+export type StrikeVolatility = (strike: number, spot: number) => number;
+
+export interface DigitalParams {
   spot: number;
   barrier: number; // Barrier/Strike level (B)
   volatility: number; // Implied volatility
   vegaBuffer: number; // IV buffer for spread pricing
   timeYears: number;
+  rate?: number; // Risk-free rate r (default 0), discounts the payoff
+  carry?: number; // Carry / funding yield q (default 0)
+  cdfMethod?: CdfMethod; // Normal CDF implementation (default: hastings)
+  volAtStrike?: StrikeVolatility; // Smile lookup; replaces σ ± vegaBuffer when set
+}
+
+/**
+ * Volatilities of the two spread strikes
+ *
+ * With a smile each strike takes its own IV; otherwise the flat σ is skewed
+ * by ±vegaBuffer (tight strike higher, loose strike lower).
+ *
+ * @returns [σ(tight), σ(loose)], floored at 1e-9
+ */
+function spreadVolatilities(
+  params: DigitalParams,
+  tightStrike: number,
+  looseStrike: number
+): [number, number] {
+  const { spot, volatility, vegaBuffer, volAtStrike } = params;
+
+  if (volAtStrike) {
+    return [
+      Math.max(volAtStrike(tightStrike, spot), 1e-9),
+      Math.max(volAtStrike(looseStrike, spot), 1e-9),
+    ];
+  }
+
+  return [
+    Math.max(volatility + vegaBuffer, 1e-9),
+    Math.max(volatility - vegaBuffer, 1e-9),
+  ];
 }
 
 /**
@@ -168,11 +381,12 @@ interface DigitalParams {
  * where:
  *   K₁ = B·λ      (lower/tighter strike)
  *   K₂ = B         (upper/looser strike)
- *   σ₁ = σ + vegaBuffer
- *   σ₂ = σ - vegaBuffer
+ *   σ₁ = σ + vegaBuffer   (or σ(K₁) with a smile)
+ *   σ₂ = σ - vegaBuffer   (or σ(K₂) with a smile)
  *
  * Interpretation:
- * - This expression approximates ∂C/∂K ≈ -Φ(d₂) when the spread is narrow.
+ * - This expression approximates ∂C/∂K ≈ -e^(-rT)·Φ(d₂) when the spread is
+ *   narrow, so the payoff is already discounted at the rate r.
  * - Returned value is in [0,1], interpretable as the digital (probability) price.
  *
  * @param params - DigitalParams object
@@ -187,27 +401,32 @@ export function digitalCallPrice(
     throw new Error("callLambda must be < 1.0");
   }
 
-  const { spot, barrier, volatility, vegaBuffer, timeYears } = params;
+  const { spot, barrier, timeYears, rate, carry, cdfMethod } = params;
 
   const K1 = barrier * callLambda; // lower (tighter)
   const K2 = barrier; // upper (looser)
   const width = K2 - K1;
 
   // tighter -> higher IV ; looser -> lower IV
-  const sigmaTight = Math.max(volatility + vegaBuffer, 1e-9);
-  const sigmaLoose = Math.max(volatility - vegaBuffer, 1e-9);
+  const [sigmaTight, sigmaLoose] = spreadVolatilities(params, K1, K2);
 
   const C1 = blackScholesCall({
     spot,
     strike: K1,
     volatility: sigmaTight,
     timeYears,
+    rate,
+    carry,
+    cdfMethod,
   });
   const C2 = blackScholesCall({
     spot,
     strike: K2,
     volatility: sigmaLoose,
     timeYears,
+    rate,
+    carry,
+    cdfMethod,
   });
 
   return Math.max((C1 - C2) / width, 0);
@@ -232,11 +451,12 @@ export function digitalCallPrice(
  * where:
  *   K₁ = B         (lower/looser strike)
  *   K₂ = B·λ       (upper/tighter strike)
- *   σ₁ = σ - vegaBuffer
- *   σ₂ = σ + vegaBuffer
+ *   σ₁ = σ - vegaBuffer   (or σ(K₁) with a smile)
+ *   σ₂ = σ + vegaBuffer   (or σ(K₂) with a smile)
  *
  * Interpretation:
- * - This expression approximates ∂P/∂K ≈ Φ(-d₂) when the spread is narrow.
+ * - This expression approximates ∂P/∂K ≈ e^(-rT)·Φ(-d₂) when the spread is
+ *   narrow, so the payoff is already discounted at the rate r.
  * - Returned value is in [0,1], interpretable as the digital (probability) price.
  *
  * @param params - DigitalParams object
@@ -251,32 +471,260 @@ export function digitalPutPrice(
     throw new Error("putLambda must be > 1.0");
   }
 
-  const { spot, barrier, volatility, vegaBuffer, timeYears } = params;
+  const { spot, barrier, timeYears, rate, carry, cdfMethod } = params;
 
   const K1 = barrier; // lower (looser)
   const K2 = barrier * putLambda; // upper (tighter)
   const width = K2 - K1;
 
   // tighter (upper) -> higher IV ; looser (lower) -> lower IV
-  const sigmaTight = Math.max(volatility + vegaBuffer, 1e-9);
-  const sigmaLoose = Math.max(volatility - vegaBuffer, 1e-9);
+  const [sigmaTight, sigmaLoose] = spreadVolatilities(params, K2, K1);
 
-  const P1 = blackSchoelesPut({
+  const P1 = blackScholesPut({
     spot,
     strike: K1,
     volatility: sigmaLoose,
     timeYears,
+    rate,
+    carry,
+    cdfMethod,
   });
-  const P2 = blackSchoelesPut({
+  const P2 = blackScholesPut({
     spot,
     strike: K2,
     volatility: sigmaTight,
     timeYears,
+    rate,
+    carry,
+    cdfMethod,
   });
 
   return Math.max((P2 - P1) / width, 0);
 }
 
+// ============================================================================
+// CLOSED-FORM DIGITAL OPTIONS
+// ============================================================================
+
+/**
+ * d₂ of the Black–Scholes model at the barrier
+ *
+ * Formula: d₂ = [ln(S/B) + (r − q − ½σ²)T] / (σ√T)
+ *
+ * Uses the unbuffered volatility, or the smile IV at the barrier when a
+ * smile is set (the skew slope term is not included). callLambda, putLambda
+ * and vegaBuffer do not enter the closed form.
+ */
+function digitalD2(params: DigitalParams): number {
+  const { spot, barrier, volatility, timeYears, volAtStrike, rate = 0, carry = 0 } = params;
+  const sigma = volAtStrike ? Math.max(volAtStrike(barrier, spot), 1e-9) : volatility;
+  const sigmaT = sigma * Math.sqrt(timeYears);
+  return (Math.log(spot / barrier) + (rate - carry) * timeYears - 0.5 * sigmaT * sigmaT) / sigmaT;
+}
+
+/**
+ * Closed-Form Digital Call Price (Cash-or-Nothing)
+ *
+ * Formula: Digital_Call = e^(-rT)·Φ(d₂)
+ *
+ * This is the limit of the call spread as K₁ → K₂ with vegaBuffer = 0, i.e.
+ * the discounted risk-neutral probability of finishing above the barrier.
+ * The difference to digitalCallPrice is the markup charged by the spread.
+ *
+ * @param params - DigitalParams object (vegaBuffer ignored)
+ * @returns Discounted probability that S_T > B
+ */
+export function digitalCallPriceClosedForm(params: DigitalParams): number {
+  const { spot, barrier, volatility, timeYears, rate = 0, carry = 0 } = params;
+  const discount = Math.exp(-rate * Math.max(timeYears, 0));
+
+  // No diffusion left: payoff is known from the forward
+  if (volatility <= 0 || timeYears <= 0) {
+    const forward = spot * Math.exp((rate - carry) * Math.max(timeYears, 0));
+    return forward > barrier ? discount : 0;
+  }
+
+  return discount * getNormalCDF(params.cdfMethod)(digitalD2(params));
+}
+
+/**
+ * Closed-Form Digital Put Price (Cash-or-Nothing)
+ *
+ * Formula: Digital_Put = e^(-rT)·Φ(-d₂)
+ *
+ * @param params - DigitalParams object (vegaBuffer ignored)
+ * @returns Discounted probability that S_T < B
+ */
+export function digitalPutPriceClosedForm(params: DigitalParams): number {
+  const { spot, barrier, volatility, timeYears, rate = 0, carry = 0 } = params;
+  const discount = Math.exp(-rate * Math.max(timeYears, 0));
+
+  if (volatility <= 0 || timeYears <= 0) {
+    const forward = spot * Math.exp((rate - carry) * Math.max(timeYears, 0));
+    return forward < barrier ? discount : 0;
+  }
+
+  return discount * getNormalCDF(params.cdfMethod)(-digitalD2(params));
+}
+
+// ============================================================================
+// DIGITAL OPTION GREEKS
+// ============================================================================
+
+/**
+ * Sensitivities of a digital price
+ *
+ * Units:
+ * - delta: ∂V/∂S  (per 1.0 move in spot)
+ * - gamma: ∂²V/∂S²
+ * - vega: ∂V/∂σ per 1 vol point (σ + 0.01)
+ * - thetaPerSecond: change in V as one second of time passes (−∂V/∂T)
+ * - thetaPerEpoch: thetaPerSecond × epochDurationSecs
+ */
+export interface DigitalGreeks {
+  price: number;
+  delta: number;
+  gamma: number;
+  vega: number;
+  thetaPerSecond: number;
+  thetaPerEpoch: number;
+}
+
+/**
+ * Parallel volatility shift, applied to the smile when one is set
+ */
+function shiftVolatility(params: DigitalParams, dv: number): DigitalParams {
+  const { volAtStrike } = params;
+  return {
+    ...params,
+    volatility: params.volatility + dv,
+    volAtStrike: volAtStrike && ((strike, spot) => volAtStrike(strike, spot) + dv),
+  };
+}
+
+/**
+ * Greeks by bump-and-reprice on an arbitrary digital pricer
+ *
+ * For the spread pricers, finite differences are taken on the full
+ * construction (lambda strikes and ±vegaBuffer), so the sensitivities
+ * describe the price that is actually quoted rather than the idealised Φ(d₂).
+ *
+ * Bumps:
+ * - spot: central difference with h = S·1e-4
+ * - volatility: central difference with h = 1e-4 (scaled to 1 vol point);
+ *   a smile is shifted in parallel
+ * - time: central difference with h = min(1s, T/2), so the sooner point
+ *   never crosses expiry; theta is 0 at T = 0
+ */
+function digitalGreeks(
+  pricer: (params: DigitalParams) => number,
+  params: DigitalParams,
+  epochDurationSecs: number
+): DigitalGreeks {
+  const { spot, volatility, timeYears } = params;
+  const price = pricer(params);
+
+  // Delta / Gamma
+  const hS = Math.max(spot * 1e-4, 1e-9);
+  const up = pricer({ ...params, spot: spot + hS });
+  const down = pricer({ ...params, spot: spot - hS });
+  const delta = (up - down) / (2 * hS);
+  const gamma = (up - 2 * price + down) / (hS * hS);
+
+  // Vega (per 1 vol point)
+  const hV = 1e-4;
+  const volHigh = volatility + hV;
+  const volLow = Math.max(volatility - hV, 0);
+  const volUp = pricer(shiftVolatility(params, volHigh - volatility));
+  const volDown = pricer(shiftVolatility(params, volLow - volatility));
+  const vega = ((volUp - volDown) / (volHigh - volLow)) * 0.01;
+
+  // Theta: -∂V/∂T, expressed per second of calendar time
+  let thetaPerSecond = 0;
+  if (timeYears > 0) {
+    const hT = Math.min(1 / SECONDS_PER_YEAR, timeYears / 2);
+    const later = pricer({ ...params, timeYears: timeYears + hT });
+    const sooner = pricer({ ...params, timeYears: timeYears - hT });
+    const dVdT = (later - sooner) / (2 * hT);
+    thetaPerSecond = -dVdT / SECONDS_PER_YEAR;
+  }
+
+  return {
+    price,
+    delta,
+    gamma,
+    vega,
+    thetaPerSecond,
+    thetaPerEpoch: thetaPerSecond * epochDurationSecs,
+  };
+}
+
+/**
+ * Digital Call Greeks
+ *
+ * @param params - DigitalParams object
+ * @param callLambda - Strike multiplier (<1)
+ * @param epochDurationSecs - Epoch length used to scale theta per epoch
+ * @returns Price, delta, gamma, vega and theta of digitalCallPrice
+ */
+export function digitalCallGreeks(
+  params: DigitalParams,
+  callLambda: number,
+  epochDurationSecs: number
+): DigitalGreeks {
+  return digitalGreeks(
+    (p) => digitalCallPrice(p, callLambda),
+    params,
+    epochDurationSecs
+  );
+}
+
+/**
+ * Digital Put Greeks
+ *
+ * @param params - DigitalParams object
+ * @param putLambda - Strike multiplier (>1)
+ * @param epochDurationSecs - Epoch length used to scale theta per epoch
+ * @returns Price, delta, gamma, vega and theta of digitalPutPrice
+ */
+export function digitalPutGreeks(
+  params: DigitalParams,
+  putLambda: number,
+  epochDurationSecs: number
+): DigitalGreeks {
+  return digitalGreeks(
+    (p) => digitalPutPrice(p, putLambda),
+    params,
+    epochDurationSecs
+  );
+}
+
+/**
+ * Greeks of the closed-form digital call
+ *
+ * @param params - DigitalParams object
+ * @param epochDurationSecs - Epoch length for thetaPerEpoch
+ */
+export function digitalCallGreeksClosedForm(
+  params: DigitalParams,
+  epochDurationSecs: number
+): DigitalGreeks {
+  return digitalGreeks(digitalCallPriceClosedForm, params, epochDurationSecs);
+}
+
+/**
+ * Greeks of the closed-form digital put
+ *
+ * @param params - DigitalParams object
+ * @param epochDurationSecs - Epoch length for thetaPerEpoch
+ */
+export function digitalPutGreeksClosedForm(
+  params: DigitalParams,
+  epochDurationSecs: number
+): DigitalGreeks {
+  return digitalGreeks(digitalPutPriceClosedForm, params, epochDurationSecs);
+}
+
 // ============================================================================
 // PAYOUT MODELS
 // ============================================================================
@@ -298,32 +746,105 @@ export function payoutCashOrNothing(stake: number, won: boolean): number {
 /**
  * Method B: Odds-Based Payout
  *
- * Winner receives: stake / digital_price
+ * Winner receives: stake / loaded_price
  * Higher price = lower odds = higher payout (riskier)
  * Lower price = higher odds = lower payout (safer)
  *
+ * The price is fee-loaded with feeBps before computing odds, so the payout
+ * reflects the net odds the user was quoted.
+ *
  * @param stake - Wager amount
- * @param digitalPrice - Price of digital option
+ * @param digitalPrice - Fair price of digital option
  * @param won - Did the position win?
+ * @param feeBps - Market fee in basis points (default 0)
  * @returns Payout amount
  */
 export function payoutOddsBased(
   stake: number,
   digitalPrice: number,
-  won: boolean
+  won: boolean,
+  feeBps: number = 0
 ): number {
   if (!won) return 0;
-  return stake / Math.max(digitalPrice, 1e-12);
+  return stake / Math.max(applyFee(digitalPrice, feeBps), 1e-12);
 }
 
 /**
  * Premium (Cost to Enter)
  *
  * @param stake - Wager amount
- * @param digitalPrice - Price of digital option
+ * @param digitalPrice - Fair price of digital option
+ * @param feeBps - Market fee in basis points (default 0)
  * @returns Total premium to be paid
  */
-export function calculatePremium(stake: number, digitalPrice: number): number {
-  return stake * digitalPrice;
+export function calculatePremium(
+  stake: number,
+  digitalPrice: number,
+  feeBps: number = 0
+): number {
+  return stake * applyFee(digitalPrice, feeBps);
+}
+
+// ============================================================================
+// FEES
+// ============================================================================
+
+/**
+ * Fee-aware quote breakdown
+ *
+ * - fairProbability: model digital price (no fee)
+ * - premium: fee-loaded price the user pays per 1.0 of payout
+ * - netOdds: payout multiple seen by the user (1 / premium)
+ * - houseEdgeBps: expected take per unit of premium, in bps
+ */
+export interface FeeQuote {
+  fairProbability: number;
+  premium: number;
+  netOdds: number;
+  houseEdgeBps: number;
+}
+
+/**
+ * Load a fair digital price with the market fee
+ *
+ * Formula: P = min(p · (1 + feeBps/10⁴), 1)
+ *
+ * @param fairPrice - Fair digital price p in [0,1]
+ * @param feeBps - Market fee in basis points
+ * @returns Fee-loaded price
+ */
+export function applyFee(fairPrice: number, feeBps: number): number {
+  return Math.min(fairPrice * (1 + feeBps / 10_000), 1);
+}
+
+/**
+ * Strip the market fee from a fee-loaded price (inverse of applyFee)
+ *
+ * @param loadedPrice - Fee-loaded price
+ * @param feeBps - Market fee in basis points
+ * @returns Fair digital price
+ */
+export function removeFee(loadedPrice: number, feeBps: number): number {
+  return loadedPrice / (1 + feeBps / 10_000);
+}
+
+/**
+ * Build the fee-aware quote breakdown for a fair digital price
+ *
+ * House edge: (P - p) / P · 10⁴, i.e. the share of every premium unit the
+ * pool expects to keep when the model probability is correct.
+ *
+ * @param fairPrice - Fair digital price p in [0,1]
+ * @param feeBps - Market fee in basis points
+ * @returns FeeQuote breakdown
+ */
+export function quoteWithFee(fairPrice: number, feeBps: number): FeeQuote {
+  const premium = applyFee(fairPrice, feeBps);
+  return {
+    fairProbability: fairPrice,
+    premium,
+    netOdds: premium > 0 ? 1 / premium : Infinity,
+    houseEdgeBps: premium > 0 ? ((premium - fairPrice) / premium) * 10_000 : 0,
+  };
 }
 
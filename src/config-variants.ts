@@ -0,0 +1,152 @@
+/**
+ * Market Configuration Variants
+ *
+ * What-if comparison of MarketAccount overrides ("callLambda 0.998,
+ * vegaBuffer 0.03") against the current configuration or another variant.
+ */
+
+import { removeFee } from './black-scholes';
+import { solveForBarrier, BarrierSolveStatus } from './barrier-solver';
+import { validateLambdas } from './market-guards';
+import { calcPremium, PricingOptions } from './pricing';
+import { MarketAccount, QuoteRejection, Side } from './types';
+
+// ============================================================================
+// VARIANTS
+// ============================================================================
+
+/**
+ * Fields a variant may override
+ */
+export type VariantField =
+  | 'epochDurationSecs'
+  | 'settleDelayEpochs'
+  | 'feeBps'
+  | 'callLambda'
+  | 'putLambda'
+  | 'vegaBuffer'
+  | 'sigma2';
+
+export const VARIANT_FIELDS: VariantField[] = [
+  'callLambda',
+  'putLambda',
+  'vegaBuffer',
+  'sigma2',
+  'feeBps',
+  'epochDurationSecs',
+  'settleDelayEpochs',
+];
+
+// 最多同时比较的变体数
+export const MAX_CONFIG_VARIANTS = 4;
+
+// 基准为当前配置时使用的 id
+export const CURRENT_CONFIG_ID = 'current';
+
+export interface ConfigVariant {
+  id: string;
+  name: string;
+  overrides: Partial<Pick<MarketAccount, VariantField>>;
+}
+
+/**
+ * Market configuration of a variant (current config plus overrides)
+ */
+export function applyVariant(market: MarketAccount, variant: ConfigVariant): MarketAccount {
+  return { ...market, ...variant.overrides };
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+export interface VariantSideResult {
+  premium: number; // Premium at the current barrier
+  barrier: number; // Barrier solved for the target odds
+  status: BarrierSolveStatus;
+  premiumDiff: number | null; // premium − baseline premium (null for the baseline)
+  barrierDiff: number | null; // barrier − baseline barrier
+}
+
+export interface VariantComparisonRow {
+  id: string; // CURRENT_CONFIG_ID for the current configuration
+  name: string;
+  rejections: QuoteRejection[]; // Lambda rejections; sides are null when present
+  long: VariantSideResult | null;
+  short: VariantSideResult | null;
+}
+
+export interface VariantComparisonOptions extends PricingOptions {
+  netOfFee?: boolean; // Treat odds as net of each configuration's feeBps
+}
+
+/**
+ * Compare the current configuration and its variants
+ *
+ * Each configuration is priced at (spot, barrier) and its barrier solved
+ * for the target odds on both sides. Differences are taken against the
+ * baseline row; they are null on the baseline itself and on every row when
+ * the baseline is rejected.
+ *
+ * @param spot - Spot price
+ * @param barrier - Barrier price for the premium comparison
+ * @param odds - Target odds for the barrier solve
+ * @param market - Current market configuration
+ * @param variants - Variants (overrides of market)
+ * @param baselineId - CURRENT_CONFIG_ID or a variant id
+ * @param options - Pricing options
+ * @returns Current configuration first, then variants in order
+ */
+export function compareVariants(
+  spot: number,
+  barrier: number,
+  odds: number,
+  market: MarketAccount,
+  variants: ConfigVariant[],
+  baselineId: string = CURRENT_CONFIG_ID,
+  options: VariantComparisonOptions = {}
+): VariantComparisonRow[] {
+  const configs = [
+    { id: CURRENT_CONFIG_ID, name: '', market },
+    ...variants.map((v) => ({ id: v.id, name: v.name, market: applyVariant(market, v) })),
+  ];
+
+  const evaluate = (config: MarketAccount, side: Side) => {
+    const target = options.netOfFee ? removeFee(1 / odds, config.feeBps) : 1 / odds;
+    const solved = solveForBarrier(target, spot, side, config, options);
+    return {
+      premium: calcPremium(spot, barrier, side, config, options),
+      barrier: solved.barrier,
+      status: solved.status,
+    };
+  };
+
+  const results = configs.map((c) => {
+    const rejections = validateLambdas(c.market);
+    return {
+      id: c.id,
+      name: c.name,
+      rejections,
+      long: rejections.length === 0 ? evaluate(c.market, Side.Long) : null,
+      short: rejections.length === 0 ? evaluate(c.market, Side.Short) : null,
+    };
+  });
+
+  const baseline = results.find((r) => r.id === baselineId) ?? results[0];
+  const withDiff = (
+    value: ReturnType<typeof evaluate> | null,
+    base: ReturnType<typeof evaluate> | null,
+    isBaseline: boolean
+  ): VariantSideResult | null =>
+    value && {
+      ...value,
+      premiumDiff: base && !isBaseline ? value.premium - base.premium : null,
+      barrierDiff: base && !isBaseline ? value.barrier - base.barrier : null,
+    };
+
+  return results.map((r) => ({
+    ...r,
+    long: withDiff(r.long, baseline.long, r === baseline),
+    short: withDiff(r.short, baseline.short, r === baseline),
+  }));
+}
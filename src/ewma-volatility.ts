@@ -0,0 +1,120 @@
+/**
+ * EWMA Volatility Estimator
+ *
+ * Mirrors the on-chain market update of sigma2 from oracle price ticks.
+ *
+ * References:
+ * - J.P. Morgan / Reuters (1996): RiskMetrics Technical Document, Section 5.2
+ */
+
+import { SECONDS_PER_YEAR } from './black-scholes';
+import { MarketAccount, PriceTick } from './types';
+
+// ============================================================================
+// SINGLE-TICK UPDATE
+// ============================================================================
+
+/**
+ * Subset of MarketAccount touched by the estimator
+ */
+export type EwmaState = Pick<
+  MarketAccount,
+  'sigma2' | 'lastPrice' | 'lastTs' | 'halfLifeSecs'
+>;
+
+/**
+ * Decay weight applied to the previous variance after dt seconds
+ *
+ * Formula: w = 2^(−dt / halfLife) = e^(−ln2 · dt / halfLife)
+ *
+ * @param dtSecs - Seconds since the previous tick
+ * @param halfLifeSecs - Half-life of the exponential weighting
+ * @returns Weight in [0,1] kept by the previous sigma2
+ */
+export function ewmaDecay(dtSecs: number, halfLifeSecs: number): number {
+  if (halfLifeSecs <= 0) return 0;
+  return Math.exp((-Math.LN2 * dtSecs) / halfLifeSecs);
+}
+
+/**
+ * Update sigma2 with one price tick
+ *
+ * Algorithm:
+ *   r      = ln(P / lastPrice)
+ *   dt     = ts − lastTs
+ *   σ²ᵢ    = r² · SECONDS_PER_YEAR / dt        (annualised sample variance)
+ *   w      = 2^(−dt / halfLifeSecs)
+ *   sigma2 = w · sigma2 + (1 − w) · σ²ᵢ
+ *
+ * Ticks that are not newer than lastTs are ignored. The first tick
+ * (lastPrice ≤ 0) only seeds lastPrice / lastTs.
+ *
+ * @param state - Current estimator state
+ * @param tick - New (timestamp, price) observation
+ * @returns Next estimator state
+ */
+export function updateSigma2(state: EwmaState, tick: PriceTick): EwmaState {
+  if (tick.price <= 0) return state;
+
+  if (state.lastPrice <= 0) {
+    return { ...state, lastPrice: tick.price, lastTs: tick.ts };
+  }
+
+  const dt = tick.ts - state.lastTs;
+  if (dt <= 0) return state;
+
+  const r = Math.log(tick.price / state.lastPrice);
+  const sampleVariance = (r * r * SECONDS_PER_YEAR) / dt;
+  const w = ewmaDecay(dt, state.halfLifeSecs);
+
+  return {
+    ...state,
+    sigma2: w * state.sigma2 + (1 - w) * sampleVariance,
+    lastPrice: tick.price,
+    lastTs: tick.ts,
+  };
+}
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * One point on the estimated volatility path
+ */
+export interface EwmaPathPoint {
+  ts: number;
+  price: number;
+  sigma2: number;
+  sigma: number; // √sigma2 (annualised)
+}
+
+/**
+ * Run the estimator over a tick series
+ *
+ * @param initial - Starting state (sigma2 is used as the prior)
+ * @param ticks - Ticks sorted by ascending timestamp
+ * @returns Final state and the sigma path after each accepted tick
+ */
+export function runEwma(
+  initial: EwmaState,
+  ticks: PriceTick[]
+): { state: EwmaState; path: EwmaPathPoint[] } {
+  let state = initial;
+  const path: EwmaPathPoint[] = [];
+
+  for (const tick of ticks) {
+    const next = updateSigma2(state, tick);
+    if (next === state) continue;
+
+    state = next;
+    path.push({
+      ts: tick.ts,
+      price: tick.price,
+      sigma2: state.sigma2,
+      sigma: Math.sqrt(Math.max(state.sigma2, 0)),
+    });
+  }
+
+  return { state, path };
+}
@@ -0,0 +1,455 @@
+/**
+ * Fixed-Point Pricing
+ *
+ * Integer mirror of the spread and closed-form digital pricers, as an
+ * on-chain program would evaluate them. Every value is a bigint scaled by
+ * 10^decimals (decimals = 6 or 9 in practice) and every operation rounds
+ * toward zero like Rust integer division, so the results are bit-exact and
+ * deterministic across platforms.
+ *
+ * Transcendental functions:
+ * - ln: x = m·2^k with m ∈ [1, 2), ln m = 2·atanh((m − 1)/(m + 1)) series
+ * - exp: x = k·ln2 + r with |r| < ln2, Taylor series of e^r, then 2^k
+ * - sqrt: integer Newton iteration on x·10^decimals
+ * - Φ: Hastings polynomial, the same approximation as normalCDF
+ *
+ * Time enters through √(secs) / √(SECONDS_PER_YEAR) rather than T in years:
+ * a 5-minute epoch is T ≈ 9.5×10⁻⁶, which has a single significant digit at
+ * 10⁻⁶ scale, while the two square roots keep full precision.
+ *
+ * The float path is compared with the smile ignored (MarketAccount on chain
+ * carries no smile) and the Hastings CDF.
+ */
+
+import { SECONDS_PER_YEAR } from './black-scholes';
+import { calcPremium, timeRemainingSecs, PricingOptions } from './pricing';
+import { MarketAccount, PayoutMethod, Side } from './types';
+
+// ============================================================================
+// FIXED-POINT MATH
+// ============================================================================
+
+export interface FixedMath {
+  decimals: number;
+  scale: bigint; // 10^decimals, the representation of 1.0
+  fromNumber(x: number): bigint;
+  toNumber(x: bigint): number;
+  mul(a: bigint, b: bigint): bigint;
+  div(a: bigint, b: bigint): bigint;
+  ln(x: bigint): bigint;
+  exp(x: bigint): bigint;
+  sqrt(x: bigint): bigint;
+  normalCDF(x: bigint): bigint;
+}
+
+// 常用精度：1e6 (USDC 等 6 位小数) 与 1e9 (lamports)
+export const FIXED_DECIMALS = [6, 9];
+
+// 高精度常数（十进制字符串，按精度截断后四舍五入）
+const LN2 = '0.693147180559945309417232121458176568';
+const INV_SQRT_2PI = '0.398942280401432677939946059934381868';
+const HASTINGS_A = ['0.31938153', '-0.356563782', '1.781477937', '-1.821255978', '1.330274429'];
+const HASTINGS_P = '0.2316419';
+
+/**
+ * Decimal string → fixed-point value, rounded half away from zero
+ */
+function parseConstant(text: string, decimals: number): bigint {
+  const negative = text.startsWith('-');
+  const [whole, fraction = ''] = text.replace('-', '').split('.');
+  const digits = fraction.padEnd(decimals + 1, '0');
+  let value = BigInt(whole + digits.slice(0, decimals));
+  if (Number(digits[decimals]) >= 5) value += 1n;
+  return negative ? -value : value;
+}
+
+/**
+ * Integer square root ⌊√n⌋ by Newton's method
+ */
+function isqrt(n: bigint): bigint {
+  if (n < 0n) throw new Error('sqrt of a negative value');
+  if (n < 2n) return n;
+  let x = 1n << BigInt((n.toString(2).length >> 1) + 1);
+  for (;;) {
+    const y = (x + n / x) >> 1n;
+    if (y >= x) return x;
+    x = y;
+  }
+}
+
+/**
+ * Fixed-point arithmetic at 10^decimals
+ *
+ * @param decimals - Fractional digits (1 ~ 18)
+ */
+export function createFixedMath(decimals: number): FixedMath {
+  if (!Number.isInteger(decimals) || decimals < 1 || decimals > 18) {
+    throw new Error(`fixed-point decimals must be an integer in [1, 18], got ${decimals}`);
+  }
+
+  const scale = 10n ** BigInt(decimals);
+  const ln2 = parseConstant(LN2, decimals);
+  const invSqrt2Pi = parseConstant(INV_SQRT_2PI, decimals);
+  const hastingsA = HASTINGS_A.map((a) => parseConstant(a, decimals));
+  const hastingsP = parseConstant(HASTINGS_P, decimals);
+
+  const mul = (a: bigint, b: bigint) => (a * b) / scale;
+  const div = (a: bigint, b: bigint) => {
+    if (b === 0n) throw new Error('fixed-point division by zero');
+    return (a * scale) / b;
+  };
+
+  const ln = (x: bigint): bigint => {
+    if (x <= 0n) throw new Error('ln of a non-positive value');
+
+    // x = m·2^k, m ∈ [1, 2)
+    let m = x;
+    let k = 0n;
+    while (m >= 2n * scale) {
+      m /= 2n;
+      k++;
+    }
+    while (m < scale) {
+      m *= 2n;
+      k--;
+    }
+
+    // ln m = 2·(y + y³/3 + y⁵/5 + …), y = (m − 1)/(m + 1) ≤ 1/3
+    const y = div(m - scale, m + scale);
+    const y2 = mul(y, y);
+    let term = y;
+    let sum = y;
+    for (let n = 3n; term !== 0n; n += 2n) {
+      term = mul(term, y2);
+      sum += term / n;
+    }
+
+    return 2n * sum + k * ln2;
+  };
+
+  const exp = (x: bigint): bigint => {
+    // x = k·ln2 + r
+    const k = x / ln2;
+    const r = x - k * ln2;
+    if (k < -4n * BigInt(decimals) - 8n) return 0n;
+
+    // e^r = Σ rⁿ/n!
+    let term = scale;
+    let sum = scale;
+    for (let n = 1n; term !== 0n; n++) {
+      term = mul(term, r) / n;
+      sum += term;
+    }
+
+    return k >= 0n ? sum << k : sum >> -k;
+  };
+
+  const sqrt = (x: bigint): bigint => isqrt(x * scale);
+
+  const normalCDF = (x: bigint): bigint => {
+    const z = x < 0n ? -x : x;
+    const t = div(scale, scale + mul(hastingsP, z));
+
+    // Horner: ((((a₅t + a₄)t + a₃)t + a₂)t + a₁)t
+    let polynomial = 0n;
+    for (let i = hastingsA.length - 1; i >= 0; i--) {
+      polynomial = mul(polynomial + hastingsA[i], t);
+    }
+
+    const pdf = mul(invSqrt2Pi, exp(-mul(z, z) / 2n));
+    const cdf = scale - mul(pdf, polynomial);
+    return x < 0n ? scale - cdf : cdf;
+  };
+
+  return {
+    decimals,
+    scale,
+    fromNumber: (value) => BigInt(Math.round(value * Number(scale))),
+    toNumber: (value) => Number(value) / Number(scale),
+    mul,
+    div,
+    ln,
+    exp,
+    sqrt,
+    normalCDF,
+  };
+}
+
+const FIXED_MATH_CACHE = new Map<number, FixedMath>();
+
+function fixedMath(decimals: number): FixedMath {
+  let fm = FIXED_MATH_CACHE.get(decimals);
+  if (!fm) {
+    fm = createFixedMath(decimals);
+    FIXED_MATH_CACHE.set(decimals, fm);
+  }
+  return fm;
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+export interface FixedPricingOptions extends PricingOptions {
+  decimals?: number; // Fixed-point precision (default 9)
+}
+
+/**
+ * Market and time inputs converted to fixed point
+ */
+interface FixedInputs {
+  fm: FixedMath;
+  sigma: bigint; // √sigma2
+  sqrtT: bigint; // √(secs / SECONDS_PER_YEAR)
+  rateT: bigint; // r·T
+  carryT: bigint; // q·T
+}
+
+function fixedInputs(market: MarketAccount, options: FixedPricingOptions): FixedInputs {
+  const fm = fixedMath(options.decimals ?? 9);
+  const secs = fm.fromNumber(timeRemainingSecs(market, options.entryOffsetSecs));
+  const year = fm.fromNumber(SECONDS_PER_YEAR);
+
+  return {
+    fm,
+    sigma: fm.sqrt(fm.fromNumber(Math.max(market.sigma2, 0))),
+    sqrtT: fm.div(fm.sqrt(secs), fm.sqrt(year)),
+    rateT: fm.mul(fm.fromNumber(options.rate ?? 0), secs) * fm.scale / year,
+    carryT: fm.mul(fm.fromNumber(options.carry ?? 0), secs) * fm.scale / year,
+  };
+}
+
+/**
+ * Fixed-point Black-Scholes call or put
+ *
+ *   C = S·e^(−qT)·Φ(d₁) − K·e^(−rT)·Φ(d₂)
+ *   P = K·e^(−rT)·Φ(−d₂) − S·e^(−qT)·Φ(−d₁)
+ */
+function blackScholesFixed(
+  inputs: FixedInputs,
+  call: boolean,
+  spot: bigint,
+  strike: bigint,
+  sigma: bigint
+): bigint {
+  const { fm, sqrtT, rateT, carryT } = inputs;
+  const spotForward = fm.mul(spot, fm.exp(-carryT));
+  const strikePv = fm.mul(strike, fm.exp(-rateT));
+
+  // Intrinsic value of the forward once σ√T rounds to zero
+  const sigmaT = fm.mul(sigma, sqrtT);
+  if (sigmaT <= 0n) {
+    return max(call ? spotForward - strikePv : strikePv - spotForward, 0n);
+  }
+
+  const d1 = fm.div(fm.ln(fm.div(spot, strike)) + rateT - carryT + fm.mul(sigmaT, sigmaT) / 2n, sigmaT);
+  const d2 = d1 - sigmaT;
+
+  return call
+    ? fm.mul(spotForward, fm.normalCDF(d1)) - fm.mul(strikePv, fm.normalCDF(d2))
+    : fm.mul(strikePv, fm.normalCDF(-d2)) - fm.mul(spotForward, fm.normalCDF(-d1));
+}
+
+/**
+ * Fixed-point digital premium
+ *
+ * Mirrors calcPremium: the lambda call / put spread with σ ± vegaBuffer
+ * (spread model, default) or e^(−rT)·Φ(±d₂) (closedForm). volSmile and
+ * cdfMethod are ignored; Φ is always the Hastings polynomial.
+ *
+ * @param spot - Spot price
+ * @param barrier - Barrier price
+ * @param side - Long or Short
+ * @param market - Market configuration
+ * @param options - Pricing options and fixed-point decimals
+ * @returns Premium scaled by 10^decimals
+ * @throws Error when the lambda is on the wrong side of 1, a price is not
+ *   positive, or a lambda strike or spread width rounds to 0 at the scale
+ */
+export function calcPremiumFixed(
+  spot: number,
+  barrier: number,
+  side: Side,
+  market: MarketAccount,
+  options: FixedPricingOptions = {}
+): bigint {
+  const inputs = fixedInputs(market, options);
+  const { fm } = inputs;
+  const s = fm.fromNumber(spot);
+  const b = fm.fromNumber(barrier);
+  if (s <= 0n || b <= 0n) throw new Error(`spot and barrier must be > 0 at 1e${fm.decimals}`);
+
+  if (options.model === 'closedForm') {
+    const discount = fm.exp(-inputs.rateT);
+    const sigmaT = fm.mul(inputs.sigma, inputs.sqrtT);
+    if (sigmaT <= 0n) {
+      const forward = fm.mul(s, fm.exp(inputs.rateT - inputs.carryT));
+      const wins = side === Side.Long ? forward > b : forward < b;
+      return wins ? discount : 0n;
+    }
+    const d2 = fm.div(
+      fm.ln(fm.div(s, b)) + inputs.rateT - inputs.carryT - fm.mul(sigmaT, sigmaT) / 2n,
+      sigmaT
+    );
+    return fm.mul(discount, fm.normalCDF(side === Side.Long ? d2 : -d2));
+  }
+
+  const vegaBuffer = fm.fromNumber(market.vegaBuffer);
+  const sigmaTight = max(inputs.sigma + vegaBuffer, 1n);
+  const sigmaLoose = max(inputs.sigma - vegaBuffer, 1n);
+
+  if (side === Side.Long) {
+    if (market.callLambda >= 1.0) throw new Error('callLambda must be < 1.0');
+    const k1 = fm.mul(b, fm.fromNumber(market.callLambda));
+    if (k1 === 0n) throw new Error(`barrier × callLambda rounds to 0 at 1e${fm.decimals}`);
+    if (b - k1 === 0n) throw new Error(`call spread width barrier × (1 − callLambda) rounds to 0 at 1e${fm.decimals}`);
+    const c1 = blackScholesFixed(inputs, true, s, k1, sigmaTight);
+    const c2 = blackScholesFixed(inputs, true, s, b, sigmaLoose);
+    return max(fm.div(c1 - c2, b - k1), 0n);
+  }
+
+  if (market.putLambda <= 1.0) throw new Error('putLambda must be > 1.0');
+  const k2 = fm.mul(b, fm.fromNumber(market.putLambda));
+  if (k2 - b === 0n) throw new Error(`put spread width barrier × (putLambda − 1) rounds to 0 at 1e${fm.decimals}`);
+  const p1 = blackScholesFixed(inputs, false, s, b, sigmaLoose);
+  const p2 = blackScholesFixed(inputs, false, s, k2, sigmaTight);
+  return max(fm.div(p2 - p1, k2 - b), 0n);
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+// ============================================================================
+// INTEGER COSTS AND PAYOUTS
+// ============================================================================
+
+// MarketAccount.feeBps 在链上为 u16
+const MAX_FEE_BPS = 65_535;
+
+/**
+ * Whether a fee can be charged by the integer path (an integer u16)
+ */
+export function isFixedFeeBps(feeBps: number): boolean {
+  return Number.isInteger(feeBps) && feeBps >= 0 && feeBps <= MAX_FEE_BPS;
+}
+
+/**
+ * Fee-loaded price min(p·(10⁴ + feeBps) / 10⁴, 1), in fixed point
+ *
+ * @throws Error when feeBps is not an integer in [0, 65535]
+ */
+export function applyFeeFixed(price: bigint, feeBps: number, decimals: number = 9): bigint {
+  if (!isFixedFeeBps(feeBps)) {
+    throw new Error(`feeBps must be an integer in [0, ${MAX_FEE_BPS}], got ${feeBps}`);
+  }
+  const loaded = (price * BigInt(10_000 + feeBps)) / 10_000n;
+  const one = fixedMath(decimals).scale;
+  return loaded < one ? loaded : one;
+}
+
+/**
+ * Amount paid at open, in integer base units
+ *
+ * CashOrNothing: stake × loaded price; OddsBased: stake
+ *
+ * @param stake - Stake in base units
+ * @param price - Fair premium from calcPremiumFixed
+ * @param method - Payout method
+ * @param feeBps - Market fee in basis points
+ * @param decimals - Fixed-point decimals of price
+ */
+export function positionCostFixed(
+  stake: bigint,
+  price: bigint,
+  method: PayoutMethod,
+  feeBps: number,
+  decimals: number = 9
+): bigint {
+  if (method === PayoutMethod.OddsBased) return stake;
+  return (stake * applyFeeFixed(price, feeBps, decimals)) / fixedMath(decimals).scale;
+}
+
+/**
+ * Amount paid to a winning position, in integer base units
+ *
+ * CashOrNothing: stake; OddsBased: stake / loaded price (price floored at
+ * one unit)
+ *
+ * @param stake - Stake in base units
+ * @param price - Fair premium from calcPremiumFixed
+ * @param method - Payout method
+ * @param feeBps - Market fee in basis points
+ * @param won - Did the position win?
+ * @param decimals - Fixed-point decimals of price
+ */
+export function positionPayoutFixed(
+  stake: bigint,
+  price: bigint,
+  method: PayoutMethod,
+  feeBps: number,
+  won: boolean,
+  decimals: number = 9
+): bigint {
+  if (!won) return 0n;
+  if (method === PayoutMethod.CashOrNothing) return stake;
+  return (stake * fixedMath(decimals).scale) / max(applyFeeFixed(price, feeBps, decimals), 1n);
+}
+
+// ============================================================================
+// FLOAT COMPARISON
+// ============================================================================
+
+/**
+ * Fixed-point premium against the float path
+ *
+ * absDiff = fixed − float; bpsDiff = absDiff / float × 10⁴ (null when the
+ * float premium is 0)
+ */
+export interface FixedFloatComparison {
+  float: number;
+  fixedRaw: bigint;
+  fixed: number;
+  absDiff: number;
+  bpsDiff: number | null;
+}
+
+/**
+ * Price with both paths
+ *
+ * The float path uses the same inputs with the smile removed and the
+ * Hastings CDF.
+ *
+ * @param spot - Spot price
+ * @param barrier - Barrier price
+ * @param side - Long or Short
+ * @param market - Market configuration
+ * @param options - Pricing options and fixed-point decimals
+ */
+export function compareFixedPremium(
+  spot: number,
+  barrier: number,
+  side: Side,
+  market: MarketAccount,
+  options: FixedPricingOptions = {}
+): FixedFloatComparison {
+  const { decimals = 9, ...pricing } = options;
+  const float = calcPremium(
+    spot,
+    barrier,
+    side,
+    { ...market, volSmile: undefined },
+    { ...pricing, cdfMethod: 'hastings' }
+  );
+  const fixedRaw = calcPremiumFixed(spot, barrier, side, market, options);
+  const fixed = fixedMath(decimals).toNumber(fixedRaw);
+  const absDiff = fixed - float;
+
+  return {
+    float,
+    fixedRaw,
+    fixed,
+    absDiff,
+    bpsDiff: float !== 0 ? (absDiff / float) * 10_000 : null,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Implied Volatility Smile from Observed Quotes
+ *
+ * Backs out σ for a set of (barrier, premium) observations, e.g. a
+ * competitor's digital quotes, under this market's lambda and vegaBuffer
+ * construction. The solved points form an implied smile that can be plotted
+ * or stored as a smile table.
+ */
+
+import { removeFee } from './black-scholes';
+import { solveImpliedVol, ImpliedVolOptions, ImpliedVolResult } from './barrier-solver';
+import { MarketAccount, Side, SmileTable } from './types';
+
+// ============================================================================
+// OBSERVATIONS
+// ============================================================================
+
+export interface VolObservation {
+  barrier: number;
+  premium: number; // Observed premium (probability price)
+  side: Side;
+}
+
+/**
+ * Parse observations
+ *
+ * Format: one observation per line, "barrier,premium[,long|short]" (comma,
+ * semicolon, tab or whitespace separated). Without a side the
+ * out-of-the-money side is assumed: Long for barriers at or above spot,
+ * Short below. Header lines, blank lines and lines with a non-positive
+ * barrier or a premium outside (0, 1) are skipped.
+ *
+ * @param text - Raw text
+ * @param spot - Spot price used to infer the side
+ * @returns Observations in input order
+ */
+export function parseVolObservations(text: string, spot: number): VolObservation[] {
+  const observations: VolObservation[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.split(/[,;\t\s]+/).filter((cell) => cell !== '');
+    if (cells.length < 2) continue;
+
+    const barrier = Number(cells[0]);
+    const premium = Number(cells[1]);
+    if (!(barrier > 0) || !(premium > 0 && premium < 1)) continue;
+
+    const sideCell = (cells[2] ?? '').toLowerCase();
+    const side =
+      sideCell === 'long' ? Side.Long
+      : sideCell === 'short' ? Side.Short
+      : barrier >= spot ? Side.Long
+      : Side.Short;
+
+    observations.push({ barrier, premium, side });
+  }
+
+  return observations;
+}
+
+// ============================================================================
+// IMPLIED SMILE
+// ============================================================================
+
+export interface ImpliedSmilePoint extends VolObservation {
+  moneyness: number; // K / S
+  fairPremium: number; // Premium the solver matched (fee removed when feeLoaded)
+  result: ImpliedVolResult;
+}
+
+export interface ImpliedSmileOptions extends ImpliedVolOptions {
+  feeLoaded?: boolean; // Observed premiums include the market's feeBps
+}
+
+/**
+ * Solve the implied volatility of every observation
+ *
+ * @param observations - Observed quotes
+ * @param spot - Spot price at observation time
+ * @param market - Market configuration (lambdas, vegaBuffer, tenor)
+ * @param options - Solver and pricing options
+ * @returns Points sorted by moneyness, including those without a solution
+ */
+export function solveImpliedSmile(
+  observations: VolObservation[],
+  spot: number,
+  market: MarketAccount,
+  options: ImpliedSmileOptions = {}
+): ImpliedSmilePoint[] {
+  const { feeLoaded = false, ...solverOptions } = options;
+
+  return observations
+    .map((obs) => {
+      const fairPremium = feeLoaded ? removeFee(obs.premium, market.feeBps) : obs.premium;
+      return {
+        ...obs,
+        moneyness: obs.barrier / spot,
+        fairPremium,
+        result: solveImpliedVol(fairPremium, spot, obs.barrier, obs.side, market, solverOptions),
+      };
+    })
+    .sort((a, b) => a.moneyness - b.moneyness);
+}
+
+/**
+ * Smile table from the converged points
+ *
+ * Points sharing a moneyness (e.g. a Long and a Short quote at the same
+ * barrier) are averaged.
+ *
+ * @param points - Output of solveImpliedSmile
+ * @returns Table smile, or null when no point converged
+ */
+export function impliedSmileTable(points: ImpliedSmilePoint[]): SmileTable | null {
+  const byMoneyness = new Map<number, number[]>();
+  for (const point of points) {
+    if (point.result.status !== 'converged') continue;
+    const ivs = byMoneyness.get(point.moneyness) ?? [];
+    ivs.push(point.result.volatility);
+    byMoneyness.set(point.moneyness, ivs);
+  }
+  if (byMoneyness.size === 0) return null;
+
+  return {
+    kind: 'table',
+    points: [...byMoneyness.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([moneyness, ivs]) => ({
+        moneyness,
+        iv: ivs.reduce((sum, iv) => sum + iv, 0) / ivs.length,
+      })),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Headless Pricing Library
+ *
+ * Public entry point for bots, scripts and the premium-sim CLI. Nothing
+ * exported here depends on React or the DOM.
+ */
+
+export * from './types';
+export * from './black-scholes';
+export * from './pricing';
+export * from './products';
+export * from './barrier-solver';
+export * from './implied-vol';
+export * from './market-config';
+export * from './vol-smile';
+export * from './scenario';
+export * from './account-codec';
+export * from './market-guards';
+export * from './odds-ladder';
+export * from './premium-surface';
+export * from './config-variants';
+export * from './ewma-volatility';
+export * from './price-ticks';
+export * from './price-feed';
+export * from './order-book';
+export * from './strategy';
+export * from './fixed-point';
+export * from './monte-carlo';
+export * from './backtest';
+export * from './rng';
+export * from './stats';
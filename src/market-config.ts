@@ -0,0 +1,88 @@
+/**
+ * Market Configuration Defaults and Parsing
+ */
+
+import { MarketAccount } from './types';
+import { parseVolSmile } from './vol-smile';
+
+// 默认市场配置
+export const DEFAULT_MARKET_CONFIG: MarketAccount = {
+  bump: 0,
+  epochDurationSecs: 300, // 5 分钟
+  settleDelayEpochs: 1,
+  feeBps: 100, // 1%
+  minStake: 1,
+  maxStake: 10000,
+  callLambda: 0.999, // < 1.0
+  putLambda: 1.001, // > 1.0
+  vegaBuffer: 0.05,
+  feedId: [],
+  stalenessMaxSec: 60,
+  lastPrice: 100,
+  lastTs: Math.floor(Date.now() / 1000), // unix 秒
+  sigma2: 0.25, // IV ≈ 50%
+  halfLifeSecs: 43200, // 12 小时
+  vault: '',
+  pool: '',
+  treasury: '',
+  paused: false,
+  positionCounter: 0,
+};
+
+/**
+ * Build a MarketAccount from partial JSON
+ *
+ * Missing fields fall back to DEFAULT_MARKET_CONFIG; unknown fields are
+ * ignored. A present field whose JSON type differs from the default's
+ * (number / boolean / string / number array) is rejected. The optional
+ * volSmile is validated with parseVolSmile; null removes it.
+ *
+ * @param input - Parsed JSON value
+ * @param base - Defaults for missing fields
+ * @returns Complete MarketAccount
+ * @throws Error when input is not an object or a field has the wrong type
+ */
+export function parseMarketConfig(
+  input: unknown,
+  base: MarketAccount = DEFAULT_MARKET_CONFIG
+): MarketAccount {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('market config must be a JSON object');
+  }
+
+  const source = input as Record<string, unknown>;
+  const result: MarketAccount = { ...base, feedId: [...base.feedId] };
+
+  for (const key of Object.keys(base) as (keyof MarketAccount)[]) {
+    if (!(key in source)) continue;
+
+    const value = source[key];
+    const expected = base[key];
+
+    if (Array.isArray(expected)) {
+      if (!Array.isArray(value) || !value.every((v) => typeof v === 'number')) {
+        throw new Error(`market config field "${key}" must be an array of numbers`);
+      }
+    } else if (typeof value !== typeof expected) {
+      throw new Error(`market config field "${key}" must be a ${typeof expected}`);
+    }
+
+    (result as unknown as Record<string, unknown>)[key] = value;
+  }
+
+  if ('volSmile' in source) {
+    result.volSmile = source.volSmile === null ? undefined : parseVolSmile(source.volSmile);
+  }
+
+  return result;
+}
+
+/**
+ * Whether the settlement delay is a whole number of epochs (≥ 1)
+ *
+ * The simulations settle on epoch boundaries, so a fractional or zero delay
+ * would settle at a different time than calcPremium prices for.
+ */
+export function isWholeSettleDelay(market: MarketAccount): boolean {
+  return Number.isInteger(market.settleDelayEpochs) && market.settleDelayEpochs >= 1;
+}
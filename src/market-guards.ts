@@ -0,0 +1,207 @@
+/**
+ * Market Guard Checks
+ *
+ * Pre-quote validation mirroring the on-chain program's constraints. Every
+ * check returns typed rejections instead of throwing, so callers can refuse
+ * a quote and explain why before any pricer runs.
+ */
+
+import { calcPremium, PricingOptions } from './pricing';
+import {
+  MarketAccount,
+  QuoteRejection,
+  QuoteRejectionReason,
+  Side,
+} from './types';
+
+// ============================================================================
+// INDIVIDUAL CHECKS
+// ============================================================================
+
+/**
+ * Lambda constraints of the spread construction
+ *
+ * - callLambda ∈ (0, 1)
+ * - putLambda > 1
+ *
+ * @param market - Market configuration
+ * @param side - Only check the lambda of this side (both when omitted)
+ * @returns Rejections (empty when valid)
+ */
+export function validateLambdas(market: MarketAccount, side?: Side): QuoteRejection[] {
+  const rejections: QuoteRejection[] = [];
+
+  if (side !== Side.Short) {
+    const { callLambda } = market;
+    if (!(callLambda > 0 && callLambda < 1)) {
+      rejections.push({
+        reason: QuoteRejectionReason.InvalidCallLambda,
+        message: `callLambda must be in (0, 1), got ${callLambda}`,
+      });
+    }
+  }
+
+  if (side !== Side.Long) {
+    const { putLambda } = market;
+    if (!(putLambda > 1 && Number.isFinite(putLambda))) {
+      rejections.push({
+        reason: QuoteRejectionReason.InvalidPutLambda,
+        message: `putLambda must be > 1, got ${putLambda}`,
+      });
+    }
+  }
+
+  return rejections;
+}
+
+/**
+ * Staleness of the market price
+ *
+ * @param market - Market configuration (lastTs in unix seconds)
+ * @param nowTs - Current unix seconds
+ * @returns Rejection when nowTs − lastTs > stalenessMaxSec
+ */
+export function validateStaleness(market: MarketAccount, nowTs: number): QuoteRejection[] {
+  const age = nowTs - market.lastTs;
+  if (age > market.stalenessMaxSec) {
+    return [
+      {
+        reason: QuoteRejectionReason.StalePrice,
+        message: `price is ${age.toFixed(0)}s old, max ${market.stalenessMaxSec}s`,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Stake limits
+ *
+ * @param market - Market configuration
+ * @param stake - Requested stake
+ * @returns Rejection when stake ∉ [minStake, maxStake]
+ */
+export function validateStake(market: MarketAccount, stake: number): QuoteRejection[] {
+  if (!(stake >= market.minStake)) {
+    return [
+      {
+        reason: QuoteRejectionReason.StakeBelowMin,
+        message: `stake ${stake} is below minStake ${market.minStake}`,
+      },
+    ];
+  }
+  if (stake > market.maxStake) {
+    return [
+      {
+        reason: QuoteRejectionReason.StakeAboveMax,
+        message: `stake ${stake} is above maxStake ${market.maxStake}`,
+      },
+    ];
+  }
+  return [];
+}
+
+// ============================================================================
+// QUOTE VALIDATION
+// ============================================================================
+
+/**
+ * Inputs of a quote request; optional fields skip their checks
+ */
+export interface QuoteRequest {
+  spot: number;
+  barrier?: number; // Lower barrier when upperBarrier is set
+  upperBarrier?: number; // Upper barrier of a range
+  side?: Side;
+  stake?: number;
+  nowTs?: number; // Unix seconds, enables the staleness check
+}
+
+/**
+ * Run every guard that applies to a quote request
+ *
+ * Order: paused, staleness, stake, lambda, spot, barrier, upper barrier,
+ * range order.
+ *
+ * @param market - Market configuration
+ * @param request - Quote inputs
+ * @returns All rejections (empty when the quote may proceed)
+ */
+export function validateQuote(market: MarketAccount, request: QuoteRequest): QuoteRejection[] {
+  const rejections: QuoteRejection[] = [];
+
+  if (market.paused) {
+    rejections.push({
+      reason: QuoteRejectionReason.MarketPaused,
+      message: 'market is paused',
+    });
+  }
+
+  if (request.nowTs !== undefined) {
+    rejections.push(...validateStaleness(market, request.nowTs));
+  }
+
+  if (request.stake !== undefined) {
+    rejections.push(...validateStake(market, request.stake));
+  }
+
+  rejections.push(...validateLambdas(market, request.side));
+
+  if (!(request.spot > 0)) {
+    rejections.push({
+      reason: QuoteRejectionReason.NonPositiveSpot,
+      message: `spot must be > 0, got ${request.spot}`,
+    });
+  }
+
+  if (request.barrier !== undefined && !(request.barrier > 0)) {
+    rejections.push({
+      reason: QuoteRejectionReason.NonPositiveBarrier,
+      message: `barrier must be > 0, got ${request.barrier}`,
+    });
+  }
+
+  if (request.upperBarrier !== undefined) {
+    if (!(request.upperBarrier > 0)) {
+      rejections.push({
+        reason: QuoteRejectionReason.NonPositiveBarrier,
+        message: `upper barrier must be > 0, got ${request.upperBarrier}`,
+      });
+    }
+    if (request.barrier !== undefined && !(request.barrier < request.upperBarrier)) {
+      rejections.push({
+        reason: QuoteRejectionReason.InvertedRange,
+        message: `range lower ${request.barrier} must be < upper ${request.upperBarrier}`,
+      });
+    }
+  }
+
+  return rejections;
+}
+
+/**
+ * Guarded premium: either a price or the reasons it was refused
+ */
+export type GuardedQuote =
+  | { ok: true; premium: number }
+  | { ok: false; rejections: QuoteRejection[] };
+
+/**
+ * Validate and price in one step
+ *
+ * @param market - Market configuration
+ * @param request - Quote inputs (barrier and side required)
+ * @param pricing - Pricing options (CDF implementation)
+ * @returns Premium from calcPremium, or the rejections
+ */
+export function guardedPremium(
+  market: MarketAccount,
+  request: QuoteRequest & { barrier: number; side: Side },
+  pricing: PricingOptions = {}
+): GuardedQuote {
+  const rejections = validateQuote(market, request);
+  if (rejections.length > 0) {
+    return { ok: false, rejections };
+  }
+  return { ok: true, premium: calcPremium(request.spot, request.barrier, request.side, market, pricing) };
+}
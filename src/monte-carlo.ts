@@ -0,0 +1,234 @@
+/**
+ * Monte Carlo Settlement Simulator
+ *
+ * Simulates pool P&L over many epochs: GBM price paths at the market
+ * volatility, random Long/Short positions opened each epoch and settled
+ * settleDelayEpochs later.
+ *
+ * References:
+ * - P. Glasserman (2003): Monte Carlo Methods in Financial Engineering, Ch. 3
+ */
+
+import { SECONDS_PER_YEAR } from './black-scholes';
+import { isWholeSettleDelay } from './market-config';
+import {
+  calcPremium,
+  isWinning,
+  positionCost,
+  positionPayout,
+  PricingOptions,
+} from './pricing';
+import { createRng, Rng } from './rng';
+import { histogram, mean, percentile, stdDev, HistogramBin } from './stats';
+import { MarketAccount, PayoutMethod, Side } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export interface MonteCarloConfig {
+  seed: number;
+  runs: number; // Independent simulated histories
+  epochs: number; // Epochs per history in which positions are opened
+  positionsPerEpoch: number;
+  initialSpot: number;
+  initialPoolBalance: number;
+  barrierOffsetsPct: number[]; // Candidate barriers as % offset from spot at open
+  stakeMin: number; // Clamped to market minStake
+  stakeMax: number; // Clamped to market maxStake
+  longProbability: number; // Chance a position is Long (otherwise Short)
+  payoutMethod: PayoutMethod;
+  histogramBins: number;
+}
+
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  seed: 42,
+  runs: 500,
+  epochs: 100,
+  positionsPerEpoch: 5,
+  initialSpot: 100,
+  initialPoolBalance: 100_000,
+  barrierOffsetsPct: [-2, -1, -0.5, 0.5, 1, 2],
+  stakeMin: 10,
+  stakeMax: 1000,
+  longProbability: 0.5,
+  payoutMethod: PayoutMethod.CashOrNothing,
+  histogramBins: 30,
+};
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface MonteCarloRun {
+  pnl: number; // Pool P&L after all positions settled
+  maxDrawdown: number; // Largest peak-to-trough fall of the pool balance
+  ruined: boolean; // Pool balance went below zero at some point
+  positions: number;
+  userWins: number;
+}
+
+export interface MonteCarloResult {
+  runs: MonteCarloRun[];
+  meanPnl: number;
+  stdPnl: number;
+  pnlP5: number;
+  pnlP50: number;
+  pnlP95: number;
+  meanMaxDrawdown: number;
+  worstMaxDrawdown: number;
+  ruinProbability: number;
+  userWinRate: number;
+  pnlHistogram: HistogramBin[];
+  drawdownHistogram: HistogramBin[];
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Zero-drift GBM path sampled once per epoch
+ *
+ * Formula: S₍ₜ₊₁₎ = Sₜ · exp(−½σ²Δt + σ√Δt · Z)
+ *
+ * @returns Array of length steps + 1 (index 0 is the initial spot)
+ */
+function simulatePath(
+  rng: Rng,
+  spot: number,
+  sigma: number,
+  dtYears: number,
+  steps: number
+): number[] {
+  const path = [spot];
+  const drift = -0.5 * sigma * sigma * dtYears;
+  const diffusion = sigma * Math.sqrt(dtYears);
+
+  for (let i = 0; i < steps; i++) {
+    path.push(path[i] * Math.exp(drift + diffusion * rng.normal()));
+  }
+
+  return path;
+}
+
+/**
+ * Simulate one history of the pool
+ */
+function simulateRun(
+  rng: Rng,
+  config: MonteCarloConfig,
+  market: MarketAccount,
+  pricing: PricingOptions
+): MonteCarloRun {
+  const sigma = Math.sqrt(Math.max(market.sigma2, 0));
+  const dtYears = market.epochDurationSecs / SECONDS_PER_YEAR;
+  const delay = market.settleDelayEpochs;
+  const path = simulatePath(rng, config.initialSpot, sigma, dtYears, config.epochs + delay);
+
+  const stakeLo = Math.max(config.stakeMin, market.minStake);
+  const stakeHi = Math.max(Math.min(config.stakeMax, market.maxStake), stakeLo);
+
+  // Net cash flow into the pool at each epoch
+  const flows = new Array<number>(path.length).fill(0);
+  let positions = 0;
+  let userWins = 0;
+
+  for (let epoch = 0; epoch < config.epochs; epoch++) {
+    const spot = path[epoch];
+    const settlePrice = path[epoch + delay];
+
+    for (let i = 0; i < config.positionsPerEpoch; i++) {
+      if (config.barrierOffsetsPct.length === 0) break;
+
+      const side = rng.next() < config.longProbability ? Side.Long : Side.Short;
+      const offset = config.barrierOffsetsPct[rng.int(config.barrierOffsetsPct.length)];
+      const barrier = spot * (1 + offset / 100);
+      const stake = rng.uniform(stakeLo, stakeHi);
+
+      const price = calcPremium(spot, barrier, side, market, pricing);
+      const won = isWinning(side, barrier, settlePrice);
+
+      flows[epoch] += positionCost(stake, price, config.payoutMethod, market.feeBps);
+      flows[epoch + delay] -= positionPayout(
+        stake,
+        price,
+        config.payoutMethod,
+        market.feeBps,
+        won
+      );
+
+      positions++;
+      if (won) userWins++;
+    }
+  }
+
+  let balance = config.initialPoolBalance;
+  let peak = balance;
+  let maxDrawdown = 0;
+  let ruined = false;
+
+  for (const flow of flows) {
+    balance += flow;
+    peak = Math.max(peak, balance);
+    maxDrawdown = Math.max(maxDrawdown, peak - balance);
+    if (balance < 0) ruined = true;
+  }
+
+  return {
+    pnl: balance - config.initialPoolBalance,
+    maxDrawdown,
+    ruined,
+    positions,
+    userWins,
+  };
+}
+
+/**
+ * Run the Monte Carlo settlement simulation
+ *
+ * Every run draws from the same seeded generator in sequence, so a given
+ * (config, market) pair always reproduces the same result.
+ *
+ * @param config - Simulation settings
+ * @param market - Market configuration used for pricing and settlement
+ * @param pricing - Pricing options (CDF implementation)
+ * @returns Per-run outcomes and aggregate statistics
+ * @throws Error when settleDelayEpochs is not an integer ≥ 1
+ */
+export function runMonteCarlo(
+  config: MonteCarloConfig,
+  market: MarketAccount,
+  pricing: PricingOptions = {}
+): MonteCarloResult {
+  if (!isWholeSettleDelay(market)) {
+    throw new Error(`settleDelayEpochs must be an integer ≥ 1, got ${market.settleDelayEpochs}`);
+  }
+
+  const rng = createRng(config.seed);
+  const runs: MonteCarloRun[] = [];
+
+  for (let i = 0; i < config.runs; i++) {
+    runs.push(simulateRun(rng, config, market, pricing));
+  }
+
+  const pnls = runs.map((run) => run.pnl);
+  const drawdowns = runs.map((run) => run.maxDrawdown);
+  const totalPositions = runs.reduce((sum, run) => sum + run.positions, 0);
+  const totalWins = runs.reduce((sum, run) => sum + run.userWins, 0);
+
+  return {
+    runs,
+    meanPnl: mean(pnls),
+    stdPnl: stdDev(pnls),
+    pnlP5: percentile(pnls, 5),
+    pnlP50: percentile(pnls, 50),
+    pnlP95: percentile(pnls, 95),
+    meanMaxDrawdown: mean(drawdowns),
+    worstMaxDrawdown: drawdowns.reduce((a, v) => Math.max(a, v), 0),
+    ruinProbability: runs.length > 0 ? runs.filter((run) => run.ruined).length / runs.length : 0,
+    userWinRate: totalPositions > 0 ? totalWins / totalPositions : 0,
+    pnlHistogram: histogram(pnls, config.histogramBins),
+    drawdownHistogram: histogram(drawdowns, config.histogramBins),
+  };
+}
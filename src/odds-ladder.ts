@@ -0,0 +1,141 @@
+/**
+ * Odds Ladder
+ *
+ * Solves the barrier for a list of target odds on one or both sides.
+ */
+
+import { applyFee, removeFee } from './black-scholes';
+import { calcPremium, PricingOptions } from './pricing';
+import { solveForBarrier, BarrierSolveStatus } from './barrier-solver';
+import { MarketAccount, Side } from './types';
+
+export interface OddsLadderRow {
+  odds: number;
+  side: Side;
+  barrier: number;
+  movePct: number; // (barrier / spot − 1) × 100
+  premium: number; // Fair premium at the solved barrier
+  feeLoadedPremium: number;
+  status: BarrierSolveStatus; // Barrier is the closest reachable one unless converged
+}
+
+export interface OddsLadderOptions extends PricingOptions {
+  netOfFee?: boolean; // Treat odds as net of feeBps (see removeFee)
+}
+
+/**
+ * Build an odds ladder
+ *
+ * Rows are ordered by odds, then side in the order given.
+ *
+ * @param spot - Current spot price
+ * @param oddsList - Target odds (payout multiples, > 1)
+ * @param sides - Sides to solve for
+ * @param market - Market configuration
+ * @param options - Ladder and pricing options
+ * @returns One row per (odds, side)
+ */
+export function buildOddsLadder(
+  spot: number,
+  oddsList: number[],
+  sides: Side[],
+  market: MarketAccount,
+  options: OddsLadderOptions = {}
+): OddsLadderRow[] {
+  const rows: OddsLadderRow[] = [];
+
+  for (const odds of oddsList) {
+    const target = options.netOfFee ? removeFee(1 / odds, market.feeBps) : 1 / odds;
+
+    for (const side of sides) {
+      const { barrier, status } = solveForBarrier(target, spot, side, market, options);
+      const premium = calcPremium(spot, barrier, side, market, options);
+
+      rows.push({
+        odds,
+        side,
+        barrier,
+        movePct: (barrier / spot - 1) * 100,
+        premium,
+        feeLoadedPremium: applyFee(premium, market.feeBps),
+        status,
+      });
+    }
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+// 默认赔率阶梯
+export const DEFAULT_LADDER_ODDS = [1.5, 2, 3, 5, 10, 20, 50, 100];
+
+const CSV_COLUMNS = [
+  'odds',
+  'side',
+  'barrier',
+  'movePct',
+  'premium',
+  'feeLoadedPremium',
+  'status',
+] as const;
+
+/**
+ * Ladder row with the side as a string, as written to CSV / JSON
+ */
+export interface OddsLadderExportRow extends Omit<OddsLadderRow, 'side'> {
+  side: 'long' | 'short';
+}
+
+/**
+ * JSON export document
+ */
+export interface OddsLadderExport {
+  spot: number;
+  feeBps: number;
+  netOfFee: boolean;
+  rows: OddsLadderExportRow[];
+}
+
+function exportRow(row: OddsLadderRow): OddsLadderExportRow {
+  return { ...row, side: row.side === Side.Long ? 'long' : 'short' };
+}
+
+/**
+ * Serialize a ladder as CSV (header row, one line per ladder row)
+ *
+ * Numbers are written at full precision.
+ */
+export function oddsLadderToCsv(rows: OddsLadderRow[]): string {
+  const lines = rows.map((row) => {
+    const out = exportRow(row);
+    return CSV_COLUMNS.map((column) => String(out[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Serialize a ladder as a JSON document
+ *
+ * @param rows - Ladder rows from buildOddsLadder
+ * @param spot - Spot the ladder was solved at
+ * @param market - Market configuration (feeBps)
+ * @param netOfFee - Whether the odds are net of feeBps
+ */
+export function oddsLadderToJson(
+  rows: OddsLadderRow[],
+  spot: number,
+  market: MarketAccount,
+  netOfFee: boolean
+): string {
+  const doc: OddsLadderExport = {
+    spot,
+    feeBps: market.feeBps,
+    netOfFee,
+    rows: rows.map(exportRow),
+  };
+  return JSON.stringify(doc, null, 2);
+}
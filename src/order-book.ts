@@ -0,0 +1,222 @@
+/**
+ * Order Book and Aggregate Exposure
+ *
+ * Holds open positions and computes book-level risk: net liability across
+ * settlement prices, worst-case payout and exposure by barrier bucket.
+ */
+
+import {
+  calcPremium,
+  isWinning,
+  positionCost,
+  positionPayout,
+  PricingOptions,
+} from './pricing';
+import { MarketAccount, OrderBook, PayoutMethod, Position, Side } from './types';
+
+// ============================================================================
+// BOOK MAINTENANCE
+// ============================================================================
+
+export interface PositionOrder {
+  side: Side;
+  barrier: number;
+  stake: number;
+  payoutMethod: PayoutMethod;
+}
+
+/**
+ * Empty book continuing from the market's position counter
+ */
+export function createOrderBook(market: MarketAccount): OrderBook {
+  return { positions: [], positionCounter: market.positionCounter };
+}
+
+/**
+ * Current epoch index derived from MarketAccount.lastTs
+ */
+export function currentEpoch(market: MarketAccount): number {
+  if (market.epochDurationSecs <= 0) return 0;
+  return Math.floor(market.lastTs / market.epochDurationSecs);
+}
+
+/**
+ * Open a position quoted at the given spot
+ *
+ * The premium is priced with calcPremium, the id is taken from the book's
+ * position counter and the settlement epoch is openEpoch + settleDelayEpochs.
+ *
+ * @param book - Current book
+ * @param market - Market configuration used for quoting
+ * @param spot - Spot price at open
+ * @param order - Side, barrier, stake and payout method
+ * @param pricing - Pricing options (CDF implementation)
+ * @returns New book including the position
+ */
+export function openPosition(
+  book: OrderBook,
+  market: MarketAccount,
+  spot: number,
+  order: PositionOrder,
+  pricing: PricingOptions = {}
+): OrderBook {
+  const price = calcPremium(spot, order.barrier, order.side, market, pricing);
+  const openEpoch = currentEpoch(market);
+
+  const position: Position = {
+    id: book.positionCounter,
+    side: order.side,
+    barrier: order.barrier,
+    stake: order.stake,
+    premiumPaid: positionCost(order.stake, price, order.payoutMethod, market.feeBps),
+    payoutIfWon: positionPayout(order.stake, price, order.payoutMethod, market.feeBps, true),
+    payoutMethod: order.payoutMethod,
+    openEpoch,
+    settleEpoch: openEpoch + market.settleDelayEpochs,
+  };
+
+  return {
+    positions: [...book.positions, position],
+    positionCounter: book.positionCounter + 1,
+  };
+}
+
+/**
+ * Remove a position by id
+ */
+export function removePosition(book: OrderBook, id: number): OrderBook {
+  return { ...book, positions: book.positions.filter((p) => p.id !== id) };
+}
+
+// ============================================================================
+// RISK
+// ============================================================================
+
+/**
+ * Pool obligations if the book settles at one price
+ *
+ * - grossPayout: total paid to winning positions
+ * - netLiability: grossPayout − premiums collected (positive = pool loses)
+ */
+export interface BookSettlement {
+  settlePrice: number;
+  grossPayout: number;
+  netLiability: number;
+}
+
+/**
+ * Total premium collected by the pool
+ */
+export function totalPremium(book: OrderBook): number {
+  return book.positions.reduce((sum, p) => sum + p.premiumPaid, 0);
+}
+
+/**
+ * Settle the whole book at a single price
+ */
+export function settleBookAt(book: OrderBook, settlePrice: number): BookSettlement {
+  const grossPayout = book.positions.reduce(
+    (sum, p) => sum + (isWinning(p.side, p.barrier, settlePrice) ? p.payoutIfWon : 0),
+    0
+  );
+
+  return {
+    settlePrice,
+    grossPayout,
+    netLiability: grossPayout - totalPremium(book),
+  };
+}
+
+/**
+ * Net liability sampled across a settlement price range
+ *
+ * @param book - Order book
+ * @param minPrice - Lowest settlement price
+ * @param maxPrice - Highest settlement price
+ * @param points - Number of samples (≥ 2)
+ * @returns Settlement outcomes at evenly spaced prices
+ */
+export function liabilityCurve(
+  book: OrderBook,
+  minPrice: number,
+  maxPrice: number,
+  points: number
+): BookSettlement[] {
+  const n = Math.max(Math.floor(points), 2);
+  const step = (maxPrice - minPrice) / (n - 1);
+  return Array.from({ length: n }, (_, i) => settleBookAt(book, minPrice + step * i));
+}
+
+/**
+ * Worst-case settlement for the pool
+ *
+ * Payouts only change at barriers, so it is enough to test one price inside
+ * every interval between consecutive distinct barriers, plus one price below
+ * the lowest and one above the highest barrier.
+ *
+ * @param book - Order book
+ * @returns Settlement with the largest gross payout (null for an empty book)
+ */
+export function worstCaseSettlement(book: OrderBook): BookSettlement | null {
+  if (book.positions.length === 0) return null;
+
+  const barriers = [...new Set(book.positions.map((p) => p.barrier))].sort((a, b) => a - b);
+  const candidates = [barriers[0] / 2, barriers[barriers.length - 1] * 2];
+  for (let i = 0; i < barriers.length - 1; i++) {
+    candidates.push((barriers[i] + barriers[i + 1]) / 2);
+  }
+
+  return candidates
+    .map((price) => settleBookAt(book, price))
+    .reduce((worst, s) => (s.grossPayout > worst.grossPayout ? s : worst));
+}
+
+/**
+ * Exposure aggregated by barrier bucket
+ */
+export interface BarrierBucketExposure {
+  bucketStart: number;
+  bucketEnd: number;
+  positions: number;
+  longPayout: number; // Payout owed if every Long in the bucket wins
+  shortPayout: number; // Payout owed if every Short in the bucket wins
+  premium: number;
+}
+
+/**
+ * Group positions into barrier buckets of fixed width
+ *
+ * @param book - Order book
+ * @param bucketWidth - Bucket width in price units (> 0)
+ * @returns Buckets sorted by ascending barrier
+ */
+export function exposureByBarrierBucket(
+  book: OrderBook,
+  bucketWidth: number
+): BarrierBucketExposure[] {
+  const width = bucketWidth > 0 ? bucketWidth : 1;
+  const buckets = new Map<number, BarrierBucketExposure>();
+
+  for (const p of book.positions) {
+    const index = Math.floor(p.barrier / width);
+    const bucket = buckets.get(index) ?? {
+      bucketStart: index * width,
+      bucketEnd: (index + 1) * width,
+      positions: 0,
+      longPayout: 0,
+      shortPayout: 0,
+      premium: 0,
+    };
+
+    bucket.positions++;
+    bucket.premium += p.premiumPaid;
+    if (p.side === Side.Long) {
+      bucket.longPayout += p.payoutIfWon;
+    } else {
+      bucket.shortPayout += p.payoutIfWon;
+    }
+    buckets.set(index, bucket);
+  }
+
+  return [...buckets.values()].sort((a, b) => a.bucketStart - b.bucketStart);
+}
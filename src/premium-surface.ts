@@ -0,0 +1,145 @@
+/**
+ * Premium Surface
+ *
+ * Evaluates calcPremium on a 2-D grid over any two of: spot, barrier, time
+ * to expiry (in epochs), volatility and vegaBuffer. All other inputs stay
+ * at their current values.
+ */
+
+import { calcPremium, PricingOptions } from './pricing';
+import { MarketAccount, Side } from './types';
+
+// ============================================================================
+// AXES
+// ============================================================================
+
+/**
+ * Surface axis
+ *
+ * - spot: spot price S
+ * - barrier: barrier price B
+ * - epochs: time to expiry in epochs (replaces settleDelayEpochs, may be fractional)
+ * - sigma: annualized volatility σ (sigma2 = σ²)
+ * - vegaBuffer: volatility buffer of the spread pricer
+ */
+export type SurfaceAxis = 'spot' | 'barrier' | 'epochs' | 'sigma' | 'vegaBuffer';
+
+export interface SurfaceAxisRange {
+  axis: SurfaceAxis;
+  min: number;
+  max: number;
+  steps: number; // Grid points along the axis (≥ 2)
+}
+
+/**
+ * Inputs of a single surface cell
+ */
+interface SurfacePoint {
+  spot: number;
+  barrier: number;
+  market: MarketAccount;
+}
+
+/**
+ * Evenly spaced axis values from min to max inclusive
+ */
+export function axisValues(range: SurfaceAxisRange): number[] {
+  const n = Math.max(Math.floor(range.steps), 2);
+  const step = (range.max - range.min) / (n - 1);
+  return Array.from({ length: n }, (_, i) => range.min + step * i);
+}
+
+/**
+ * Current value of an axis, used to centre default ranges
+ */
+export function axisBaseValue(
+  axis: SurfaceAxis,
+  spot: number,
+  barrier: number,
+  market: MarketAccount
+): number {
+  switch (axis) {
+    case 'spot':
+      return spot;
+    case 'barrier':
+      return barrier;
+    case 'epochs':
+      return market.settleDelayEpochs;
+    case 'sigma':
+      return Math.sqrt(Math.max(market.sigma2, 0));
+    case 'vegaBuffer':
+      return market.vegaBuffer;
+  }
+}
+
+function applyAxis(point: SurfacePoint, axis: SurfaceAxis, value: number): SurfacePoint {
+  switch (axis) {
+    case 'spot':
+      return { ...point, spot: value };
+    case 'barrier':
+      return { ...point, barrier: value };
+    case 'epochs':
+      return { ...point, market: { ...point.market, settleDelayEpochs: value } };
+    case 'sigma':
+      return { ...point, market: { ...point.market, sigma2: value * value } };
+    case 'vegaBuffer':
+      return { ...point, market: { ...point.market, vegaBuffer: value } };
+  }
+}
+
+// ============================================================================
+// SURFACE
+// ============================================================================
+
+export interface PremiumSurface {
+  x: number[];
+  y: number[];
+  premiums: number[][]; // premiums[yi][xi]
+  minPremium: number;
+  maxPremium: number;
+}
+
+/**
+ * Evaluate the premium surface
+ *
+ * @param spot - Spot price when spot is not an axis
+ * @param barrier - Barrier price when barrier is not an axis
+ * @param side - Long or Short
+ * @param market - Market configuration
+ * @param xRange - Horizontal axis
+ * @param yRange - Vertical axis
+ * @param pricing - Pricing options
+ * @returns Axis values and premiums, rows indexed by y
+ * @throws Error when both ranges use the same axis
+ */
+export function buildPremiumSurface(
+  spot: number,
+  barrier: number,
+  side: Side,
+  market: MarketAccount,
+  xRange: SurfaceAxisRange,
+  yRange: SurfaceAxisRange,
+  pricing: PricingOptions = {}
+): PremiumSurface {
+  if (xRange.axis === yRange.axis) {
+    throw new Error(`surface axes must differ, got ${xRange.axis} twice`);
+  }
+
+  const x = axisValues(xRange);
+  const y = axisValues(yRange);
+  let minPremium = Infinity;
+  let maxPremium = -Infinity;
+
+  const premiums = y.map((yValue) => {
+    const row = applyAxis({ spot, barrier, market }, yRange.axis, yValue);
+    return x.map((xValue) => {
+      const cell = applyAxis(row, xRange.axis, xValue);
+      const premium = calcPremium(cell.spot, cell.barrier, side, cell.market, pricing);
+      if (premium < minPremium) minPremium = premium;
+      if (premium > maxPremium) maxPremium = premium;
+      return premium;
+    });
+  });
+
+  return { x, y, premiums, minPremium, maxPremium };
+}
@@ -0,0 +1,279 @@
+/**
+ * Live Price Feeds
+ *
+ * A pluggable price-feed interface plus a WebSocket adapter speaking a
+ * Pyth-like (Hermes) message format:
+ *
+ *   → { "type": "subscribe", "ids": ["<feed id hex>"] }
+ *   ← { "type": "response", "status": "success" }
+ *   ← { "type": "price_update", "price_feed": { "id": "<feed id hex>",
+ *        "price": { "price": "6425012500000", "conf": "1250000",
+ *                   "expo": -8, "publish_time": 1700000000 } } }
+ *
+ * Prices are fixed-point strings scaled by 10^expo. The socket is injected
+ * so the adapter runs against the browser WebSocket or a Node client alike.
+ */
+
+import { MarketAccount } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A decoded price observation
+ */
+export interface PriceUpdate {
+  feedId: string; // Lowercase hex without 0x
+  price: number;
+  conf: number; // Confidence interval (same units as price)
+  publishTime: number; // Unix seconds
+}
+
+export type PriceFeedStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+export interface PriceFeedListener {
+  onPrice: (update: PriceUpdate) => void;
+  onStatus?: (status: PriceFeedStatus, message?: string) => void;
+}
+
+/**
+ * Source of live prices
+ *
+ * connect() starts delivering updates to the listener and returns a
+ * function that stops the feed.
+ */
+export interface PriceFeed {
+  connect(listener: PriceFeedListener): () => void;
+}
+
+// ============================================================================
+// PYTH-LIKE MESSAGES
+// ============================================================================
+
+export interface PythPrice {
+  price: string;
+  conf: string;
+  expo: number;
+  publish_time: number;
+}
+
+export interface PythPriceUpdateMessage {
+  type: 'price_update';
+  price_feed: {
+    id: string;
+    price: PythPrice;
+  };
+}
+
+export interface PythSubscribeMessage {
+  type: 'subscribe' | 'unsubscribe';
+  ids: string[];
+}
+
+// 默认价格指数（Pyth 价格通常为 1e-8 精度）
+export const DEFAULT_PRICE_EXPO = -8;
+
+/**
+ * Normalise a feed id to lowercase hex without the 0x prefix
+ */
+export function normalizeFeedId(id: string): string {
+  return id.trim().replace(/^0x/i, '').toLowerCase();
+}
+
+/**
+ * Feed id of a market as hex ('' when unset)
+ */
+export function feedIdToHex(feedId: number[]): string {
+  return feedId.map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parse a 32-byte hex feed id into MarketAccount.feedId bytes
+ *
+ * @throws Error when the id is not 64 hex digits
+ */
+export function hexToFeedId(hex: string): number[] {
+  const normalized = normalizeFeedId(hex);
+  if (!/^[0-9a-f]{64}$/.test(normalized)) {
+    throw new Error('feed id must be 32 bytes of hex');
+  }
+  return Array.from({ length: 32 }, (_, i) => parseInt(normalized.slice(i * 2, i * 2 + 2), 16));
+}
+
+/**
+ * Encode a price update as a Pyth-like price_update message
+ *
+ * @param update - Price observation
+ * @param expo - Decimal exponent of the fixed-point price
+ */
+export function encodePriceUpdate(
+  update: PriceUpdate,
+  expo: number = DEFAULT_PRICE_EXPO
+): PythPriceUpdateMessage {
+  const scale = Math.pow(10, -expo);
+  return {
+    type: 'price_update',
+    price_feed: {
+      id: normalizeFeedId(update.feedId),
+      price: {
+        price: Math.round(update.price * scale).toString(),
+        conf: Math.round(update.conf * scale).toString(),
+        expo,
+        publish_time: Math.floor(update.publishTime),
+      },
+    },
+  };
+}
+
+/**
+ * Decode a Pyth-like message
+ *
+ * @param message - Parsed JSON message
+ * @returns The price update, or null for other message types (responses)
+ * @throws Error when a price_update message is malformed
+ */
+export function decodePriceUpdate(message: unknown): PriceUpdate | null {
+  if (typeof message !== 'object' || message === null) {
+    throw new Error('feed message must be a JSON object');
+  }
+  const { type, price_feed: feed } = message as { type?: unknown; price_feed?: unknown };
+  if (type !== 'price_update') return null;
+
+  const { id, price } = (feed ?? {}) as { id?: unknown; price?: Partial<PythPrice> };
+  if (typeof id !== 'string' || typeof price !== 'object' || price === null) {
+    throw new Error('price_update must have price_feed.id and price_feed.price');
+  }
+
+  const scale = Math.pow(10, Number(price.expo));
+  const value = Number(price.price) * scale;
+  const conf = Number(price.conf ?? 0) * scale;
+  const publishTime = Number(price.publish_time);
+  if (!(value > 0) || !Number.isFinite(conf) || !Number.isFinite(publishTime)) {
+    throw new Error(`invalid price_update for feed ${id}`);
+  }
+
+  return { feedId: normalizeFeedId(id), price: value, conf, publishTime };
+}
+
+/**
+ * Market fields updated by a price observation
+ */
+export function applyPriceUpdate(market: MarketAccount, update: PriceUpdate): MarketAccount {
+  return { ...market, lastPrice: update.price, lastTs: update.publishTime };
+}
+
+// ============================================================================
+// WEBSOCKET ADAPTER
+// ============================================================================
+
+/**
+ * The subset of the WebSocket API the adapter uses
+ */
+export interface WebSocketLike {
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface WebSocketPriceFeedOptions {
+  url: string;
+  feedIds: string[]; // Updates for other ids are ignored; empty accepts all
+  createSocket?: (url: string) => WebSocketLike; // Defaults to the global WebSocket
+  reconnectDelayMs?: number; // Delay before reconnecting after a drop (0 disables)
+}
+
+// 断线后默认重连间隔（毫秒）
+const DEFAULT_RECONNECT_DELAY_MS = 2000;
+
+function defaultCreateSocket(url: string): WebSocketLike {
+  const ctor = (globalThis as { WebSocket?: new (url: string) => WebSocketLike }).WebSocket;
+  if (!ctor) throw new Error('WebSocket is not available; pass createSocket');
+  return new ctor(url);
+}
+
+/**
+ * Price feed over a Pyth-like WebSocket stream
+ *
+ * Subscribes to the feed ids on open and reconnects after unexpected
+ * closes. Malformed messages are reported through onStatus('error') and
+ * skipped.
+ *
+ * @param options - Endpoint, feed ids and socket factory
+ * @returns PriceFeed
+ */
+export function createWebSocketPriceFeed(options: WebSocketPriceFeedOptions): PriceFeed {
+  const {
+    url,
+    createSocket = defaultCreateSocket,
+    reconnectDelayMs = DEFAULT_RECONNECT_DELAY_MS,
+  } = options;
+  const feedIds = options.feedIds.map(normalizeFeedId);
+
+  return {
+    connect(listener) {
+      let socket: WebSocketLike | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let stopped = false;
+
+      const open = () => {
+        listener.onStatus?.('connecting');
+        try {
+          socket = createSocket(url);
+        } catch (err) {
+          listener.onStatus?.('error', err instanceof Error ? err.message : String(err));
+          scheduleReconnect();
+          return;
+        }
+
+        socket.onopen = () => {
+          const subscribe: PythSubscribeMessage = { type: 'subscribe', ids: feedIds };
+          socket?.send(JSON.stringify(subscribe));
+          listener.onStatus?.('open');
+        };
+
+        socket.onmessage = (event) => {
+          let update: PriceUpdate | null;
+          try {
+            update = decodePriceUpdate(JSON.parse(String(event.data)));
+          } catch (err) {
+            listener.onStatus?.('error', err instanceof Error ? err.message : String(err));
+            return;
+          }
+          if (update && (feedIds.length === 0 || feedIds.includes(update.feedId))) {
+            listener.onPrice(update);
+          }
+        };
+
+        socket.onerror = () => {
+          listener.onStatus?.('error', `connection to ${url} failed`);
+        };
+
+        socket.onclose = () => {
+          socket = null;
+          if (stopped) return;
+          listener.onStatus?.('closed');
+          scheduleReconnect();
+        };
+      };
+
+      const scheduleReconnect = () => {
+        if (stopped || reconnectDelayMs <= 0) return;
+        reconnectTimer = setTimeout(open, reconnectDelayMs);
+      };
+
+      open();
+
+      return () => {
+        stopped = true;
+        if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+        socket?.close();
+        socket = null;
+        listener.onStatus?.('closed');
+      };
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Price Tick Parsing
+ *
+ * Parses (timestamp, price) series pasted or loaded as CSV / whitespace
+ * separated text. Timestamps are normalised to unix seconds.
+ */
+
+import { PriceTick } from './types';
+
+// Values above this are treated as milliseconds (≈ year 5138 in seconds)
+const MILLISECOND_THRESHOLD = 1e11;
+
+/**
+ * Parse a timestamp cell into unix seconds
+ *
+ * Accepts unix seconds, unix milliseconds or any string Date.parse understands
+ * (e.g. ISO-8601).
+ *
+ * @param raw - Timestamp cell
+ * @returns Unix seconds, or NaN when unparseable
+ */
+export function parseTimestamp(raw: string): number {
+  const trimmed = raw.trim();
+  if (trimmed === '') return NaN;
+
+  const numeric = Number(trimmed);
+  if (Number.isFinite(numeric)) {
+    return numeric > MILLISECOND_THRESHOLD ? numeric / 1000 : numeric;
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isFinite(parsed) ? parsed / 1000 : NaN;
+}
+
+/**
+ * Parse a tick series
+ *
+ * Format: one tick per line, "timestamp,price" (comma, semicolon or tab
+ * separated; whitespace when none of those appear). Header lines, blank lines and lines with a
+ * non-positive price are skipped. Output is sorted by timestamp.
+ *
+ * @param text - Raw CSV text
+ * @returns Ticks sorted by ascending timestamp
+ */
+export function parsePriceTicks(text: string): PriceTick[] {
+  const ticks: PriceTick[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const separator = /[,;\t]/.test(line) ? /[,;\t]/ : /\s+/;
+    const cells = line.split(separator).filter((cell) => cell.trim() !== '');
+    if (cells.length < 2) continue;
+
+    const ts = parseTimestamp(cells[0]);
+    const price = Number(cells[1]);
+    if (!Number.isFinite(ts) || !Number.isFinite(price) || price <= 0) continue;
+
+    ticks.push({ ts, price });
+  }
+
+  return ticks.sort((a, b) => a.ts - b.ts);
+}
+
+/**
+ * Last observed price at or before a timestamp
+ *
+ * Binary search over ticks sorted by ascending timestamp.
+ *
+ * @param ticks - Ticks sorted by ascending timestamp
+ * @param ts - Unix seconds
+ * @returns Price of the latest tick with tick.ts ≤ ts, or null if none
+ */
+export function priceAt(ticks: PriceTick[], ts: number): number | null {
+  let lo = 0;
+  let hi = ticks.length - 1;
+  let found = -1;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (ticks[mid].ts <= ts) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found >= 0 ? ticks[found].price : null;
+}
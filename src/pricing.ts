@@ -0,0 +1,201 @@
+/**
+ * Premium Pricing from Market Configuration
+ *
+ * Maps a MarketAccount onto the digital pricers in black-scholes.ts.
+ * Shared by the UI and headless simulations.
+ */
+
+import {
+  digitalCallPrice,
+  digitalPutPrice,
+  digitalCallGreeks,
+  digitalPutGreeks,
+  digitalCallPriceClosedForm,
+  digitalPutPriceClosedForm,
+  digitalCallGreeksClosedForm,
+  digitalPutGreeksClosedForm,
+  DigitalGreeks,
+  DigitalParams,
+  FeeQuote,
+  quoteWithFee,
+  calculatePremium,
+  payoutCashOrNothing,
+  payoutOddsBased,
+  SECONDS_PER_YEAR,
+  CdfMethod,
+} from './black-scholes';
+import { MarketAccount, Side, PayoutMethod } from './types';
+import { smileLookup } from './vol-smile';
+
+/**
+ * Digital pricing model
+ *
+ * - spread: lambda-skewed call/put spread with ±vegaBuffer (on-chain pricer)
+ * - closedForm: cash-or-nothing Φ(±d₂) at the unbuffered volatility
+ */
+export type PricingModel = 'spread' | 'closedForm';
+
+/**
+ * Simulator-side pricing settings that are not part of MarketAccount
+ */
+export interface PricingOptions {
+  cdfMethod?: CdfMethod; // Normal CDF used by Black-Scholes (default: hastings)
+  model?: PricingModel; // Digital pricer (default: spread)
+  rate?: number; // Risk-free rate r, annualized (default 0)
+  carry?: number; // Carry / funding rate q, annualized (default 0)
+  entryOffsetSecs?: number; // Seconds elapsed since the epoch open at entry (default 0)
+}
+
+// 距结算的剩余时间（秒）：完整期限减去入场偏移，限制在 [0, 完整期限]
+export function timeRemainingSecs(
+  marketAccount: MarketAccount,
+  entryOffsetSecs: number = 0
+): number {
+  const fullSecs = marketAccount.epochDurationSecs * marketAccount.settleDelayEpochs;
+  return Math.min(Math.max(fullSecs - entryOffsetSecs, 0), Math.max(fullSecs, 0));
+}
+
+// 根据市场配置构造数字期权定价参数（设置了波动率微笑时按行权价查询 IV，期限扣除入场偏移）
+export function buildDigitalParams(
+  s: number,
+  b: number,
+  marketAccount: MarketAccount,
+  options: PricingOptions = {}
+): DigitalParams {
+  const iv = Math.sqrt(Math.max(marketAccount.sigma2, 0));
+  const timeYears =
+    timeRemainingSecs(marketAccount, options.entryOffsetSecs) / SECONDS_PER_YEAR;
+
+  return {
+    spot: s,
+    barrier: b,
+    timeYears,
+    vegaBuffer: marketAccount.vegaBuffer,
+    volatility: iv,
+    rate: options.rate,
+    carry: options.carry,
+    cdfMethod: options.cdfMethod,
+    volAtStrike: marketAccount.volSmile ? smileLookup(marketAccount.volSmile) : undefined,
+  };
+}
+
+// 计算 Premium 的核心函数（从 index.ts 移植）
+export function calcPremium(
+  s: number, 
+  b: number, 
+  side: Side, 
+  marketAccount: MarketAccount,
+  options: PricingOptions = {}
+): number {
+  const params = buildDigitalParams(s, b, marketAccount, options);
+
+  if (options.model === 'closedForm') {
+    return side === Side.Long
+      ? digitalCallPriceClosedForm(params)
+      : digitalPutPriceClosedForm(params);
+  }
+
+  if (side === Side.Long) {
+    return digitalCallPrice(params, marketAccount.callLambda);
+  } else {
+    return digitalPutPrice(params, marketAccount.putLambda);
+  }
+}
+
+// 含手续费报价：公平概率、含费权利金、净赔率、庄家优势
+export function calcQuote(
+  s: number,
+  b: number,
+  side: Side,
+  marketAccount: MarketAccount,
+  options: PricingOptions = {}
+): FeeQuote {
+  return quoteWithFee(calcPremium(s, b, side, marketAccount, options), marketAccount.feeBps);
+}
+
+// 计算 Greeks（与 calcPremium 使用相同的价差构造）
+export function calcGreeks(
+  s: number,
+  b: number,
+  side: Side,
+  marketAccount: MarketAccount,
+  options: PricingOptions = {}
+): DigitalGreeks {
+  const params = buildDigitalParams(s, b, marketAccount, options);
+
+  if (options.model === 'closedForm') {
+    return side === Side.Long
+      ? digitalCallGreeksClosedForm(params, marketAccount.epochDurationSecs)
+      : digitalPutGreeksClosedForm(params, marketAccount.epochDurationSecs);
+  }
+
+  if (side === Side.Long) {
+    return digitalCallGreeks(
+      params,
+      marketAccount.callLambda,
+      marketAccount.epochDurationSecs
+    );
+  } else {
+    return digitalPutGreeks(
+      params,
+      marketAccount.putLambda,
+      marketAccount.epochDurationSecs
+    );
+  }
+}
+
+// 价差构造相对闭式解的加成
+export interface SpreadMarkup {
+  spreadPremium: number;
+  closedFormPremium: number;
+  markupBps: number | null; // (spread − closedForm) / spread × 10⁴，spread 为 0 时为 null
+}
+
+// 计算 lambda 与 vegaBuffer 带来的加成（与 houseEdgeBps 同口径，以报价为分母）
+export function calcSpreadMarkup(
+  s: number,
+  b: number,
+  side: Side,
+  marketAccount: MarketAccount,
+  options: PricingOptions = {}
+): SpreadMarkup {
+  const spreadPremium = calcPremium(s, b, side, marketAccount, { ...options, model: 'spread' });
+  const closedFormPremium = calcPremium(s, b, side, marketAccount, { ...options, model: 'closedForm' });
+
+  return {
+    spreadPremium,
+    closedFormPremium,
+    markupBps:
+      spreadPremium > 0 ? ((spreadPremium - closedFormPremium) / spreadPremium) * 10_000 : null,
+  };
+}
+
+// 结算判定：Long 需结算价高于障碍价，Short 需低于障碍价
+export function isWinning(side: Side, barrier: number, settlePrice: number): boolean {
+  return side === Side.Long ? settlePrice > barrier : settlePrice < barrier;
+}
+
+// 开仓时用户支付给池子的金额
+export function positionCost(
+  stake: number,
+  fairPrice: number,
+  method: PayoutMethod,
+  feeBps: number
+): number {
+  return method === PayoutMethod.CashOrNothing
+    ? calculatePremium(stake, fairPrice, feeBps)
+    : stake;
+}
+
+// 结算时池子支付给用户的金额
+export function positionPayout(
+  stake: number,
+  fairPrice: number,
+  method: PayoutMethod,
+  feeBps: number,
+  won: boolean
+): number {
+  return method === PayoutMethod.CashOrNothing
+    ? payoutCashOrNothing(stake, won)
+    : payoutOddsBased(stake, fairPrice, won, feeBps);
+}
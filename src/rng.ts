@@ -0,0 +1,65 @@
+/**
+ * Seeded Random Number Generation
+ *
+ * Deterministic generators so simulations are reproducible from a seed.
+ *
+ * References:
+ * - T. Ettinger: Mulberry32 (public domain PRNG)
+ * - Box & Muller (1958): A Note on the Generation of Random Normal Deviates
+ */
+
+/**
+ * Seeded random source
+ */
+export interface Rng {
+  /** Uniform in [0, 1) */
+  next(): number;
+  /** Standard normal N(0, 1) */
+  normal(): number;
+  /** Uniform in [min, max) */
+  uniform(min: number, max: number): number;
+  /** Uniform integer in [0, n) */
+  int(n: number): number;
+}
+
+/**
+ * Create a Mulberry32 generator
+ *
+ * Period 2³², adequate for simulation sizes used here. Normals use the
+ * Box–Muller transform and cache the second deviate.
+ *
+ * @param seed - 32-bit integer seed
+ * @returns Seeded Rng
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  let spareNormal: number | null = null;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const normal = (): number => {
+    if (spareNormal !== null) {
+      const z = spareNormal;
+      spareNormal = null;
+      return z;
+    }
+    const u = 1 - next(); // (0, 1]
+    const v = next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spareNormal = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+
+  return {
+    next,
+    normal,
+    uniform: (min, max) => min + (max - min) * next(),
+    int: (n) => Math.floor(next() * n),
+  };
+}
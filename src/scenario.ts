@@ -0,0 +1,262 @@
+/**
+ * Simulator Scenarios
+ *
+ * A scenario captures everything needed to restore a simulator view: mode,
+ * trade inputs, the full MarketAccount, pricing options and chart settings.
+ * Scenarios are stored as versioned JSON documents; older schema versions are
+ * upgraded on load so saved files and shared links keep working.
+ */
+
+import { CdfMethod } from './black-scholes';
+import { DEFAULT_MARKET_CONFIG, parseMarketConfig } from './market-config';
+import { PricingModel } from './pricing';
+import { GreekKey, MarketAccount, ProductType, Side, SimulatorMode } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Current scenario document schema version
+ *
+ * Bump when the document layout changes and add a migration from the
+ * previous version to MIGRATIONS.
+ */
+export const SCENARIO_SCHEMA_VERSION = 4;
+
+export interface ScenarioPricing {
+  cdfMethod: CdfMethod;
+  model: PricingModel;
+  rate: number;
+  carry: number;
+}
+
+export interface ScenarioChartSettings {
+  rangePercent: number; // ± range around the barrier
+  dataPoints: number;
+  chartGreek: GreekKey | 'none';
+  compareModels: boolean;
+}
+
+export interface Scenario {
+  name: string;
+  mode: SimulatorMode;
+  spotPrice: number;
+  barrierPrice: number;
+  side: Side;
+  product: ProductType;
+  rangeLower: number;
+  rangeUpper: number;
+  odds: number;
+  solveNetOdds: boolean;
+  stake: number;
+  priceAgeSecs: number; // Seconds since market.lastTs
+  entryOffsetSecs: number;
+  market: MarketAccount;
+  pricing: ScenarioPricing;
+  chart: ScenarioChartSettings;
+}
+
+export type ScenarioProductName = 'digital' | 'range' | 'oneTouch' | 'noTouch';
+
+/**
+ * Scenario as written to JSON (side and product as strings, schema version
+ * first)
+ */
+export interface ScenarioDocument extends Omit<Scenario, 'side' | 'product'> {
+  schemaVersion: number;
+  side: 'long' | 'short';
+  product: ScenarioProductName;
+}
+
+// 默认场景（与页面初始状态一致）
+export const DEFAULT_SCENARIO: Scenario = {
+  name: '默认',
+  mode: 'premium',
+  spotPrice: 100,
+  barrierPrice: 100,
+  side: Side.Long,
+  product: ProductType.Digital,
+  rangeLower: 99.5,
+  rangeUpper: 100.5,
+  odds: 10,
+  solveNetOdds: false,
+  stake: 100,
+  priceAgeSecs: 0,
+  entryOffsetSecs: 0,
+  market: DEFAULT_MARKET_CONFIG,
+  pricing: { cdfMethod: 'hastings', model: 'spread', rate: 0, carry: 0 },
+  chart: { rangePercent: 30, dataPoints: 50, chartGreek: 'none', compareModels: false },
+};
+
+const MODES: SimulatorMode[] = ['premium', 'odds', 'impliedVol', 'montecarlo', 'backtest', 'book', 'strategy'];
+// Indexed by ProductType
+const PRODUCT_NAMES: ScenarioProductName[] = ['digital', 'range', 'oneTouch', 'noTouch'];
+const CDF_METHODS: CdfMethod[] = ['hastings', 'erfc'];
+const MODELS: PricingModel[] = ['spread', 'closedForm'];
+const CHART_GREEKS: (GreekKey | 'none')[] = [
+  'none',
+  'delta',
+  'gamma',
+  'vega',
+  'thetaPerSecond',
+  'thetaPerEpoch',
+];
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a scenario to its JSON document form
+ */
+export function scenarioToDocument(scenario: Scenario): ScenarioDocument {
+  const { side, product, ...rest } = scenario;
+  return {
+    schemaVersion: SCENARIO_SCHEMA_VERSION,
+    ...rest,
+    side: side === Side.Long ? 'long' : 'short',
+    product: PRODUCT_NAMES[product],
+  };
+}
+
+/**
+ * Serialize a scenario as pretty-printed JSON
+ */
+export function scenarioToJson(scenario: Scenario): string {
+  return JSON.stringify(scenarioToDocument(scenario), null, 2);
+}
+
+/**
+ * Encode a scenario for a URL (base64url of the compact JSON document)
+ */
+export function encodeScenarioParam(scenario: Scenario): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenarioToDocument(scenario)));
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a URL parameter produced by encodeScenarioParam
+ *
+ * @throws Error when the parameter is not valid base64url JSON or the
+ *   document is invalid
+ */
+export function decodeScenarioParam(param: string): Scenario {
+  let text: string;
+  try {
+    const binary = atob(param.replace(/-/g, '+').replace(/_/g, '/'));
+    text = new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+  } catch {
+    throw new Error('scenario link is not valid base64url');
+  }
+  return parseScenario(JSON.parse(text));
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+type ScenarioMigration = (doc: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[v] upgrades a version-v document to version v + 1
+const MIGRATIONS: Record<number, ScenarioMigration> = {
+  // v2: product and range bounds (v1 scenarios are all digital)
+  1: (doc) => ({ product: 'digital', rangeLower: 99.5, rangeUpper: 100.5, ...doc, schemaVersion: 2 }),
+  // v3: 'impliedVol' mode; older readers reject it, earlier documents never use it
+  2: (doc) => ({ ...doc, schemaVersion: 3 }),
+  // v4: 'strategy' mode
+  3: (doc) => ({ ...doc, schemaVersion: 4 }),
+};
+
+function requireObject(value: unknown, what: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${what} must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Copy the fields present in source onto base, requiring the same JSON type
+ */
+function mergeFields<T extends object>(base: T, source: Record<string, unknown>, what: string): T {
+  const result = { ...base };
+  for (const key of Object.keys(base) as (keyof T & string)[]) {
+    if (!(key in source)) continue;
+    if (typeof source[key] !== typeof base[key]) {
+      throw new Error(`${what} field "${key}" must be a ${typeof base[key]}`);
+    }
+    (result as Record<string, unknown>)[key] = source[key];
+  }
+  return result;
+}
+
+function requireOneOf<T extends string>(value: T, allowed: T[], what: string): T {
+  if (!allowed.includes(value)) {
+    throw new Error(`${what} must be one of ${allowed.join(', ')}, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Build a scenario from a parsed JSON document
+ *
+ * Documents from older schema versions are migrated first. Missing fields
+ * fall back to DEFAULT_SCENARIO; the market is parsed with
+ * parseMarketConfig.
+ *
+ * @param input - Parsed JSON value
+ * @returns Complete scenario
+ * @throws Error when the version is unsupported or a field is malformed
+ */
+export function parseScenario(input: unknown): Scenario {
+  let doc = requireObject(input, 'scenario');
+
+  const version = doc.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('scenario schemaVersion must be a positive integer');
+  }
+  if (version > SCENARIO_SCHEMA_VERSION) {
+    throw new Error(
+      `scenario schemaVersion ${version} is newer than supported (${SCENARIO_SCHEMA_VERSION})`
+    );
+  }
+  for (let v = version; v < SCENARIO_SCHEMA_VERSION; v++) {
+    doc = MIGRATIONS[v](doc);
+  }
+
+  const { market, pricing, chart, side, product, ...rest } = DEFAULT_SCENARIO;
+  const top = mergeFields(
+    { ...rest, side: 'long' as string, product: PRODUCT_NAMES[product] as string },
+    doc,
+    'scenario'
+  );
+
+  const result: Scenario = {
+    ...top,
+    mode: requireOneOf(top.mode, MODES, 'scenario mode'),
+    side:
+      requireOneOf(top.side, ['long', 'short'], 'scenario side') === 'long'
+        ? Side.Long
+        : Side.Short,
+    product: PRODUCT_NAMES.indexOf(
+      requireOneOf(top.product as ScenarioProductName, PRODUCT_NAMES, 'scenario product')
+    ) as ProductType,
+    market: 'market' in doc ? parseMarketConfig(doc.market, market) : market,
+    pricing:
+      'pricing' in doc
+        ? mergeFields(pricing, requireObject(doc.pricing, 'scenario pricing'), 'pricing')
+        : pricing,
+    chart:
+      'chart' in doc
+        ? mergeFields(chart, requireObject(doc.chart, 'scenario chart'), 'chart')
+        : chart,
+  };
+
+  requireOneOf(result.pricing.cdfMethod, CDF_METHODS, 'pricing cdfMethod');
+  requireOneOf(result.pricing.model, MODELS, 'pricing model');
+  requireOneOf(result.chart.chartGreek, CHART_GREEKS, 'chart chartGreek');
+
+  return result;
+}
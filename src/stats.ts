@@ -0,0 +1,77 @@
+/**
+ * Descriptive Statistics Helpers
+ */
+
+/**
+ * Histogram bin
+ */
+export interface HistogramBin {
+  start: number;
+  end: number;
+  mid: number;
+  count: number;
+}
+
+/**
+ * Arithmetic mean (0 for an empty sample)
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Sample standard deviation (n − 1 denominator)
+ */
+export function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const ss = values.reduce((sum, v) => sum + (v - m) * (v - m), 0);
+  return Math.sqrt(ss / (values.length - 1));
+}
+
+/**
+ * Percentile by linear interpolation between closest ranks
+ *
+ * @param values - Sample (need not be sorted)
+ * @param p - Percentile in [0, 100]
+ * @returns Interpolated percentile (NaN for an empty sample)
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+/**
+ * Equal-width histogram
+ *
+ * @param values - Sample
+ * @param binCount - Number of bins (≥ 1)
+ * @returns Bins spanning [min, max] of the sample
+ */
+export function histogram(values: number[], binCount: number): HistogramBin[] {
+  if (values.length === 0) return [];
+
+  const bins = Math.max(Math.floor(binCount), 1);
+  const min = values.reduce((a, v) => Math.min(a, v), Infinity);
+  const max = values.reduce((a, v) => Math.max(a, v), -Infinity);
+  const width = max > min ? (max - min) / bins : 1;
+
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    mid: min + (i + 0.5) * width,
+    count: 0,
+  }));
+
+  for (const v of values) {
+    const index = Math.min(Math.floor((v - min) / width), bins - 1);
+    result[index].count++;
+  }
+
+  return result;
+}
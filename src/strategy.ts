@@ -0,0 +1,321 @@
+/**
+ * Multi-Leg Digital Strategies
+ *
+ * A strategy is a list of digital legs (side, barrier, stake, payout method)
+ * opened together at one spot. Every leg is quoted with calcPremium and
+ * priced into a cost and a payout exactly like an order-book position, so
+ * the payoff at settlement and the mark-to-model P&L are sums over legs.
+ *
+ * P&L is from the trader's side: positive when the strategy makes money.
+ */
+
+import { SECONDS_PER_YEAR } from './black-scholes';
+import {
+  calcPremium,
+  isWinning,
+  positionCost,
+  positionPayout,
+  timeRemainingSecs,
+  PricingOptions,
+} from './pricing';
+import { PositionOrder } from './order-book';
+import { MarketAccount, PayoutMethod, Side } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StrategyLeg extends PositionOrder {
+  id: number;
+}
+
+/**
+ * Leg priced at the strategy's entry spot
+ *
+ * cost: amount paid at open; payoutIfWon: amount received if the leg wins
+ */
+export interface StrategyLegQuote {
+  leg: StrategyLeg;
+  fairPrice: number; // calcPremium at entry
+  cost: number;
+  payoutIfWon: number;
+}
+
+export interface StrategyQuote {
+  spot: number; // Entry spot
+  legs: StrategyLegQuote[];
+  totalCost: number;
+  maxPayout: number; // Sum of payouts if every leg won (not always reachable)
+}
+
+/**
+ * Strategy P&L at one spot
+ *
+ * - payoff: P&L if the strategy settles at spot
+ * - markToModel: P&L if closed at fair value with spot at the given price
+ */
+export interface StrategyCurvePoint {
+  spot: number;
+  payoff: number;
+  markToModel: number;
+}
+
+/**
+ * Settlement prices sharing one payoff: (low, high), or exactly low when
+ * low = high (settling on a barrier). Open ends are 0 and Infinity.
+ */
+export interface SettlementZone {
+  low: number;
+  high: number;
+}
+
+/**
+ * Best and worst settlement outcomes
+ */
+export interface StrategySettlementRange {
+  maxProfit: number;
+  maxProfitZone: SettlementZone;
+  maxLoss: number; // Most negative payoff (≤ 0 unless every outcome profits)
+  maxLossZone: SettlementZone;
+}
+
+// ============================================================================
+// QUOTING
+// ============================================================================
+
+/**
+ * Quote every leg at the entry spot
+ *
+ * @param legs - Strategy legs
+ * @param spot - Entry spot
+ * @param market - Market configuration
+ * @param pricing - Pricing options
+ * @returns Per-leg cost and payout with totals
+ */
+export function quoteStrategy(
+  legs: StrategyLeg[],
+  spot: number,
+  market: MarketAccount,
+  pricing: PricingOptions = {}
+): StrategyQuote {
+  const quotes = legs.map((leg) => {
+    const fairPrice = calcPremium(spot, leg.barrier, leg.side, market, pricing);
+    return {
+      leg,
+      fairPrice,
+      cost: positionCost(leg.stake, fairPrice, leg.payoutMethod, market.feeBps),
+      payoutIfWon: positionPayout(leg.stake, fairPrice, leg.payoutMethod, market.feeBps, true),
+    };
+  });
+
+  return {
+    spot,
+    legs: quotes,
+    totalCost: quotes.reduce((sum, q) => sum + q.cost, 0),
+    maxPayout: quotes.reduce((sum, q) => sum + q.payoutIfWon, 0),
+  };
+}
+
+// ============================================================================
+// P&L
+// ============================================================================
+
+/**
+ * Payoff at settlement: payouts of the winning legs − total cost
+ */
+export function strategyPayoffAt(quote: StrategyQuote, settlePrice: number): number {
+  const payout = quote.legs.reduce(
+    (sum, q) => sum + (isWinning(q.leg.side, q.leg.barrier, settlePrice) ? q.payoutIfWon : 0),
+    0
+  );
+  return payout - quote.totalCost;
+}
+
+/**
+ * Mark-to-model P&L: fair value of the fixed payouts − total cost
+ *
+ * Each leg is worth payoutIfWon × calcPremium at the given spot, with the
+ * time remaining taken from pricing.entryOffsetSecs (no fee on exit).
+ *
+ * @param quote - Quoted strategy
+ * @param spot - Spot to mark at
+ * @param market - Market configuration
+ * @param pricing - Pricing options (entryOffsetSecs = elapsed time at the mark)
+ */
+export function strategyMarkToModel(
+  quote: StrategyQuote,
+  spot: number,
+  market: MarketAccount,
+  pricing: PricingOptions = {}
+): number {
+  const value = quote.legs.reduce(
+    (sum, q) => sum + q.payoutIfWon * calcPremium(spot, q.leg.barrier, q.leg.side, market, pricing),
+    0
+  );
+  return value - quote.totalCost;
+}
+
+/**
+ * Payoff and mark-to-model P&L across spot
+ *
+ * Samples are evenly spaced; a point just below and just above every barrier
+ * inside the range is added so the payoff steps stay sharp.
+ *
+ * @param quote - Quoted strategy
+ * @param market - Market configuration
+ * @param pricing - Pricing options for the mark
+ * @param minSpot - Lowest spot
+ * @param maxSpot - Highest spot
+ * @param points - Number of evenly spaced samples (≥ 2)
+ * @returns Points sorted by spot
+ */
+export function strategyCurve(
+  quote: StrategyQuote,
+  market: MarketAccount,
+  pricing: PricingOptions,
+  minSpot: number,
+  maxSpot: number,
+  points: number
+): StrategyCurvePoint[] {
+  const n = Math.max(Math.floor(points), 2);
+  const step = (maxSpot - minSpot) / (n - 1);
+  const spots = Array.from({ length: n }, (_, i) => minSpot + step * i);
+
+  for (const { leg } of quote.legs) {
+    if (leg.barrier <= minSpot || leg.barrier >= maxSpot) continue;
+    const eps = leg.barrier * 1e-9;
+    spots.push(leg.barrier - eps, leg.barrier + eps);
+  }
+
+  return spots
+    .sort((a, b) => a - b)
+    .map((spot) => ({
+      spot,
+      payoff: strategyPayoffAt(quote, spot),
+      markToModel: strategyMarkToModel(quote, spot, market, pricing),
+    }));
+}
+
+/**
+ * Best and worst payoff over all settlement prices
+ *
+ * The payoff only changes at barriers, so the zones below the lowest
+ * barrier, between consecutive distinct barriers, on each barrier (where
+ * neither side wins) and above the highest barrier cover every outcome.
+ *
+ * @returns Range, or null for a strategy without legs
+ */
+export function strategySettlementRange(quote: StrategyQuote): StrategySettlementRange | null {
+  if (quote.legs.length === 0) return null;
+
+  const barriers = [...new Set(quote.legs.map((q) => q.leg.barrier))].sort((a, b) => a - b);
+  const zones: SettlementZone[] = [{ low: 0, high: barriers[0] }];
+  barriers.forEach((barrier, i) => {
+    zones.push({ low: barrier, high: barrier });
+    zones.push({ low: barrier, high: barriers[i + 1] ?? Infinity });
+  });
+
+  // Representative price inside each zone
+  const priceIn = (zone: SettlementZone) =>
+    zone.low === zone.high ? zone.low
+    : zone.low === 0 ? zone.high / 2
+    : zone.high === Infinity ? zone.low * 2
+    : (zone.low + zone.high) / 2;
+
+  const outcomes = zones.map((zone) => ({ zone, payoff: strategyPayoffAt(quote, priceIn(zone)) }));
+  const best = outcomes.reduce((a, b) => (b.payoff > a.payoff ? b : a));
+  const worst = outcomes.reduce((a, b) => (b.payoff < a.payoff ? b : a));
+
+  return {
+    maxProfit: best.payoff,
+    maxProfitZone: best.zone,
+    maxLoss: worst.payoff,
+    maxLossZone: worst.zone,
+  };
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Preset strategies
+ *
+ * - strangle: Long above and Short below spot, pays on a large move either way
+ * - corridor: Long below and Short above spot, pays while spot stays between
+ * - longLadder: Long rungs at increasing barriers above spot
+ * - shortLadder: Short rungs at decreasing barriers below spot
+ */
+export type StrategyTemplate = 'strangle' | 'corridor' | 'longLadder' | 'shortLadder';
+
+export const STRATEGY_TEMPLATES: StrategyTemplate[] = [
+  'strangle',
+  'corridor',
+  'longLadder',
+  'shortLadder',
+];
+
+export interface StrategyTemplateOptions extends PricingOptions {
+  stake?: number; // Stake per leg (default 100)
+  payoutMethod?: PayoutMethod; // Default CashOrNothing
+  widthStdDevs?: number; // Barrier distance (first rung) in σ√T units (default 1)
+  rungs?: number; // Ladder rungs (default 3)
+}
+
+/**
+ * Build the legs of a preset strategy
+ *
+ * Barriers are spot·e^(±k·σ√T) with σ the flat market volatility and T the
+ * time remaining after entryOffsetSecs; ladder rung i sits at k·(i + 1).
+ *
+ * @param template - Preset name
+ * @param spot - Entry spot
+ * @param market - Market configuration
+ * @param options - Stake, payout method, width and rungs
+ * @returns Legs with ids 0..n−1
+ */
+export function buildStrategyTemplate(
+  template: StrategyTemplate,
+  spot: number,
+  market: MarketAccount,
+  options: StrategyTemplateOptions = {}
+): StrategyLeg[] {
+  const {
+    stake = 100,
+    payoutMethod = PayoutMethod.CashOrNothing,
+    widthStdDevs = 1,
+    rungs = 3,
+    entryOffsetSecs,
+  } = options;
+
+  const timeYears = timeRemainingSecs(market, entryOffsetSecs) / SECONDS_PER_YEAR;
+  const stdDev = Math.sqrt(Math.max(market.sigma2, 0) * timeYears);
+  const barrierAt = (k: number) => spot * Math.exp(k * widthStdDevs * stdDev);
+
+  const leg = (side: Side, k: number): Omit<StrategyLeg, 'id'> => ({
+    side,
+    barrier: barrierAt(k),
+    stake,
+    payoutMethod,
+  });
+
+  let legs: Omit<StrategyLeg, 'id'>[];
+  switch (template) {
+    case 'strangle':
+      legs = [leg(Side.Long, 1), leg(Side.Short, -1)];
+      break;
+    case 'corridor':
+      legs = [leg(Side.Long, -1), leg(Side.Short, 1)];
+      break;
+    case 'longLadder':
+    case 'shortLadder': {
+      const long = template === 'longLadder';
+      legs = Array.from({ length: Math.max(Math.floor(rungs), 1) }, (_, i) =>
+        leg(long ? Side.Long : Side.Short, long ? i + 1 : -(i + 1))
+      );
+      break;
+    }
+  }
+
+  return legs.map((l, id) => ({ ...l, id }));
+}
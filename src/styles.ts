@@ -0,0 +1,64 @@
+import React from 'react';
+
+// 输入框样式
+export const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '14px',
+  boxSizing: 'border-box',
+};
+
+// Tab 按钮样式
+export const tabButtonStyle: React.CSSProperties = {
+  padding: '12px 30px',
+  border: 'none',
+  borderRadius: '8px',
+  fontSize: '16px',
+  cursor: 'pointer',
+  transition: 'all 0.3s ease',
+  boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+};
+
+// 输入标签样式
+export const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '8px',
+  fontWeight: 500,
+};
+
+// 卡片容器样式
+export const panelStyle: React.CSSProperties = {
+  backgroundColor: '#fff',
+  padding: '20px',
+  borderRadius: '8px',
+  boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+};
+
+// 卡片标题样式
+export const panelTitleStyle: React.CSSProperties = {
+  marginTop: 0,
+  fontSize: '18px',
+  color: '#333',
+  marginBottom: '20px',
+};
+
+// 操作按钮样式
+export const actionButtonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  border: 'none',
+  borderRadius: '4px',
+  fontSize: '14px',
+  cursor: 'pointer',
+  backgroundColor: '#4dabf7',
+  color: '#fff',
+};
+
+// 表格单元格样式
+export const tableCellStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  borderBottom: '1px solid #e0e0e0',
+  textAlign: 'right',
+  fontSize: '13px',
+};
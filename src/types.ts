@@ -22,6 +22,52 @@ export interface MarketAccount {
   treasury: string;
   paused: boolean;
   positionCounter: number;
+  volSmile?: VolSmile; // Simulator-only smile (not part of the on-chain account)
+}
+
+/**
+ * Volatility Smile Table Point
+ */
+export interface SmileTablePoint {
+  moneyness: number; // K / S
+  iv: number; // Annualized implied volatility
+}
+
+/**
+ * Interpolated strike→IV table (flat extrapolation beyond the end points)
+ */
+export interface SmileTable {
+  kind: 'table';
+  points: SmileTablePoint[];
+}
+
+/**
+ * Raw SVI parameters
+ *
+ * Formula: σ²(k) = a + b·[ρ(k − m) + √((k − m)² + s²)],  k = ln(K/S)
+ *
+ * σ²(k) is annualised variance, so the smile does not scale with the
+ * time to expiry.
+ */
+export interface SviSmile {
+  kind: 'svi';
+  a: number;
+  b: number; // ≥ 0, overall slope of the wings
+  rho: number; // (-1, 1), skew
+  m: number; // Horizontal shift
+  sigma: number; // > 0, ATM curvature (s above)
+}
+
+export type VolSmile = SmileTable | SviSmile;
+
+/**
+ * Price Tick
+ *
+ * ts is unix seconds (same unit as MarketAccount.lastTs)
+ */
+export interface PriceTick {
+  ts: number;
+  price: number;
 }
 
 /**
@@ -32,6 +78,89 @@ export enum Side {
   Short = 1,
 }
 
+/**
+ * Product Type
+ *
+ * Digital is the single-barrier Long / Short product. Touch products use
+ * the barrier's position relative to spot as the direction (up when above).
+ */
+export enum ProductType {
+  Digital = 0, // Settles above (Long) / below (Short) the barrier
+  Range = 1, // Settles strictly between the lower and upper barrier
+  OneTouch = 2, // Barrier touched at any time before expiry
+  NoTouch = 3, // Barrier never touched before expiry
+}
+
+/**
+ * Contract to price: product type plus its barriers
+ */
+export type ProductSpec =
+  | { type: ProductType.Digital; side: Side; barrier: number }
+  | { type: ProductType.Range; lower: number; upper: number }
+  | { type: ProductType.OneTouch | ProductType.NoTouch; barrier: number };
+
+/**
+ * Payout Method
+ *
+ * CashOrNothing: user pays stake × premium, winner receives stake
+ * OddsBased: user pays stake, winner receives stake / premium
+ */
+export enum PayoutMethod {
+  CashOrNothing = 0,
+  OddsBased = 1,
+}
+
+/**
+ * Position
+ *
+ * premiumPaid: amount the trader paid into the pool at open
+ * payoutIfWon: amount the pool owes the trader if the position wins
+ */
+export interface Position {
+  id: number;
+  side: Side;
+  barrier: number;
+  stake: number;
+  premiumPaid: number;
+  payoutIfWon: number;
+  payoutMethod: PayoutMethod;
+  openEpoch: number;
+  settleEpoch: number;
+}
+
+/**
+ * Order Book
+ *
+ * positionCounter mirrors MarketAccount.positionCounter (next id to assign)
+ */
+export interface OrderBook {
+  positions: Position[];
+  positionCounter: number;
+}
+
+/**
+ * Quote Rejection Reason
+ */
+export enum QuoteRejectionReason {
+  MarketPaused = 'MarketPaused',
+  StalePrice = 'StalePrice',
+  StakeBelowMin = 'StakeBelowMin',
+  StakeAboveMax = 'StakeAboveMax',
+  InvalidCallLambda = 'InvalidCallLambda',
+  InvalidPutLambda = 'InvalidPutLambda',
+  NonPositiveSpot = 'NonPositiveSpot',
+  NonPositiveBarrier = 'NonPositiveBarrier',
+  InvertedRange = 'InvertedRange',
+}
+
+/**
+ * Quote Rejection
+ */
+export interface QuoteRejection {
+  reason: QuoteRejectionReason;
+  message: string;
+}
+
 /**
  * Chart Data Point
  */
@@ -39,5 +168,29 @@ export interface ChartDataPoint {
   spotPrice: number;
   longPremium: number;
   shortPremium: number;
+  longGreek?: number;
+  shortGreek?: number;
+  longAltPremium?: number; // Long premium under the non-selected model
+  shortAltPremium?: number; // Short premium under the non-selected model
+  longMarkupBps?: number | null; // Spread markup over closed form (see calcSpreadMarkup)
+  shortMarkupBps?: number | null;
+  variantPremiums?: Record<string, { long: number; short: number }>; // Keyed by ConfigVariant.id
+  productPremium?: number; // Range / touch product premium (non-digital products)
+  complementPremium?: number; // Opposite touch product (no-touch for one-touch and vice versa)
 }
 
+/**
+ * Simulator page mode
+ */
+export type SimulatorMode = 'premium' | 'odds' | 'impliedVol' | 'montecarlo' | 'backtest' | 'book' | 'strategy';
+
+/**
+ * Greek selectable for display / charting
+ */
+export type GreekKey =
+  | 'delta'
+  | 'gamma'
+  | 'vega'
+  | 'thetaPerSecond'
+  | 'thetaPerEpoch';
+
@@ -0,0 +1,207 @@
+/**
+ * Volatility Smile / Skew
+ *
+ * Optional per-strike implied volatility stored with the market config.
+ * When set, the digital pricers take σ(K₁) and σ(K₂) from the smile instead
+ * of skewing the flat σ by ±vegaBuffer.
+ *
+ * Two representations:
+ * - table: strike→IV points in moneyness K/S, linearly interpolated
+ * - svi: raw SVI (Gatheral) on annualised variance in log-moneyness
+ *
+ * References:
+ * - J. Gatheral (2004): A parsimonious arbitrage-free implied volatility
+ *   parameterization with application to the valuation of volatility derivatives
+ */
+
+import { StrikeVolatility } from './black-scholes';
+import { SmileTable, SmileTablePoint, SviSmile, VolSmile } from './types';
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+// 默认插值表：IV ≈ 50% 附近的轻微下偏斜
+export const DEFAULT_SMILE_TABLE: SmileTable = {
+  kind: 'table',
+  points: [
+    { moneyness: 0.95, iv: 0.6 },
+    { moneyness: 0.98, iv: 0.54 },
+    { moneyness: 1.0, iv: 0.5 },
+    { moneyness: 1.02, iv: 0.48 },
+    { moneyness: 1.05, iv: 0.5 },
+  ],
+};
+
+// 默认 SVI：ATM 方差 ≈ 0.25 (IV ≈ 50%)，负偏斜
+export const DEFAULT_SVI_SMILE: SviSmile = {
+  kind: 'svi',
+  a: 0.2,
+  b: 0.5,
+  rho: -0.4,
+  m: 0,
+  sigma: 0.1,
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Linear interpolation in a table sorted by moneyness
+ */
+function interpolateTable(points: SmileTablePoint[], moneyness: number): number {
+  if (moneyness <= points[0].moneyness) return points[0].iv;
+
+  const last = points[points.length - 1];
+  if (moneyness >= last.moneyness) return last.iv;
+
+  let i = 1;
+  while (points[i].moneyness < moneyness) i++;
+
+  const lo = points[i - 1];
+  const hi = points[i];
+  const w = (moneyness - lo.moneyness) / (hi.moneyness - lo.moneyness);
+  return lo.iv + w * (hi.iv - lo.iv);
+}
+
+/**
+ * Annualised SVI variance at log-moneyness k
+ */
+export function sviVariance(smile: SviSmile, k: number): number {
+  const x = k - smile.m;
+  return smile.a + smile.b * (smile.rho * x + Math.sqrt(x * x + smile.sigma * smile.sigma));
+}
+
+/**
+ * Implied volatility of a strike
+ *
+ * @param smile - Smile model
+ * @param strike - Strike price (K)
+ * @param spot - Spot price (S)
+ * @returns σ(K) (≥ 0)
+ */
+export function smileVolatility(smile: VolSmile, strike: number, spot: number): number {
+  if (smile.kind === 'table') {
+    return Math.max(interpolateTable(smile.points, strike / spot), 0);
+  }
+  return Math.sqrt(Math.max(sviVariance(smile, Math.log(strike / spot)), 0));
+}
+
+/**
+ * Strike lookup for DigitalParams.volAtStrike
+ */
+export function smileLookup(smile: VolSmile): StrikeVolatility {
+  return (strike, spot) => smileVolatility(smile, strike, spot);
+}
+
+export interface SmileCurvePoint {
+  moneyness: number;
+  strike: number;
+  iv: number;
+}
+
+/**
+ * Sample the smile across a moneyness range (for charting)
+ *
+ * @param smile - Smile model
+ * @param spot - Spot price used to convert moneyness to strike
+ * @param minMoneyness - Lowest K/S
+ * @param maxMoneyness - Highest K/S
+ * @param points - Number of samples (≥ 2)
+ */
+export function smileCurve(
+  smile: VolSmile,
+  spot: number,
+  minMoneyness: number,
+  maxMoneyness: number,
+  points: number
+): SmileCurvePoint[] {
+  const n = Math.max(Math.floor(points), 2);
+  const step = (maxMoneyness - minMoneyness) / (n - 1);
+  return Array.from({ length: n }, (_, i) => {
+    const moneyness = minMoneyness + step * i;
+    const strike = spot * moneyness;
+    return { moneyness, strike, iv: smileVolatility(smile, strike, spot) };
+  });
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function requireNumber(source: Record<string, unknown>, key: string): number {
+  const value = source[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`volSmile field "${key}" must be a finite number`);
+  }
+  return value;
+}
+
+/**
+ * Validate a smile from JSON
+ *
+ * - table: at least one point, moneyness > 0, iv ≥ 0; points are sorted and
+ *   duplicate moneyness values rejected
+ * - svi: b ≥ 0, |ρ| < 1, sigma > 0 and a + b·sigma·√(1 − ρ²) ≥ 0 (the
+ *   minimum variance is non-negative)
+ *
+ * @param input - Parsed JSON value
+ * @returns Normalised smile
+ * @throws Error when the smile is malformed
+ */
+export function parseVolSmile(input: unknown): VolSmile {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('volSmile must be an object');
+  }
+  const source = input as Record<string, unknown>;
+
+  if (source.kind === 'table') {
+    if (!Array.isArray(source.points) || source.points.length === 0) {
+      throw new Error('volSmile table needs at least one point');
+    }
+
+    const points = source.points.map((p: unknown) => {
+      if (typeof p !== 'object' || p === null) {
+        throw new Error('volSmile table points must be objects');
+      }
+      const point = p as Record<string, unknown>;
+      const moneyness = requireNumber(point, 'moneyness');
+      const iv = requireNumber(point, 'iv');
+      if (moneyness <= 0) throw new Error(`volSmile moneyness must be > 0, got ${moneyness}`);
+      if (iv < 0) throw new Error(`volSmile iv must be ≥ 0, got ${iv}`);
+      return { moneyness, iv };
+    });
+
+    points.sort((x, y) => x.moneyness - y.moneyness);
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].moneyness === points[i - 1].moneyness) {
+        throw new Error(`volSmile has duplicate moneyness ${points[i].moneyness}`);
+      }
+    }
+
+    return { kind: 'table', points };
+  }
+
+  if (source.kind === 'svi') {
+    const smile: SviSmile = {
+      kind: 'svi',
+      a: requireNumber(source, 'a'),
+      b: requireNumber(source, 'b'),
+      rho: requireNumber(source, 'rho'),
+      m: requireNumber(source, 'm'),
+      sigma: requireNumber(source, 'sigma'),
+    };
+
+    if (smile.b < 0) throw new Error('volSmile SVI b must be ≥ 0');
+    if (!(Math.abs(smile.rho) < 1)) throw new Error('volSmile SVI rho must be in (-1, 1)');
+    if (!(smile.sigma > 0)) throw new Error('volSmile SVI sigma must be > 0');
+    if (smile.a + smile.b * smile.sigma * Math.sqrt(1 - smile.rho * smile.rho) < 0) {
+      throw new Error('volSmile SVI variance must be non-negative');
+    }
+
+    return smile;
+  }
+
+  throw new Error('volSmile kind must be "table" or "svi"');
+}
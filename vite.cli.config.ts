@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite'
+
+// Builds the premium-sim CLI and the mock price feed as Node ESM scripts
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist/cli',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        'premium-sim': 'cli/premium-sim.ts',
+        'mock-feed': 'cli/mock-feed.ts',
+      },
+      output: {
+        entryFileNames: '[name].js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})